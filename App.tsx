@@ -1,39 +1,114 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { ValvePosition, RadiatorSpecs, CalculationResult, Environment, Project, RadiatorModel, RadiatorSeries, GlobalSettings } from './types';
-import { INITIAL_SPECS, INITIAL_SETTINGS, createInitialProject, PIPE_DIAMETERS, PIPE_MATERIALS } from './constants';
-import { TESI2_MODELS, TESI3_MODELS, TESI4_MODELS } from './radiatorData';
+import { ValvePosition, RadiatorSpecs, CalculationResult, Environment, Project, RadiatorModel, RadiatorSeries, GlobalSettings, RadiatorSizing, HeatLossMethod, SystemTemperatures, OptimizerProposal, ValidationIssue, ProjectStatus, DeletedItem, ProjectQuote, Letterhead, DrawingView, LoadSplitMode, RoomTemplate, CircuitConnection, CircuitType, ProjectSnapshot, SnapshotKind } from './types';
+import { INITIAL_SPECS, createInitialProject, PIPE_DIAMETERS, PIPE_MATERIALS, HEAT_LOSS_METHOD_LABELS, INITIAL_SYSTEM_TEMPERATURES, PROJECT_STATUS_LABELS, LOAD_SPLIT_LABELS } from './constants';
 import { RadiatorVisualizer } from './components/RadiatorVisualizer';
+import { HeatLossEditor } from './components/HeatLossEditor';
+import { CatalogueManager } from './components/CatalogueManager';
+import { OptimizerPanel } from './components/OptimizerPanel';
+import { calculateWatts as calculateEnvWatts, sizeRadiator } from './services/sizingEngine';
+import { getSeriesOptions } from './services/catalogue';
+import { validateEnvironment, validateTemperatures, countIssues, issuesForRadiator } from './services/validation';
+import { downloadProjectPdf } from './services/pdfExport';
+import { proposalSpecs } from './services/optimizer';
+import { buildElevation, buildPlanView, buildSideSection } from './services/elevation';
+import { exportElevation, elevationFileName, buildElevationZip, DrawingFormat, RadiatorDrawing } from './services/drawingExport';
+import { summarizeBuilding, hasStructure, unitLabel, assignEnvironment, StructureTotals } from './services/buildingStructure';
+import { sizeEnvironmentRadiators, summarizeRoom, radiatorLabel, createAdditionalRadiator, updateRadiatorSpecs, resetManualSizing, isRoomField, splitRequiredWatts } from './services/radiators';
+import { calculateRingTemperatures, clearConnections, connectionLabel, findManifold, outletRadiators, withConnection } from './services/topology';
+import { FieldIssues, IssueList } from './components/ValidationMessages';
+import { ProjectTransfer } from './components/ProjectTransfer';
+import { QuoteEditor } from './components/QuoteEditor';
+import { PriceListEditor } from './components/PriceListEditor';
+import { BillOfMaterials } from './components/BillOfMaterials';
+import { BalancingSettingsEditor, BalancingTable } from './components/BalancingTable';
+import { PlantSettingsEditor, PlantSummaryTable } from './components/PlantSummary';
+import { LetterheadSelector, LetterheadManager } from './components/LetterheadSelector';
+import { BuildingStructureEditor } from './components/BuildingStructureEditor';
+import { ManifoldEditor } from './components/ManifoldEditor';
+import { RoomTemplateManager, RoomTemplateApplier } from './components/RoomTemplateLibrary';
+import { HistoryControls, SnapshotPanel } from './components/ProjectHistory';
+import { applyRoomTemplate, applyTemplateToEnvironments, createRoomTemplate } from './services/roomTemplates';
+import { LetterheadHeader, LetterheadFooter } from './components/PrintLetterhead';
+import { loadPersistedState, savePersistedState, backupPersistedState } from './services/storage';
+import { buildQuoteLines, calculateQuoteTotals, getProjectQuote, remapQuoteOverrides, lineTotal, formatEuro } from './services/quote';
+import { buildBillOfMaterials, exportBomCsv } from './services/billOfMaterials';
+import { calculateBalancing } from './services/balancing';
+import { summarizePlant } from './services/plantSizing';
+import { downloadFile } from './services/download';
+import { projectSlug } from './services/projectFile';
+import { History, createHistory, recordChange, undoHistory, redoHistory, undoLabel, redoLabel } from './services/history';
+import { createSnapshot, addSnapshot, projectSnapshots, nextAutoSnapshotTime, restoreSnapshot, compareSnapshot } from './services/snapshots';
+import { touchProject, duplicateProject, duplicateEnvironment, environmentIdMap, moveItem, filterProjects } from './services/projectManagement';
 
 const App: React.FC = () => {
-  const loadState = <T,>(key: string, defaultValue: T): T => {
-    const saved = localStorage.getItem(key);
-    return saved ? JSON.parse(saved) : defaultValue;
-  };
+  const [initialState] = useState(loadPersistedState);
 
-  const [projects, setProjects] = useState<Project[]>(() => loadState('archquote_projects_v3', [createInitialProject()]));
-  const [activeProjectId, setActiveProjectId] = useState(() => loadState('archquote_active_project_id_v3', projects[0]?.id || ''));
-  const [customModels, setCustomModels] = useState<RadiatorModel[]>(() => loadState('archquote_custom_models_v3', []));
-  const [settings, setSettings] = useState<GlobalSettings>(() => loadState('archquote_settings_v3', INITIAL_SETTINGS));
+  const [projectHistory, setProjectHistory] = useState<History<Project[]>>(() => createHistory(initialState.projects));
+  const projects: Project[] = projectHistory.present;
+  const [activeProjectId, setActiveProjectId] = useState(initialState.activeProjectId);
+  const [customModels, setCustomModels] = useState<RadiatorModel[]>(initialState.customModels);
+  const [settings, setSettings] = useState<GlobalSettings>(initialState.settings);
+  const [letterheads, setLetterheads] = useState<Letterhead[]>(initialState.letterheads);
+  const [roomTemplates, setRoomTemplates] = useState<RoomTemplate[]>(initialState.roomTemplates);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>(initialState.snapshots);
+  const [sessionStart] = useState(Date.now);
   
   const [showSettings, setShowSettings] = useState(false);
   const [activeEnvIndex, setActiveEnvIndex] = useState(0);
+  const [activeRadiatorIndex, setActiveRadiatorIndex] = useState(0);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [projectQuery, setProjectQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [lastDeleted, setLastDeleted] = useState<DeletedItem | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(initialState.loadError);
+  const [dragEnvIndex, setDragEnvIndex] = useState<number | null>(null);
+  const [showTemplateApplier, setShowTemplateApplier] = useState(false);
+  const [drawingView, setDrawingView] = useState<DrawingView>(DrawingView.ELEVATION);
 
-  const [newModel, setNewModel] = useState<RadiatorModel>({
-    label: '',
-    code: '',
-    height: 0,
-    interaxis: 0,
-    watts: 0,
-    brand: ''
-  });
+  // Finché i dati salvati non sono stati caricati né copiati non si scrive nulla
+  useEffect(() => {
+    if (loadError) return;
+    setSaveError(savePersistedState({ projects, activeProjectId, customModels, settings, letterheads, roomTemplates, snapshots }));
+  }, [loadError, projects, activeProjectId, customModels, settings, letterheads, roomTemplates, snapshots]);
+
+  const backupAndContinue = () => {
+    const error = backupPersistedState();
+    if (error) setSaveError(error);
+    else setLoadError(null);
+  };
+
+  useEffect(() => {
+    setActiveRadiatorIndex(0);
+  }, [activeProjectId, activeEnvIndex]);
 
   useEffect(() => {
-    localStorage.setItem('archquote_projects_v3', JSON.stringify(projects));
-    localStorage.setItem('archquote_active_project_id_v3', JSON.stringify(activeProjectId));
-    localStorage.setItem('archquote_custom_models_v3', JSON.stringify(customModels));
-    localStorage.setItem('archquote_settings_v3', JSON.stringify(settings));
-  }, [projects, activeProjectId, customModels, settings]);
+    if (!lastDeleted) return;
+    const timer = setTimeout(() => setLastDeleted(null), 8000);
+    return () => clearTimeout(timer);
+  }, [lastDeleted]);
+
+  // Ctrl/Cmd+Z annulla, Ctrl+Y o Ctrl+Maiusc+Z ripete; il catalogo nelle impostazioni non è nella cronologia.
+  // Nei campi di testo resta l'annullamento nativo del browser
+  useEffect(() => {
+    if (showSettings) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showSettings]);
 
   const activeProject = useMemo(() => 
     projects.find(p => p.id === activeProjectId) || projects[0], 
@@ -41,145 +116,349 @@ const App: React.FC = () => {
 
   const activeEnv = activeProject.environments[activeEnvIndex] || activeProject.environments[0];
 
-  const calculateWatts = useCallback((env: Environment): CalculationResult => {
-    const volume = (env.specs.surface || 0) * (env.specs.height || 0);
-    const watts = (volume * settings.wattCoefficient) / 0.86;
-    return { volume, watts };
-  }, [settings.wattCoefficient]);
-
-  const getEnvRadiatorData = useCallback((env: Environment) => {
-    const targetInteraxis = env.specs.valveCenterDistance || 0;
-    const series = env.specs.series;
-    
-    let modelList: RadiatorModel[] = [];
-    if (series === RadiatorSeries.TESI2) modelList = TESI2_MODELS;
-    else if (series === RadiatorSeries.TESI3) modelList = TESI3_MODELS;
-    else if (series === RadiatorSeries.TESI4) modelList = TESI4_MODELS;
-    else if (series === RadiatorSeries.CUSTOM) modelList = customModels;
-
-    if (modelList.length === 0) {
-      return {
-        model: { label: 'N/A', code: 'N/A', height: 0, interaxis: 0, watts: 0 },
-        series: series,
-        currentElements: 0,
-        bodyLength: 0,
-        totalOccupiedWidth: 0,
-        totalWatts: 0,
-        requiredWatts: Math.round(calculateWatts(env).watts),
-        hasClearanceIssue: false,
-        eccentricText: null,
-        needsEccentric: false
-      };
-    }
+  // Salvataggio automatico periodico del progetto attivo, solo se modificato dall'ultima istantanea
+  useEffect(() => {
+    const due = nextAutoSnapshotTime(snapshots, activeProject, sessionStart);
+    if (due === null) return;
+    const timer = setTimeout(() => setSnapshots((prev: ProjectSnapshot[]) => addSnapshot(prev, createSnapshot(activeProject, SnapshotKind.AUTO))), Math.max(0, due - Date.now()));
+    return () => clearTimeout(timer);
+  }, [snapshots, activeProject, sessionStart]);
 
-    let closest = modelList[0];
-    let minDiff = Math.abs(targetInteraxis - closest.interaxis);
-    modelList.forEach(m => {
-      const diff = Math.abs(targetInteraxis - m.interaxis);
-      if (diff < minDiff) {
-        minDiff = diff;
-        closest = m;
-      }
-    });
-
-    const interaxisDiff = Math.abs(targetInteraxis - closest.interaxis);
-    const needsEccentric = (env.specs.valvePosition !== ValvePosition.BOTTOM && interaxisDiff > 0);
-    const eccentricText = needsEccentric ? `Inserire eccentrici per ${interaxisDiff} mm` : null;
-
-    const requiredWatts = calculateWatts(env).watts;
-    const baseElements = Math.ceil(requiredWatts / (closest.watts || 1));
-    const finalElements = env.specs.manualElements ?? baseElements;
-    
-    const bodyLength = finalElements * 45;
-    const { sideValveDistance, valvePosition, maxWidth } = env.specs;
-    let totalOccupiedWidth = 0;
-    
-    if (valvePosition === ValvePosition.BOTTOM) {
-      totalOccupiedWidth = 52 + bodyLength + 52 + 50;
-    } else {
-      totalOccupiedWidth = 52 + bodyLength + 62;
-    }
-    
-    if (needsEccentric) {
-      totalOccupiedWidth += 50;
-    }
+  const calculateWatts = useCallback((env: Environment): CalculationResult => 
+    calculateEnvWatts(env.specs, settings), 
+  [settings]);
 
-    let hasClearanceIssue = false;
+  const projectTemps = activeProject.systemTemperatures ?? INITIAL_SYSTEM_TEMPERATURES;
+  const projectTempIssues = validateTemperatures(projectTemps);
+  const activeLetterhead = letterheads.find(l => l.id === activeProject.letterheadId);
 
-    if (maxWidth > 0 && totalOccupiedWidth > maxWidth) {
-      hasClearanceIssue = true;
-    }
+  // Sugli anelli monotubo ogni radiatore lavora con le temperature in ingresso dal precedente
+  const ringTemperaturesFor = useCallback((project: Project): Map<string, SystemTemperatures> =>
+    calculateRingTemperatures(project, env => splitRequiredWatts(env, calculateWatts(env).watts), project.systemTemperatures ?? INITIAL_SYSTEM_TEMPERATURES),
+  [calculateWatts]);
 
-    if (sideValveDistance < 50) {
-      hasClearanceIssue = true;
-    }
+  // Dimensionamento di un progetto qualsiasi, usato anche per confrontare le istantanee
+  const radiatorSizerFor = useCallback((project: Project, rings: Map<string, SystemTemperatures>) => (env: Environment): RadiatorSizing[] =>
+    sizeEnvironmentRadiators(env, calculateWatts(env).watts, (specs, assignedWatts, radiator) => {
+      const ringTemps = rings.get(radiator.id);
+      return sizeRadiator(ringTemps ? { ...specs, systemTemperatures: ringTemps } : specs, settings, customModels, project.systemTemperatures ?? INITIAL_SYSTEM_TEMPERATURES, assignedWatts);
+    }),
+  [calculateWatts, settings, customModels]);
 
-    return {
-      model: closest,
-      series: series,
-      eccentricText: eccentricText,
-      needsEccentric: needsEccentric,
-      currentElements: finalElements,
-      bodyLength: bodyLength,
-      totalOccupiedWidth: totalOccupiedWidth,
-      totalWatts: Math.round(finalElements * closest.watts),
-      requiredWatts: Math.round(requiredWatts),
-      hasClearanceIssue: hasClearanceIssue
-    };
-  }, [customModels, calculateWatts]);
+  const ringTemperatures: Map<string, SystemTemperatures> = useMemo(() => ringTemperaturesFor(activeProject), [activeProject, ringTemperaturesFor]);
+  const getEnvRadiators: (env: Environment) => RadiatorSizing[] = useMemo(() => radiatorSizerFor(activeProject, ringTemperatures), [activeProject, radiatorSizerFor, ringTemperatures]);
+
+  const getEnvIssues = useCallback((env: Environment): ValidationIssue[] => 
+    validateEnvironment(env, getEnvRadiators(env), calculateWatts(env).watts), 
+  [getEnvRadiators, calculateWatts]);
+
+  const seriesOptions = useMemo(() => getSeriesOptions(customModels), [customModels]);
+
+  const activeRadiators: RadiatorSizing[] = useMemo(() => getEnvRadiators(activeEnv), [activeEnv, getEnvRadiators]);
+  const radiatorIndex = Math.min(activeRadiatorIndex, activeRadiators.length - 1);
+  const { radiator: activeRadiator, sizing: matchedModelData } = activeRadiators[radiatorIndex];
+  const activeSpecs = activeRadiator.specs;
+  const activeConnection = activeSpecs.connection;
+  const activeManifold = findManifold(activeProject, activeConnection?.manifoldId);
+  const isActiveRing = activeManifold?.circuitType === CircuitType.MONOTUBE;
+  const activeRingTemps = ringTemperatures.get(activeRadiator.id);
+  const isMultiRadiator = activeRadiators.length > 1;
+  const activeRoom = summarizeRoom(activeRadiators, calculateWatts(activeEnv).watts);
 
-  const matchedModelData = useMemo(() => getEnvRadiatorData(activeEnv), [activeEnv, getEnvRadiatorData]);
+  const activeIssues: ValidationIssue[] = useMemo(() => getEnvIssues(activeEnv), [activeEnv, getEnvIssues]);
+  const activeRadiatorIssues = issuesForRadiator(activeIssues, activeRadiator.id);
+
+  const getEnvDrawings = useCallback((env: Environment): RadiatorDrawing[] => {
+    const issues = getEnvIssues(env);
+    return getEnvRadiators(env).map(({ radiator, sizing }) => ({
+      radiator,
+      drawing: buildElevation(radiator.specs, sizing, issuesForRadiator(issues, radiator.id))
+    }));
+  }, [getEnvRadiators, getEnvIssues]);
+
+  const handleExportElevation = (format: DrawingFormat) => downloadFile(
+    elevationFileName(activeProject, activeEnv, format, isMultiRadiator ? activeRadiator : undefined),
+    exportElevation(buildElevation(activeSpecs, matchedModelData, activeRadiatorIssues), format, radiatorLabel(activeEnv, activeRadiator, activeRadiators.length)),
+    format === 'svg' ? 'image/svg+xml' : 'application/dxf'
+  );
+
+  const handleExportElevationZip = () =>
+    downloadFile(`prospetti-${projectSlug(activeProject)}.zip`, buildElevationZip(activeProject, getEnvDrawings), 'application/zip');
+
+  const handleExportPdf = () => downloadProjectPdf({
+    project: activeProject,
+    letterhead: activeLetterhead,
+    getRadiators: getEnvRadiators,
+    getCalculation: calculateWatts,
+    getIssues: getEnvIssues,
+    view: drawingView
+  });
+
+  const buildingSummary = useMemo(
+    () => summarizeBuilding(activeProject, getEnvRadiators, env => calculateWatts(env).watts),
+    [activeProject, getEnvRadiators, calculateWatts]
+  );
+  const isStructured = hasStructure(activeProject);
+
+  // Riga di totale dell'abaco (locale, unità, piano o edificio) a confronto con il fabbisogno
+  const renderAbacoTotalRow = (label: string, totals: Pick<StructureTotals, 'requiredWatts' | 'totalWatts' | 'nominalTotalWatts'>, print = false) => {
+    const undersized = totals.totalWatts < totals.requiredWatts;
+    return print ? (
+      <tr className="border-b-2 border-slate-400 bg-slate-50">
+        <td className="py-3 px-3 font-black" colSpan={6}>{label} <span className="text-[9px] text-slate-500 font-bold">(fabbisogno {totals.requiredWatts} W)</span></td>
+        <td className={`py-3 px-3 font-black ${undersized ? 'text-red-600' : 'text-emerald-700'}`}>{totals.totalWatts}</td>
+        <td className="py-3 px-3 text-slate-500">{totals.nominalTotalWatts}</td>
+        <td></td>
+      </tr>
+    ) : (
+      <tr className="border-b border-slate-300 bg-slate-50">
+        <td className="py-3 px-2 font-black" colSpan={6}>{label} <span className="text-[10px] text-slate-400 font-bold">(fabbisogno {totals.requiredWatts} W)</span></td>
+        <td className={`py-3 px-2 text-center font-black ${undersized ? 'text-red-600' : 'text-slate-700'}`}>{totals.totalWatts} W</td>
+        <td className="py-3 px-2 text-center text-slate-400">{totals.nominalTotalWatts} W</td>
+        <td colSpan={3}></td>
+      </tr>
+    );
+  };
+
+  const activeQuote = getProjectQuote(activeProject, settings.priceList);
+  const quoteLines = useMemo(() => buildQuoteLines(activeProject, getEnvRadiators, settings.priceList), [activeProject, getEnvRadiators, settings.priceList]);
+  const quoteTotals = calculateQuoteTotals(quoteLines, activeQuote.discountPercent, activeQuote.vatRate);
+  const billOfMaterials = useMemo(() => buildBillOfMaterials(activeProject.environments, getEnvRadiators, activeProject.manifolds), [activeProject, getEnvRadiators]);
+  const balancing = useMemo(() => calculateBalancing(activeProject, getEnvRadiators), [activeProject, getEnvRadiators]);
+  const plantSummary = useMemo(() => summarizePlant(activeProject, getEnvRadiators, env => calculateWatts(env).watts), [activeProject, getEnvRadiators, calculateWatts]);
+  // Una scheda di stampa per radiatore
+  const printSheets = activeProject.environments.flatMap((env, index) => {
+    const radiators = getEnvRadiators(env);
+    return radiators.map((_, radiatorIndex) => ({ env, index, radiators, radiatorIndex }));
+  });
+
+  const visibleProjects = useMemo(() => filterProjects(projects, projectQuery, showArchived), [projects, projectQuery, showArchived]);
+  const archivedCount = projects.filter(p => p.archived).length;
+
+  // Ogni modifica ai progetti è un comando annullabile; la chiave raggruppa la digitazione sullo stesso campo
+  const setProjects = (next: Project[] | ((prev: Project[]) => Project[]), label = 'Modifica progetto', key?: string) => {
+    setProjectHistory((h: History<Project[]>) => recordChange(h, typeof next === 'function' ? next(h.present) : next, label, key));
+  };
+
+  // Chiave propria per ogni eliminazione: eliminazioni ravvicinate restano passi distinti
+  const deleteKey = (id: string) => `delete:${id}`;
+
+  const undo = () => setProjectHistory(undoHistory);
+  const redo = () => setProjectHistory(redoHistory);
+
+  const updateProject = (id: string, updater: (p: Project) => Project, label?: string, key?: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? touchProject(updater(p)) : p), label, key);
+  };
+
+  const updateActiveProject = (updater: (p: Project) => Project, label?: string, key?: string) => updateProject(activeProjectId, updater, label, key);
+
+  const updateActiveEnv = (updater: (env: Environment) => Environment, label?: string, key?: string) => {
+    updateActiveProject(p => ({ ...p, environments: p.environments.map((env, i) => i === activeEnvIndex ? updater(env) : env) }), label, key);
+  };
+
+  const selectProject = (id: string) => {
+    setActiveProjectId(id);
+    setActiveEnvIndex(0);
+  };
 
   const addProject = () => {
-    const p = createInitialProject();
-    setProjects(prev => [...prev, p]);
-    setActiveProjectId(p.id);
+    const p = { ...createInitialProject(), letterheadId: activeProject.letterheadId };
+    setProjects(prev => [...prev, p], 'Nuovo progetto');
+    setShowArchived(false);
+    selectProject(p.id);
+  };
+
+  const handleDuplicateProject = (project: Project) => {
+    const copy = duplicateProject(project);
+    setProjects(prev => {
+      const index = prev.findIndex(p => p.id === project.id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    }, 'Duplica progetto');
+    setShowArchived(false);
+    selectProject(copy.id);
+  };
+
+  const handleDeleteProject = (project: Project) => {
+    const index = projects.findIndex(p => p.id === project.id);
+    const remaining = projects.filter(p => p.id !== project.id);
+    if (remaining.length === 0) remaining.push(createInitialProject());
+    setProjects(remaining, 'Elimina progetto', deleteKey(project.id));
+    setLastDeleted({ kind: 'project', project, index });
+    if (project.id === activeProjectId) selectProject(remaining[Math.min(index, remaining.length - 1)].id);
+  };
+
+  const toggleArchive = (project: Project) => {
+    updateProject(project.id, p => ({ ...p, archived: !p.archived }), project.archived ? 'Ripristina progetto archiviato' : 'Archivia progetto');
+  };
+
+  // L'avviso annulla l'eliminazione con la cronologia, finché questa è l'ultimo passo eseguito
+  const lastStep = projectHistory.past[projectHistory.past.length - 1];
+  const canUndoDelete = !!lastDeleted && projectHistory.future.length === 0 &&
+    lastStep?.key === deleteKey(lastDeleted.kind === 'project' ? lastDeleted.project.id : lastDeleted.environment.id);
+
+  const undoDelete = () => {
+    if (!lastDeleted || !canUndoDelete) return;
+    undo();
+    if (lastDeleted.kind === 'project') {
+      setShowArchived(lastDeleted.project.archived);
+      selectProject(lastDeleted.project.id);
+    } else {
+      setActiveProjectId(lastDeleted.projectId);
+      setActiveEnvIndex(lastDeleted.index);
+    }
+    setLastDeleted(null);
+  };
+
+  const activeSnapshots = projectSnapshots(snapshots, activeProject.id);
+
+  const saveSnapshot = (name: string) => {
+    setSnapshots(addSnapshot(snapshots, createSnapshot(activeProject, SnapshotKind.MANUAL, name)));
+  };
+
+  // Prima del ripristino lo stato attuale resta disponibile come istantanea, oltre che con Annulla
+  const handleRestoreSnapshot = (snapshot: ProjectSnapshot) => {
+    setSnapshots(addSnapshot(snapshots, createSnapshot(activeProject, SnapshotKind.AUTO, `Prima del ripristino di "${snapshot.name}"`)));
+    updateProject(snapshot.projectId, p => restoreSnapshot(p, snapshot), 'Ripristina istantanea');
     setActiveEnvIndex(0);
   };
 
+  const compareWithSnapshot = (snapshot: ProjectSnapshot) =>
+    compareSnapshot(snapshot.project, activeProject, radiatorSizerFor(snapshot.project, ringTemperaturesFor(snapshot.project)), getEnvRadiators);
+
+  const handleProjectImport = (imported: Project[], models: RadiatorModel[], importedLetterheads: Letterhead[], importedTemplates: RoomTemplate[], importedSettings?: GlobalSettings) => {
+    setProjects(imported, 'Importa progetti');
+    setCustomModels(models);
+    setLetterheads(importedLetterheads);
+    setRoomTemplates(importedTemplates);
+    if (importedSettings) setSettings(importedSettings);
+  };
+
   const updateProjectDetails = (field: keyof Project, value: string) => {
-    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, [field]: value } : p));
+    updateActiveProject(p => ({ ...p, [field]: value }), 'Dati progetto', `details:${field}`);
   };
 
-  const addEnvironment = () => {
+  const updateProjectQuote = (quote: ProjectQuote) => {
+    updateActiveProject(p => ({ ...p, quote }), 'Modifica preventivo');
+  };
+
+  const updateProjectTemperatures = (field: keyof SystemTemperatures, value: number) => {
+    updateActiveProject(p => ({ ...p, systemTemperatures: { ...(p.systemTemperatures ?? INITIAL_SYSTEM_TEMPERATURES), [field]: value } }), 'Temperature impianto', `temps:${field}`);
+  };
+
+  const addEnvironment = (template?: RoomTemplate) => {
     const newEnv: Environment = {
       id: Math.random().toString(36).substr(2, 9),
-      name: `Ambiente ${activeProject.environments.length + 1}`,
-      specs: { ...INITIAL_SPECS }
+      name: template?.name || `Ambiente ${activeProject.environments.length + 1}`,
+      specs: template ? applyRoomTemplate(INITIAL_SPECS, template) : { ...INITIAL_SPECS },
+      unitId: activeEnv.unitId // Il nuovo ambiente entra nell'unità di quello selezionato
     };
-    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, environments: [...p.environments, newEnv] } : p));
+    updateActiveProject(p => ({ ...p, environments: [...p.environments, newEnv] }), 'Nuovo ambiente');
     setActiveEnvIndex(activeProject.environments.length);
   };
 
+  const handleDuplicateEnvironment = (index: number) => {
+    const original = activeProject.environments[index];
+    const copy = clearConnections(duplicateEnvironment(original));
+    // Le modifiche manuali al preventivo del locale valgono anche per la copia
+    const quote = activeProject.quote && {
+      ...activeProject.quote,
+      overrides: { ...activeProject.quote.overrides, ...remapQuoteOverrides(activeProject.quote.overrides, environmentIdMap(original, copy)) }
+    };
+    updateActiveProject(p => ({ ...p, quote, environments: [...p.environments.slice(0, index + 1), copy, ...p.environments.slice(index + 1)] }), 'Duplica ambiente');
+    setActiveEnvIndex(index + 1);
+  };
+
+  const handleDeleteEnvironment = (index: number) => {
+    if (activeProject.environments.length <= 1) return;
+    const environment = activeProject.environments[index];
+    updateActiveProject(p => ({ ...p, environments: p.environments.filter((_, i) => i !== index) }), 'Elimina ambiente', deleteKey(environment.id));
+    setLastDeleted({ kind: 'environment', projectId: activeProject.id, environment, index });
+    if (activeEnvIndex >= index && activeEnvIndex > 0) setActiveEnvIndex(activeEnvIndex - 1);
+  };
+
+  const handleEnvDrop = (targetIndex: number) => {
+    if (dragEnvIndex === null) return;
+    const activeId = activeEnv.id;
+    // Trascinato su un ambiente di un'altra unità, ne assume l'unità
+    const targetUnitId = activeProject.environments[targetIndex].unitId;
+    const reordered: Environment[] = moveItem<Environment>(activeProject.environments, dragEnvIndex, targetIndex)
+      .map(env => env.id === activeProject.environments[dragEnvIndex].id ? { ...env, unitId: targetUnitId } : env);
+    updateActiveProject(p => ({ ...p, environments: reordered }), 'Riordina ambienti');
+    setActiveEnvIndex(Math.max(0, reordered.findIndex(env => env.id === activeId)));
+    setDragEnvIndex(null);
+  };
+
+  const saveEnvironmentAsTemplate = () => {
+    setRoomTemplates([...roomTemplates, createRoomTemplate(activeEnv.name, activeEnv.specs)]);
+  };
+
   const handleEnvNameChange = (name: string) => {
-    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, environments: p.environments.map((env, i) => i === activeEnvIndex ? { ...env, name } : env) } : p));
+    updateActiveEnv(env => ({ ...env, name }), 'Rinomina ambiente', `name:${activeEnv.id}`);
+  };
+
+  // I dati del locale valgono per tutti i radiatori, il resto solo per il radiatore attivo
+  const handleConnectionChange = (connection?: CircuitConnection) => {
+    updateActiveEnv(env => updateRadiatorSpecs(env, radiatorIndex, specs => withConnection(specs, connection)), 'Allacciamento radiatore', `connection:${activeRadiator.id}`);
   };
 
-  const handleSpecChange = (field: keyof RadiatorSpecs, value: any) => {
-    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, environments: p.environments.map((env, i) => {
-      if (i !== activeEnvIndex) return env;
-      const updatedSpecs = { ...env.specs, [field]: value };
+  // Con group le modifiche a più campi (es. un trascinamento nel disegno) formano un solo passo annullabile
+  const handleSpecChange = (field: keyof RadiatorSpecs, value: any, group?: string) => {
+    if (isRoomField(field)) {
+      updateActiveEnv(env => resetManualSizing({ ...env, specs: { ...env.specs, [field]: value } }), 'Dati locale', group ? `${group}:${activeEnv.id}` : `room:${activeEnv.id}:${field}`);
+      return;
+    }
+    updateActiveEnv(env => updateRadiatorSpecs(env, radiatorIndex, specs => {
+      const updatedSpecs = { ...specs, [field]: value };
       
       if (field === 'nicheWidth' || field === 'sideValveDistance') {
         updatedSpecs.maxWidth = Math.max(0, (updatedSpecs.nicheWidth || 0) - (updatedSpecs.sideValveDistance || 0));
       }
 
-      if (['surface', 'height', 'valveCenterDistance', 'series'].includes(field)) {
+      if (['valveCenterDistance', 'series', 'assignedWatts'].includes(field)) {
         updatedSpecs.manualElements = undefined;
+        updatedSpecs.manualLength = undefined;
+      }
+
+      if (['series', 'valveCenterDistance'].includes(field)) {
+        updatedSpecs.modelCode = undefined;
       }
-      return { ...env, specs: updatedSpecs };
-    })} : p));
+      return updatedSpecs;
+    }), 'Specifiche radiatore', group ? `${group}:${activeRadiator.id}` : `spec:${activeRadiator.id}:${field}`);
   };
 
-  const handleManualElementsChange = (val: number) => {
-    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, environments: p.environments.map((env, i) => i === activeEnvIndex ? { ...env, specs: { ...env.specs, manualElements: val } } : env)} : p));
+  const addRadiator = () => {
+    updateActiveEnv(env => ({ ...env, additionalRadiators: [...(env.additionalRadiators ?? []), createAdditionalRadiator(env)] }), 'Aggiungi radiatore');
+    setActiveRadiatorIndex(activeRadiators.length);
+  };
+
+  // Il primo radiatore coincide con le specifiche dell'ambiente: si rimuovono solo quelli aggiuntivi
+  const removeRadiator = (index: number) => {
+    if (index === 0) return;
+    updateActiveEnv(env => resetManualSizing({ ...env, additionalRadiators: (env.additionalRadiators ?? []).filter((_, i) => i !== index - 1) }), 'Elimina radiatore');
+    if (radiatorIndex >= index) setActiveRadiatorIndex(radiatorIndex - 1);
   };
 
-  const handleAddCustomModel = () => {
-    if (!newModel.label || !newModel.height) return;
-    const modelToAdd = { ...newModel, id: Math.random().toString(36).substr(2, 9) };
-    setCustomModels(prev => [...prev, modelToAdd]);
-    setNewModel({ label: '', code: '', height: 0, interaxis: 0, watts: 0, brand: '' });
+  const renameRadiator = (index: number, name: string) => {
+    updateActiveEnv(env => ({ ...env, additionalRadiators: (env.additionalRadiators ?? []).map((r, i) => i === index - 1 ? { ...r, name } : r) }), 'Rinomina radiatore', `radiator-name:${activeEnv.id}:${index}`);
+  };
+
+  const handleLoadSplitChange = (loadSplit: LoadSplitMode) => {
+    updateActiveEnv(env => resetManualSizing({ ...env, loadSplit }), 'Ripartizione carico');
+  };
+
+  // Un solo passo annullabile: gamma e modello fissati, l'interasse misurato resta quello rilevato
+  const applyOptimizerProposal = (proposal: OptimizerProposal) => {
+    updateActiveEnv(env => updateRadiatorSpecs(env, radiatorIndex, specs => ({
+      ...specs,
+      ...proposalSpecs(specs, proposal.model),
+      manualElements: undefined,
+      manualLength: undefined
+    })), 'Applica proposta ottimizzatore');
+    setShowOptimizer(false);
+  };
+
+  const handleManualElementsChange = (val: number) => {
+    updateActiveEnv(env => updateRadiatorSpecs(env, radiatorIndex, specs => ({ ...specs, manualElements: val })), 'Numero elementi', `elements:${activeRadiator.id}`);
   };
 
   return (
@@ -191,19 +470,45 @@ const App: React.FC = () => {
             <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Professional Thermal Engineering Tool</p>
           </div>
           <div className="flex gap-4">
+            <HistoryControls undoLabel={undoLabel(projectHistory)} redoLabel={redoLabel(projectHistory)} onUndo={undo} onRedo={redo} />
             <button onClick={() => setShowSettings(true)} className="bg-white border border-slate-300 text-slate-700 px-6 py-2 rounded-full font-medium hover:bg-slate-50 transition-colors flex items-center shadow-sm">
               <span className="mr-2">⚙️</span> Impostazioni
             </button>
-            <button onClick={() => window.print()} className="bg-slate-800 text-white px-8 py-2 rounded-full font-medium hover:bg-slate-700 transition-colors flex items-center shadow-lg">
+            <button onClick={() => window.print()} className="bg-white border border-slate-300 text-slate-700 px-6 py-2 rounded-full font-medium hover:bg-slate-50 transition-colors flex items-center shadow-sm">
+              Stampa
+            </button>
+            <button onClick={handleExportPdf} className="bg-slate-800 text-white px-8 py-2 rounded-full font-medium hover:bg-slate-700 transition-colors flex items-center shadow-lg">
               <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
-              Stampa Progetto (PDF)
+              Esporta PDF
             </button>
           </div>
         </div>
 
+        {loadError && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[96] bg-red-600 text-white px-6 py-3 rounded-2xl shadow-2xl max-w-xl text-sm space-y-2">
+            <b className="uppercase text-xs font-black block">Dati salvati non caricati</b>
+            <span className="block">{loadError}. Le modifiche non vengono salvate per non sovrascrivere i dati esistenti.</span>
+            <button onClick={backupAndContinue} className="font-black uppercase text-xs text-orange-200">Conserva una copia e continua</button>
+          </div>
+        )}
+
+        {saveError && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[95] bg-red-600 text-white px-6 py-3 rounded-2xl shadow-2xl max-w-xl text-sm">
+            <b className="uppercase text-xs font-black block">Salvataggio non riuscito</b>
+            <span>{saveError}. Le ultime modifiche non sono state salvate.</span>
+          </div>
+        )}
+
+        {lastDeleted && canUndoDelete && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] bg-slate-900 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-6 text-sm">
+            <span>{lastDeleted.kind === 'project' ? `Progetto "${lastDeleted.project.clientSurname || 'Nuovo'}" eliminato` : `Ambiente "${lastDeleted.environment.name}" eliminato`}</span>
+            <button onClick={undoDelete} className="font-black uppercase text-xs text-orange-300">Annulla</button>
+          </div>
+        )}
+
         {showSettings && (
           <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center p-6">
-            <div className="bg-white rounded-3xl p-10 max-w-4xl w-full shadow-2xl animate-in zoom-in duration-200 max-h-[90vh] overflow-y-auto">
+            <div className="bg-white rounded-3xl p-10 max-w-6xl w-full shadow-2xl animate-in zoom-in duration-200 max-h-[90vh] overflow-y-auto">
               <div className="flex justify-between items-start mb-8">
                 <div><h2 className="text-3xl font-bold text-slate-900 arch-title">Configurazione Sistema</h2></div>
                 <button onClick={() => setShowSettings(false)} className="bg-slate-100 p-2 rounded-full text-slate-600">✕</button>
@@ -215,17 +520,27 @@ const App: React.FC = () => {
                     <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
                       <label className="block text-sm font-bold text-slate-700 mb-2">Coefficiente K (Watt/m³)</label>
                       <input type="number" value={settings.wattCoefficient} onChange={e => setSettings({ ...settings, wattCoefficient: Number(e.target.value) })} className="w-full border rounded-xl p-3 text-lg font-bold" />
+                      <label className="block text-sm font-bold text-slate-700 mb-2 mt-6">Compensazione Max Eccentrici (mm)</label>
+                      <input type="number" value={settings.maxEccentricCompensation} onChange={e => setSettings({ ...settings, maxEccentricCompensation: Number(e.target.value) })} className="w-full border rounded-xl p-3 text-lg font-bold" />
                     </div>
                   </section>
+                  <section>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Carte Intestate</h3>
+                    <LetterheadManager letterheads={letterheads} onChange={setLetterheads} />
+                  </section>
+                  <section>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Listino Prezzi</h3>
+                    <PriceListEditor priceList={settings.priceList} onChange={priceList => setSettings({ ...settings, priceList })} />
+                  </section>
                 </div>
                 <div className="space-y-8">
                   <section>
                     <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Database Modelli</h3>
-                    <div className="space-y-3 bg-white border border-slate-200 p-6 rounded-2xl">
-                      <input placeholder="Marchio" value={newModel.brand} onChange={e => setNewModel({...newModel, brand: e.target.value})} className="w-full border rounded-xl p-3 text-sm" />
-                      <input placeholder="Modello" value={newModel.label} onChange={e => setNewModel({...newModel, label: e.target.value})} className="w-full border rounded-xl p-3 text-sm" />
-                      <button onClick={handleAddCustomModel} className="w-full bg-slate-900 text-white py-3 rounded-xl font-bold">Aggiungi</button>
-                    </div>
+                    <CatalogueManager customModels={customModels} onChange={setCustomModels} />
+                  </section>
+                  <section>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Modelli di Locale</h3>
+                    <RoomTemplateManager templates={roomTemplates} customModels={customModels} onChange={setRoomTemplates} />
                   </section>
                 </div>
               </div>
@@ -240,28 +555,119 @@ const App: React.FC = () => {
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">PROGETTI</h3>
                 <button onClick={addProject} className="bg-slate-900 text-white p-2 rounded-full shadow-md">+</button>
               </div>
+              <div className="space-y-2 mb-4">
+                <input placeholder="Cerca cognome o indirizzo" value={projectQuery} onChange={e => setProjectQuery(e.target.value)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" />
+                <button onClick={() => setShowArchived(!showArchived)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">
+                  {showArchived ? '← Progetti Attivi' : `Archiviati (${archivedCount})`}
+                </button>
+              </div>
               <div className="space-y-3 max-h-[400px] overflow-y-auto">
-                {projects.map((p) => (
-                  <button key={p.id} onClick={() => { setActiveProjectId(p.id); setActiveEnvIndex(0); }} className={`w-full text-left p-4 rounded-2xl border transition-all ${activeProjectId === p.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-600'}`}>
-                    <p className="text-xs font-black uppercase opacity-60 truncate">{p.clientSurname || 'Nuovo'}</p>
-                    <p className="text-sm font-bold truncate">{p.siteAddress || 'Senza Indirizzo'}</p>
-                  </button>
+                {visibleProjects.length === 0 && (
+                  <p className="text-xs text-slate-400 italic">Nessun progetto trovato.</p>
+                )}
+                {visibleProjects.map((p) => (
+                  <div key={p.id} className={`rounded-2xl border transition-all ${activeProjectId === p.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-600'}`}>
+                    <button onClick={() => selectProject(p.id)} className="w-full text-left p-4">
+                      <div className="flex justify-between items-center gap-2">
+                        <p className="text-xs font-black uppercase opacity-60 truncate">{p.clientSurname || 'Nuovo'}</p>
+                        <span className="text-[9px] font-black uppercase opacity-60 shrink-0">{PROJECT_STATUS_LABELS[p.status]}</span>
+                      </div>
+                      <p className="text-sm font-bold truncate">{p.siteAddress || 'Senza Indirizzo'}</p>
+                      <p className="text-[9px] opacity-50 mt-1">Modificato {new Date(p.updatedAt).toLocaleDateString('it-IT')}</p>
+                    </button>
+                    {activeProjectId === p.id && (
+                      <div className="flex gap-3 px-4 pb-3 text-[9px] font-black uppercase">
+                        <button onClick={() => handleDuplicateProject(p)} className="opacity-70 hover:opacity-100">Duplica</button>
+                        <button onClick={() => toggleArchive(p)} className="opacity-70 hover:opacity-100">{p.archived ? 'Ripristina' : 'Archivia'}</button>
+                        <button onClick={() => handleDeleteProject(p)} className="text-red-400 hover:text-red-300">Elimina</button>
+                      </div>
+                    )}
+                  </div>
                 ))}
               </div>
+              <ProjectTransfer projects={projects} activeProject={activeProject} customModels={customModels} settings={settings} letterheads={letterheads} roomTemplates={roomTemplates} onImport={handleProjectImport} />
             </div>
             <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">AMBIENTI</h3>
-                <button onClick={addEnvironment} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Aggiungi</button>
+                <button onClick={() => addEnvironment()} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Aggiungi</button>
+              </div>
+              <div className="flex gap-2 mb-4">
+                <select value="" onChange={e => { const t = roomTemplates.find(x => x.id === e.target.value); if (t) addEnvironment(t); }} className="flex-1 min-w-0 bg-slate-50 rounded-full px-3 py-1 text-[10px] font-black uppercase">
+                  <option value="">+ Da modello…</option>
+                  {roomTemplates.map(t => <option key={t.id} value={t.id}>{t.name || 'Senza nome'}</option>)}
+                </select>
+                <button onClick={() => setShowTemplateApplier(!showTemplateApplier)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase shrink-0">Applica Modello</button>
               </div>
+              {showTemplateApplier && (
+                <div className="mb-4">
+                  <RoomTemplateApplier
+                    templates={roomTemplates}
+                    environments={activeProject.environments}
+                    onApply={(template, envIds) => updateActiveProject(p => applyTemplateToEnvironments(p, template, envIds), 'Applica modello di locale')}
+                    onClose={() => setShowTemplateApplier(false)}
+                  />
+                </div>
+              )}
               <div className="space-y-2">
-                {activeProject.environments.map((env, i) => (
-                  <button key={env.id} onClick={() => setActiveEnvIndex(i)} className={`w-full text-left px-4 py-3 rounded-xl text-sm font-bold ${i === activeEnvIndex ? 'bg-slate-200 text-slate-900' : 'bg-slate-50 text-slate-500'}`}>
-                    {env.name}
-                  </button>
+                {buildingSummary.floors.flatMap(f => f.units).map(({ unit, environments, totals }) => (
+                  <div key={unit?.id ?? 'unassigned'} className="space-y-2">
+                    {isStructured && (
+                      <div className="flex justify-between items-center pt-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <span className="truncate">{unit ? unitLabel(activeProject, unit) : 'Non assegnati'}</span>
+                        <span className="shrink-0">{totals.requiredWatts} W</span>
+                      </div>
+                    )}
+                    {environments.map(({ env, index: i }) => {
+                      const counts = countIssues(getEnvIssues(env));
+                      return (
+                        <div
+                          key={env.id}
+                          draggable
+                          onDragStart={() => setDragEnvIndex(i)}
+                          onDragOver={e => e.preventDefault()}
+                          onDrop={() => handleEnvDrop(i)}
+                          onDragEnd={() => setDragEnvIndex(null)}
+                          onClick={() => setActiveEnvIndex(i)}
+                          className={`w-full text-left px-4 py-3 rounded-xl text-sm font-bold flex justify-between items-center gap-2 cursor-pointer ${i === activeEnvIndex ? 'bg-slate-200 text-slate-900' : 'bg-slate-50 text-slate-500'} ${dragEnvIndex === i ? 'opacity-40' : ''}`}
+                        >
+                          <span className="flex items-center gap-2 min-w-0">
+                            <span title="Trascina per riordinare" className="text-slate-300 cursor-grab">⋮⋮</span>
+                            <span className="truncate">{env.name}</span>
+                          </span>
+                          <span className="flex gap-1 shrink-0 items-center">
+                            {counts.errors > 0 && <span title="Errori" className="bg-red-600 text-white text-[9px] font-black rounded-full px-2 py-0.5">{counts.errors}</span>}
+                            {counts.warnings > 0 && <span title="Avvisi" className="bg-orange-400 text-white text-[9px] font-black rounded-full px-2 py-0.5">{counts.warnings}</span>}
+                            <button title="Duplica ambiente" onClick={e => { e.stopPropagation(); handleDuplicateEnvironment(i); }} className="text-slate-400 hover:text-slate-900 px-1">⧉</button>
+                            {activeProject.environments.length > 1 && (
+                              <button title="Elimina ambiente" onClick={e => { e.stopPropagation(); handleDeleteEnvironment(i); }} className="text-slate-400 hover:text-red-500 px-1">✕</button>
+                            )}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
                 ))}
               </div>
             </div>
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-6">EDIFICIO</h3>
+              <BuildingStructureEditor project={activeProject} summary={buildingSummary} onChange={updateActiveProject} />
+            </div>
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-6">COLLETTORI</h3>
+              <ManifoldEditor project={activeProject} onChange={updateActiveProject} />
+            </div>
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-6">ISTANTANEE</h3>
+              <SnapshotPanel
+                snapshots={activeSnapshots}
+                onSave={saveSnapshot}
+                onRestore={handleRestoreSnapshot}
+                onDelete={snapshot => setSnapshots(snapshots.filter(s => s.id !== snapshot.id))}
+                onCompare={compareWithSnapshot}
+              />
+            </div>
           </div>
 
           <div className="lg:col-span-9 space-y-10">
@@ -269,15 +675,52 @@ const App: React.FC = () => {
               <div><label className="text-[10px] font-bold text-slate-400 uppercase">Nome</label><input value={activeProject.clientName} onChange={e => updateProjectDetails('clientName', e.target.value)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
               <div><label className="text-[10px] font-bold text-slate-400 uppercase">Cognome</label><input value={activeProject.clientSurname} onChange={e => updateProjectDetails('clientSurname', e.target.value)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
               <div><label className="text-[10px] font-bold text-slate-400 uppercase">Indirizzo</label><input value={activeProject.siteAddress} onChange={e => updateProjectDetails('siteAddress', e.target.value)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
+              <div><label className="text-[10px] font-bold text-slate-400 uppercase">T. Mandata (°C)</label><input type="number" value={projectTemps.flowTemp} onChange={e => updateProjectTemperatures('flowTemp', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
+              <div><label className="text-[10px] font-bold text-slate-400 uppercase">T. Ritorno (°C)</label><input type="number" value={projectTemps.returnTemp} onChange={e => updateProjectTemperatures('returnTemp', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
+              <div><label className="text-[10px] font-bold text-slate-400 uppercase">T. Ambiente (°C)</label><input type="number" value={projectTemps.roomTemp} onChange={e => updateProjectTemperatures('roomTemp', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" /></div>
+              {projectTempIssues.length > 0 && <div className="md:col-span-3"><FieldIssues issues={projectTempIssues} field="systemTemperatures" /></div>}
+              <div>
+                <label className="text-[10px] font-bold text-slate-400 uppercase">Stato</label>
+                <select value={activeProject.status} onChange={e => updateProjectDetails('status', e.target.value as ProjectStatus)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold">
+                  {Object.values(ProjectStatus).map(s => <option key={s} value={s}>{PROJECT_STATUS_LABELS[s]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] font-bold text-slate-400 uppercase">Carta Intestata</label>
+                <LetterheadSelector letterheads={letterheads} selectedId={activeProject.letterheadId} onSelect={id => updateActiveProject(p => ({ ...p, letterheadId: id }))} />
+              </div>
+              <div className="flex items-end gap-6 text-[10px] font-bold text-slate-400 uppercase pb-3">
+                <span>Creato: {new Date(activeProject.createdAt).toLocaleString('it-IT')}</span>
+                <span>Modificato: {new Date(activeProject.updatedAt).toLocaleString('it-IT')}</span>
+              </div>
             </div>
 
             <div className="bg-white p-10 rounded-[3rem] shadow-xl border border-slate-200">
               <div className="flex justify-between items-center mb-10">
-                <input value={activeEnv.name} onChange={e => handleEnvNameChange(e.target.value)} className="text-4xl font-bold text-slate-900 border-none bg-transparent focus:ring-0 outline-none w-full arch-title" />
+                <div className="flex flex-col gap-2 w-full">
+                  <input value={activeEnv.name} onChange={e => handleEnvNameChange(e.target.value)} className="text-4xl font-bold text-slate-900 border-none bg-transparent focus:ring-0 outline-none w-full arch-title" />
+                  <div className="flex items-center gap-3">
+                    {isStructured && (
+                      <select value={activeEnv.unitId ?? ''} onChange={e => updateActiveProject(p => assignEnvironment(p, activeEnv.id, e.target.value || undefined))} className="w-64 bg-slate-50 rounded-xl p-2 text-xs font-bold">
+                        <option value="">Nessuna unità</option>
+                        {(activeProject.floors ?? []).map(floor => (
+                          <optgroup key={floor.id} label={floor.name}>
+                            {(activeProject.units ?? []).filter(u => u.floorId === floor.id).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                          </optgroup>
+                        ))}
+                      </select>
+                    )}
+                    <button onClick={saveEnvironmentAsTemplate} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">Salva come Modello</button>
+                  </div>
+                </div>
                 <div className="flex items-center gap-4 bg-slate-900 p-6 rounded-3xl text-white shadow-2xl">
                   <div className="flex flex-col">
                     <span className="text-[10px] uppercase font-black tracking-widest text-slate-400">Fabbisogno</span>
-                    <span className="text-3xl font-light tracking-tighter">{Math.round(calculateWatts(activeEnv).watts)} <span className="text-sm opacity-50">Watt</span></span>
+                    <span className="text-3xl font-light tracking-tighter">{activeRoom.requiredWatts} <span className="text-sm opacity-50">Watt</span></span>
+                    <span className="text-[9px] uppercase font-bold text-slate-400 mt-1">{HEAT_LOSS_METHOD_LABELS[matchedModelData.heatLossMethod]}</span>
+                    {isMultiRadiator && (
+                      <span className="text-[9px] uppercase font-bold text-slate-400">Quota {activeRadiator.name}: {matchedModelData.requiredWatts} W</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -287,36 +730,101 @@ const App: React.FC = () => {
                   <section>
                     <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest border-b pb-4 mb-6">Dimensionamento</h4>
                     <div className="grid grid-cols-2 gap-6">
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Superficie (m²)</label><input type="number" value={activeEnv.specs.surface || ''} onChange={e => handleSpecChange('surface', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Altezza (m)</label><input type="number" step="0.1" value={activeEnv.specs.height || ''} onChange={e => handleSpecChange('height', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Superficie (m²)</label><input type="number" value={activeSpecs.surface || ''} onChange={e => handleSpecChange('surface', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="surface" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Altezza (m)</label><input type="number" step="0.1" value={activeSpecs.height || ''} onChange={e => handleSpecChange('height', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="height" /></div>
+                    </div>
+                    <div className="mt-6">
+                      <HeatLossEditor specs={activeSpecs} calculation={calculateWatts(activeEnv)} onChange={handleSpecChange} />
+                      <FieldIssues issues={activeRadiatorIssues} field="heatLoss" />
+                    </div>
+                  </section>
+
+                  <section>
+                    <div className="flex justify-between items-center border-b pb-4 mb-6">
+                      <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest">Radiatori del Locale</h4>
+                      <button onClick={addRadiator} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Radiatore</button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {activeRadiators.map(({ radiator, sizing }, i) => (
+                        <button
+                          key={radiator.id}
+                          onClick={() => setActiveRadiatorIndex(i)}
+                          className={`px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 ${i === radiatorIndex ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500'}`}
+                        >
+                          <span>{radiator.name}</span>
+                          {isMultiRadiator && <span className="opacity-60">{sizing.totalWatts} W</span>}
+                          {i > 0 && (
+                            <span title="Rimuovi radiatore" onClick={e => { e.stopPropagation(); removeRadiator(i); }} className="opacity-60 hover:text-red-400">✕</span>
+                          )}
+                        </button>
+                      ))}
                     </div>
+                    {isMultiRadiator && (
+                      <div className="grid grid-cols-2 gap-6 mt-6">
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase">Nome Radiatore</label>
+                          <input value={activeRadiator.name} disabled={radiatorIndex === 0} onChange={e => renameRadiator(radiatorIndex, e.target.value)} className="w-full bg-slate-50 rounded-xl p-4 font-bold disabled:text-slate-400" />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase">Ripartizione Fabbisogno</label>
+                          <select value={activeEnv.loadSplit ?? LoadSplitMode.EVEN} onChange={e => handleLoadSplitChange(e.target.value as LoadSplitMode)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
+                            {Object.values(LoadSplitMode).map(m => <option key={m} value={m}>{LOAD_SPLIT_LABELS[m]}</option>)}
+                          </select>
+                        </div>
+                        {(activeEnv.loadSplit ?? LoadSplitMode.EVEN) === LoadSplitMode.MANUAL && (
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-black text-slate-400 uppercase">Quota Assegnata (W)</label>
+                            <input type="number" value={activeSpecs.assignedWatts || ''} onChange={e => handleSpecChange('assignedWatts', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" />
+                            <FieldIssues issues={activeRadiatorIssues} field="assignedWatts" />
+                          </div>
+                        )}
+                        <div className="col-span-2 flex justify-between bg-slate-50 p-4 rounded-xl border border-slate-200 text-xs font-black uppercase">
+                          <span className="text-slate-500">Resa Totale Locale</span>
+                          <span className={activeRoom.totalWatts < activeRoom.requiredWatts ? 'text-red-600' : 'text-emerald-600'}>{activeRoom.totalWatts} W / {activeRoom.requiredWatts} W</span>
+                        </div>
+                      </div>
+                    )}
                   </section>
 
                   <section>
                     <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest border-b pb-4 mb-6">Dati Nicchia</h4>
                     <div className="grid grid-cols-2 gap-6">
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Largh. Nicchia (mm)</label><input type="number" value={activeEnv.specs.nicheWidth || ''} onChange={e => handleSpecChange('nicheWidth', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Alt. Nicchia (mm)</label><input type="number" value={activeEnv.specs.nicheHeight || ''} onChange={e => handleSpecChange('nicheHeight', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Alt. Valvola (mm)</label><input type="number" value={activeEnv.specs.valveHeight || ''} onChange={e => handleSpecChange('valveHeight', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Dist. Valvola Lato (mm)</label><input type="number" value={activeEnv.specs.sideValveDistance || ''} onChange={e => handleSpecChange('sideValveDistance', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Largh. Nicchia (mm)</label><input type="number" value={activeSpecs.nicheWidth || ''} onChange={e => handleSpecChange('nicheWidth', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="nicheWidth" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Alt. Nicchia (mm)</label><input type="number" value={activeSpecs.nicheHeight || ''} onChange={e => handleSpecChange('nicheHeight', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="nicheHeight" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Alt. Valvola (mm)</label><input type="number" value={activeSpecs.valveHeight || ''} onChange={e => handleSpecChange('valveHeight', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="valveHeight" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Dist. Valvola Lato (mm)</label><input type="number" value={activeSpecs.sideValveDistance || ''} onChange={e => handleSpecChange('sideValveDistance', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="sideValveDistance" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Asse Valvola da Parete (mm)</label><input type="number" value={activeSpecs.valveWallDistance || ''} onChange={e => handleSpecChange('valveWallDistance', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="valveWallDistance" /></div>
                     </div>
                   </section>
 
                   <section>
-                    <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest border-b pb-4 mb-6">Configurazione Tecnica</h4>
+                    <div className="flex justify-between items-center border-b pb-4 mb-6">
+                      <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest">Configurazione Tecnica</h4>
+                      <button onClick={() => setShowOptimizer(!showOptimizer)} className="text-[10px] bg-slate-900 text-white px-4 py-1 rounded-full font-black uppercase">Ottimizza</button>
+                    </div>
                     <div className="grid grid-cols-2 gap-6">
+                      {showOptimizer && (
+                        <OptimizerPanel
+                          specs={activeSpecs}
+                          assignedWatts={isMultiRadiator ? matchedModelData.requiredWatts : undefined}
+                          settings={settings}
+                          customModels={customModels}
+                          projectTemps={projectTemps}
+                          onApply={applyOptimizerProposal}
+                          onClose={() => setShowOptimizer(false)}
+                        />
+                      )}
                       <div className="col-span-2 space-y-2">
                         <label className="text-[10px] font-black text-slate-400 uppercase">Gamma Prodotto</label>
-                        <select value={activeEnv.specs.series} onChange={e => handleSpecChange('series', e.target.value as RadiatorSeries)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
-                          <option value={RadiatorSeries.TESI2}>Irsap Tesi 2</option>
-                          <option value={RadiatorSeries.TESI3}>Irsap Tesi 3</option>
-                          <option value={RadiatorSeries.TESI4}>Irsap Tesi 4</option>
-                          <option value={RadiatorSeries.CUSTOM}>Custom ({customModels.length})</option>
+                        <FieldIssues issues={activeRadiatorIssues} field="series" />
+                        <select value={activeSpecs.series} onChange={e => handleSpecChange('series', e.target.value as RadiatorSeries)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
+                          {seriesOptions.map(o => <option key={o.id} value={o.id}>{o.label} ({o.modelCount})</option>)}
+                          {!seriesOptions.some(o => o.id === activeSpecs.series) && <option value={activeSpecs.series}>{activeSpecs.series} (non a catalogo)</option>}
                         </select>
                       </div>
                       <div className="col-span-2 space-y-2">
                         <label className="text-[10px] font-black text-slate-400 uppercase">Posizione Valvole</label>
-                        <select value={activeEnv.specs.valvePosition} onChange={e => handleSpecChange('valvePosition', e.target.value as ValvePosition)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
+                        <select value={activeSpecs.valvePosition} onChange={e => handleSpecChange('valvePosition', e.target.value as ValvePosition)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
                           <option value={ValvePosition.BOTTOM}>Basse (Lati Opposti)</option>
                           <option value={ValvePosition.RIGHT}>Destra Verticale</option>
                           <option value={ValvePosition.LEFT}>Sinistra Verticale</option>
@@ -326,14 +834,32 @@ const App: React.FC = () => {
                         <input 
                           type="checkbox" 
                           id="diaframma" 
-                          checked={activeEnv.specs.hasDiaphragm} 
+                          checked={activeSpecs.hasDiaphragm} 
                           onChange={e => handleSpecChange('hasDiaphragm', e.target.checked)}
                           className="w-5 h-5 accent-slate-900"
                         />
                         <label htmlFor="diaframma" className="text-xs font-black text-slate-800 uppercase cursor-pointer">Applica Diaframma Interno</label>
                       </div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Interasse (mm)</label><input type="number" value={activeEnv.specs.valveCenterDistance || ''} onChange={e => handleSpecChange('valveCenterDistance', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ingombro Max (mm)</label><input type="number" value={activeEnv.specs.maxWidth || ''} onChange={e => handleSpecChange('maxWidth', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Interasse (mm)</label><input type="number" value={activeSpecs.valveCenterDistance || ''} onChange={e => handleSpecChange('valveCenterDistance', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="valveCenterDistance" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ingombro Max (mm)</label><input type="number" value={activeSpecs.maxWidth || ''} onChange={e => handleSpecChange('maxWidth', Number(e.target.value))} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /><FieldIssues issues={activeRadiatorIssues} field="maxWidth" /></div>
+                      <div className="col-span-2 flex items-center gap-4 bg-slate-50 p-4 rounded-xl border border-slate-200">
+                        <input 
+                          type="checkbox" 
+                          id="temperature-locale" 
+                          checked={!!activeSpecs.systemTemperatures} 
+                          onChange={e => handleSpecChange('systemTemperatures', e.target.checked ? { ...projectTemps } : undefined)}
+                          className="w-5 h-5 accent-slate-900"
+                        />
+                        <label htmlFor="temperature-locale" className="text-xs font-black text-slate-800 uppercase cursor-pointer">Temperature Specifiche del Locale</label>
+                      </div>
+                      {activeSpecs.systemTemperatures && (
+                        <div className="col-span-2 grid grid-cols-3 gap-4">
+                          <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Mandata (°C)</label><input type="number" value={activeSpecs.systemTemperatures.flowTemp} onChange={e => handleSpecChange('systemTemperatures', { ...activeSpecs.systemTemperatures, flowTemp: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                          <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ritorno (°C)</label><input type="number" value={activeSpecs.systemTemperatures.returnTemp} onChange={e => handleSpecChange('systemTemperatures', { ...activeSpecs.systemTemperatures, returnTemp: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                          <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ambiente (°C)</label><input type="number" value={activeSpecs.systemTemperatures.roomTemp} onChange={e => handleSpecChange('systemTemperatures', { ...activeSpecs.systemTemperatures, roomTemp: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+                          <div className="col-span-3"><FieldIssues issues={activeRadiatorIssues} field="systemTemperatures" /></div>
+                        </div>
+                      )}
                     </div>
                   </section>
 
@@ -350,11 +876,25 @@ const App: React.FC = () => {
                       </div>
                       
                       <div className="col-span-1">
-                        <span className="block text-[9px] text-white/50 uppercase mb-1">Nr. Elementi</span>
-                        <div className="flex items-center gap-2">
-                          <input type="number" value={matchedModelData.currentElements || ''} onChange={e => handleManualElementsChange(Number(e.target.value))} className="bg-white/10 rounded-lg px-3 py-1 text-lg font-black w-24 text-white" />
-                          <span className="text-[9px] text-white/40 uppercase font-black">pz</span>
-                        </div>
+                        {matchedModelData.isPanel ? (
+                          <>
+                            <span className="block text-[9px] text-white/50 uppercase mb-1">Lunghezza Pannello</span>
+                            <div className="flex items-center gap-2">
+                              <select value={matchedModelData.bodyLength} onChange={e => handleSpecChange('manualLength', Number(e.target.value))} className="bg-white/10 rounded-lg px-3 py-1 text-lg font-black text-white">
+                                {(matchedModelData.model.fixedLengths || []).map(l => <option key={l} value={l} className="text-slate-900">{l}</option>)}
+                              </select>
+                              <span className="text-[9px] text-white/40 uppercase font-black">mm</span>
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <span className="block text-[9px] text-white/50 uppercase mb-1">Nr. Elementi</span>
+                            <div className="flex items-center gap-2">
+                              <input type="number" value={matchedModelData.currentElements || ''} onChange={e => handleManualElementsChange(Number(e.target.value))} className="bg-white/10 rounded-lg px-3 py-1 text-lg font-black w-24 text-white" />
+                              <span className="text-[9px] text-white/40 uppercase font-black">pz</span>
+                            </div>
+                          </>
+                        )}
                       </div>
                       <div className="col-span-1">
                         <span className="block text-[9px] text-white/50 uppercase mb-1">Ingombro Totale</span>
@@ -369,30 +909,121 @@ const App: React.FC = () => {
                         )}
                       </div>
 
+                      <div className="col-span-2 border-t border-white/10 pt-3 mt-1 flex justify-between">
+                        <span className="text-[9px] text-white/50 uppercase">{matchedModelData.isPanel ? 'Resa al Metro' : 'Resa Elemento'} (ΔT {matchedModelData.deltaT.toFixed(1)} K)</span>
+                        <span className="text-xs font-bold">{matchedModelData.elementWatts.toFixed(1)} W <span className="opacity-50">/ nom. {matchedModelData.model.watts} W</span></span>
+                      </div>
+
                       {matchedModelData.eccentricText && (
                         <div className="col-span-2 border-t border-white/10 pt-3 mt-1">
                           <span className="text-[10px] font-black text-red-500 uppercase leading-none block">{matchedModelData.eccentricText}</span>
                         </div>
                       )}
+
+                      {matchedModelData.matchWarning && (
+                        <div className="col-span-2 border-t border-white/10 pt-3 mt-1">
+                          <span className="text-[10px] font-black text-red-500 uppercase leading-none block">{matchedModelData.matchWarning}</span>
+                        </div>
+                      )}
+
+                      {matchedModelData.candidates.length > 0 && (
+                        <div className="col-span-2 border-t border-white/10 pt-3 mt-1 space-y-2">
+                          <div className="flex justify-between items-center">
+                            <span className="block text-[9px] text-white/50 uppercase">Alternative Interasse</span>
+                            {activeSpecs.modelCode && (
+                              <button onClick={() => handleSpecChange('modelCode', undefined)} className="text-[9px] uppercase font-black text-white/60 underline">Scelta Automatica</button>
+                            )}
+                          </div>
+                          {matchedModelData.candidates.map(c => (
+                            <button 
+                              key={c.model.code} 
+                              onClick={() => handleSpecChange('modelCode', c.model.code)} 
+                              className={`w-full flex justify-between items-center text-left px-3 py-2 rounded-lg text-xs ${c.model.code === matchedModelData.model.code ? 'bg-white/20' : 'bg-white/5 hover:bg-white/10'}`}
+                            >
+                              <span className="font-bold">{c.model.label} <span className="opacity-60">/ Int {c.model.interaxis}</span></span>
+                              <span className={`font-black uppercase text-[9px] ${!c.withinCompensation || !c.fitsNiche ? 'text-red-400' : 'text-emerald-400'}`}>
+                                {activeSpecs.valvePosition === ValvePosition.BOTTOM ? '' : c.difference === 0 ? 'Esatto' : `Eccentrici ${Math.abs(c.difference)} mm`}
+                                {!c.withinCompensation && ' · oltre max'}
+                                {!c.fitsNiche && ' · fuori nicchia'}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </section>
                 </div>
 
                 <div className="space-y-10">
                   <RadiatorVisualizer 
-                    specs={activeEnv.specs} 
+                    specs={activeSpecs} 
                     calculatedWidth={matchedModelData.bodyLength} 
+                    elementWidth={matchedModelData.elementWidth}
+                    isPanel={matchedModelData.isPanel}
                     realWatts={matchedModelData.totalWatts} 
+                    nominalWatts={matchedModelData.nominalTotalWatts}
                     requiredWatts={matchedModelData.requiredWatts}
                     needsEccentric={matchedModelData.needsEccentric}
+                    issues={activeRadiatorIssues}
+                    view={drawingView}
+                    onViewChange={setDrawingView}
+                    onSpecChange={handleSpecChange}
+                    planView={buildPlanView(activeSpecs, matchedModelData, activeRadiatorIssues)}
+                    sectionView={buildSideSection(activeSpecs, matchedModelData, activeRadiatorIssues)}
                   />
+                  <div className="flex justify-end gap-2 -mt-6">
+                    <button onClick={() => handleExportElevation('svg')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta SVG</button>
+                    <button onClick={() => handleExportElevation('dxf')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta DXF</button>
+                    <button onClick={handleExportElevationZip} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Tutti i Prospetti (ZIP)</button>
+                  </div>
+
+                  <IssueList issues={activeRadiatorIssues} />
                   
                   <section className="bg-white p-8 rounded-3xl border border-slate-200 shadow-inner">
                     <h4 className="text-xs font-black text-slate-900 uppercase tracking-widest mb-6">Specifiche Impianto</h4>
                     <div className="grid grid-cols-2 gap-6">
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Tubo</label><select value={activeEnv.specs.pipeMaterial} onChange={e => handleSpecChange('pipeMaterial', e.target.value)} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">{PIPE_MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}</select></div>
-                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Diametro</label><select value={activeEnv.specs.pipeDiameter} onChange={e => handleSpecChange('pipeDiameter', e.target.value)} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">{PIPE_DIAMETERS.map(d => <option key={d} value={d}>{d}</option>)}</select></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Tubo</label><select value={activeSpecs.pipeMaterial} onChange={e => handleSpecChange('pipeMaterial', e.target.value)} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">{PIPE_MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}</select></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Diametro</label><select value={activeSpecs.pipeDiameter} onChange={e => handleSpecChange('pipeDiameter', e.target.value)} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">{PIPE_DIAMETERS.map(d => <option key={d} value={d}>{d}</option>)}</select><FieldIssues issues={activeRadiatorIssues} field="pipeDiameter" /></div>
+                      <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Lungh. Tubo (m)</label><input type="number" step="0.5" value={activeSpecs.pipeLength || ''} readOnly={!!activeConnection} title={activeConnection ? 'Somma di mandata e ritorno dell\'allacciamento' : undefined} onChange={e => handleSpecChange('pipeLength', Number(e.target.value))} className={`w-full bg-slate-100 rounded-xl p-3 text-sm font-bold ${activeConnection ? 'text-slate-400' : ''}`} /><FieldIssues issues={activeRadiatorIssues} field="pipeLength" /></div>
                     </div>
+                    {(activeProject.manifolds?.length ?? 0) > 0 && (
+                      <div className="grid grid-cols-4 gap-4 mt-6 pt-6 border-t border-slate-100">
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase">Collettore</label>
+                          <select value={activeConnection?.manifoldId ?? ''} onChange={e => handleConnectionChange(e.target.value ? { manifoldId: e.target.value, outlet: 1, supplyLength: activeConnection?.supplyLength ?? 0, returnLength: activeConnection?.returnLength ?? 0 } : undefined)} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">
+                            <option value="">Non collegato</option>
+                            {activeProject.manifolds!.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                          </select>
+                        </div>
+                        {activeConnection && activeManifold && (
+                          <>
+                            <div className="space-y-2">
+                              <label className="text-[10px] font-black text-slate-400 uppercase">{isActiveRing ? 'Anello' : 'Uscita'}</label>
+                              <select value={activeConnection.outlet} onChange={e => handleConnectionChange({ ...activeConnection, outlet: Number(e.target.value) })} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold">
+                                {Array.from({ length: activeManifold.outlets }, (_, i) => i + 1).map(outlet => {
+                                  const others = outletRadiators(activeProject, activeManifold.id, outlet).filter(r => r.radiator.id !== activeRadiator.id);
+                                  return <option key={outlet} value={outlet}>{outlet}{!isActiveRing && others.length > 0 ? ` (occupata: ${others.map(r => r.env.name).join(', ')})` : ''}</option>;
+                                })}
+                              </select>
+                            </div>
+                            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Mandata (m)</label><input type="number" step="0.5" value={activeConnection.supplyLength || ''} onChange={e => handleConnectionChange({ ...activeConnection, supplyLength: Math.max(0, Number(e.target.value)) })} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold" /></div>
+                            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ritorno (m)</label><input type="number" step="0.5" value={activeConnection.returnLength || ''} onChange={e => handleConnectionChange({ ...activeConnection, returnLength: Math.max(0, Number(e.target.value)) })} className="w-full bg-slate-100 rounded-xl p-3 text-sm font-bold" /></div>
+                            {activeRingTemps && (
+                              <p className="col-span-4 text-[10px] text-slate-500">
+                                Anello monotubo: ingresso radiatore <b>{activeRingTemps.flowTemp.toFixed(1)} °C</b>, uscita <b>{activeRingTemps.returnTemp.toFixed(1)} °C</b>. Gli elementi sono calcolati su queste temperature.
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-4 gap-4 mt-6 pt-6 border-t border-slate-100">
+                      <div className="flex flex-col"><span className="text-[9px] font-black text-slate-400 uppercase">Portata (ΔT {matchedModelData.hydraulics.systemDeltaT} K)</span><span className="text-lg font-black">{Math.round(matchedModelData.hydraulics.flowRate)} l/h</span></div>
+                      <div className="flex flex-col"><span className="text-[9px] font-black text-slate-400 uppercase">Ø Interno</span><span className="text-lg font-black">{matchedModelData.hydraulics.innerDiameter !== undefined ? `${matchedModelData.hydraulics.innerDiameter.toFixed(1)} mm` : '—'}</span></div>
+                      <div className="flex flex-col"><span className="text-[9px] font-black text-slate-400 uppercase">Velocità · Perdita</span><span className="text-lg font-black">{matchedModelData.hydraulics.velocity !== undefined && matchedModelData.hydraulics.pressureGradient !== undefined ? `${matchedModelData.hydraulics.velocity.toFixed(2)} m/s · ${Math.round(matchedModelData.hydraulics.pressureGradient)} Pa/m` : '—'}</span></div>
+                      <div className="flex flex-col"><span className="text-[9px] font-black text-slate-400 uppercase">Perdita Circuito</span><span className="text-lg font-black">{matchedModelData.hydraulics.circuitPressureDrop !== undefined ? `${(matchedModelData.hydraulics.circuitPressureDrop / 1000).toFixed(2)} kPa` : '—'}</span></div>
+                    </div>
+                    {matchedModelData.hydraulics.innerDiameter === undefined && <p className="text-[10px] text-slate-400 mt-3">Indicare materiale e diametro del tubo per la verifica di velocità e perdite di carico.</p>}
                   </section>
                 </div>
               </div>
@@ -416,31 +1047,82 @@ const App: React.FC = () => {
                    <th className="py-3 px-2 text-center">Larghezza Corpo</th>
                    <th className="py-3 px-2 text-center">Ingombro Totale</th>
                    <th className="py-3 px-2 text-center">Resa Effettiva</th>
+                   <th className="py-3 px-2 text-center">Resa Nominale</th>
                    <th className="py-3 px-2 text-center">Diaframma</th>
                    <th className="py-3 px-2">Tubo</th>
+                   <th className="py-3 px-2">Circuito</th>
                  </tr>
                </thead>
                <tbody>
-                 {activeProject.environments.map(env => {
-                   const data = getEnvRadiatorData(env);
-                   return (
-                    <tr key={env.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
-                      <td className="py-4 px-2 font-bold">{env.name}</td>
-                      <td className="py-4 px-2">{env.specs.series}</td>
-                      <td className="py-4 px-2">{data.model.label} (H {data.model.height} / Int {data.model.interaxis})</td>
-                      <td className="py-4 px-2 text-center font-black">{data.currentElements}</td>
-                      <td className="py-4 px-2 text-center font-bold">{data.bodyLength} mm</td>
-                      <td className="py-4 px-2 text-center font-bold text-slate-500">{data.totalOccupiedWidth} mm</td>
-                      <td className="py-4 px-2 text-center font-bold text-slate-700">{data.totalWatts} W</td>
-                      <td className="py-4 px-2 text-center">{env.specs.hasDiaphragm ? 'SI' : 'NO'}</td>
-                      <td className="py-4 px-2">{env.specs.pipeMaterial} {env.specs.pipeDiameter}</td>
-                    </tr>
-                   );
-                 })}
+                 {buildingSummary.floors.map(({ floor, units, totals: floorTotals }) => (
+                   <React.Fragment key={floor?.id ?? 'unassigned'}>
+                     {units.map(({ unit, environments, totals: unitTotals }) => (
+                       <React.Fragment key={unit?.id ?? 'unassigned'}>
+                         {isStructured && (
+                           <tr className="bg-slate-100">
+                             <td colSpan={11} className="py-2 px-2 text-[10px] font-black uppercase tracking-widest text-slate-500">{unit ? unitLabel(activeProject, unit) : 'Ambienti non assegnati'}</td>
+                           </tr>
+                         )}
+                         {environments.map(({ env }) => {
+                           const radiators = getEnvRadiators(env);
+                           return (
+                            <React.Fragment key={env.id}>
+                              {radiators.map(({ radiator, sizing: data }) => (
+                                <tr key={radiator.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                                  <td className="py-4 px-2 font-bold">{radiatorLabel(env, radiator, radiators.length)}</td>
+                                  <td className="py-4 px-2">{radiator.specs.series}</td>
+                                  <td className="py-4 px-2">{data.model.label} (H {data.model.height} / Int {data.model.interaxis}){data.matchWarning && <span className="block text-[10px] font-black text-red-600 uppercase">Non compatibile</span>}</td>
+                                  <td className="py-4 px-2 text-center font-black">{data.currentElements}</td>
+                                  <td className="py-4 px-2 text-center font-bold">{data.bodyLength} mm</td>
+                                  <td className="py-4 px-2 text-center font-bold text-slate-500">{data.totalOccupiedWidth} mm</td>
+                                  <td className="py-4 px-2 text-center font-bold text-slate-700">{data.totalWatts} W <span className="text-[10px] text-slate-400">(ΔT {data.deltaT.toFixed(1)})</span></td>
+                                  <td className="py-4 px-2 text-center text-slate-400">{data.nominalTotalWatts} W</td>
+                                  <td className="py-4 px-2 text-center">{radiator.specs.hasDiaphragm ? 'SI' : 'NO'}</td>
+                                  <td className="py-4 px-2">{radiator.specs.pipeMaterial} {radiator.specs.pipeDiameter}</td>
+                                  <td className="py-4 px-2 text-xs">{connectionLabel(activeProject, radiator.specs) || '—'}</td>
+                                </tr>
+                              ))}
+                              {radiators.length > 1 && renderAbacoTotalRow(`Totale ${env.name}`, summarizeRoom(radiators, calculateWatts(env).watts))}
+                            </React.Fragment>
+                           );
+                         })}
+                         {unit && renderAbacoTotalRow(`Totale ${unit.name}`, unitTotals)}
+                       </React.Fragment>
+                     ))}
+                     {floor && renderAbacoTotalRow(`Totale ${floor.name}`, floorTotals)}
+                   </React.Fragment>
+                 ))}
+                 {isStructured && renderAbacoTotalRow(`Totale ${activeProject.buildingName || 'Edificio'}`, buildingSummary.totals)}
                </tbody>
              </table>
            </div>
         </div>
+
+        <div className="no-print mt-12 bg-white p-8 rounded-3xl border border-slate-200 shadow-sm space-y-6">
+          <h3 className="text-lg font-black text-slate-900 uppercase tracking-widest">Generatore e Vaso d'Espansione</h3>
+          <PlantSettingsEditor settings={plantSummary.settings} onChange={plant => updateActiveProject(p => ({ ...p, plant }))} />
+          <PlantSummaryTable summary={plantSummary} />
+        </div>
+
+        <div className="no-print mt-12 bg-white p-8 rounded-3xl border border-slate-200 shadow-sm space-y-6">
+          <h3 className="text-lg font-black text-slate-900 uppercase tracking-widest">Bilanciamento Impianto</h3>
+          <BalancingSettingsEditor settings={balancing.settings} onChange={balancingSettings => updateActiveProject(p => ({ ...p, balancing: balancingSettings }))} />
+          <p className="text-[10px] text-slate-400">Le lunghezze tubo dei radiatori si intendono misurate dall'origine dei circuiti, mandata più ritorno.</p>
+          <BalancingTable result={balancing} />
+        </div>
+
+        <div className="no-print mt-12 bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-lg font-black text-slate-900 uppercase tracking-widest">Distinta Materiali</h3>
+            <button onClick={() => downloadFile(`distinta-${projectSlug(activeProject)}.csv`, exportBomCsv(billOfMaterials), 'text/csv')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta CSV</button>
+          </div>
+          <BillOfMaterials groups={billOfMaterials} />
+        </div>
+
+        <div className="no-print mt-12 bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-black text-slate-900 uppercase tracking-widest mb-6">Preventivo</h3>
+          <QuoteEditor project={activeProject} getRadiators={getEnvRadiators} priceList={settings.priceList} onChange={updateProjectQuote} />
+        </div>
       </div>
 
       {/* SEZIONE STAMPA (PDF A4 FORMATTING) */}
@@ -448,6 +1130,7 @@ const App: React.FC = () => {
         
         {/* PAGINA 1: ABACO CALORIFERI (Sempre la prima) */}
         <div className="print-container flex flex-col">
+           <LetterheadHeader letterhead={activeLetterhead} />
            <div className="mb-12 border-b-4 border-slate-900 pb-8 pt-4">
               <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-slate-400 mb-2">Relazione Tecnica Impianto</p>
               <h1 className="arch-title text-5xl font-black">Abaco Caloriferi</h1>
@@ -474,53 +1157,73 @@ const App: React.FC = () => {
                     <th className="py-5 px-3 text-center uppercase tracking-tighter">Largh (mm)</th>
                     <th className="py-5 px-3 text-center uppercase tracking-tighter">Diafr.</th>
                     <th className="py-5 px-3 uppercase tracking-tighter">Resa (W)</th>
+                    <th className="py-5 px-3 uppercase tracking-tighter">Nom. ΔT50 (W)</th>
+                    <th className="py-5 px-3 uppercase tracking-tighter">Coll. / Uscita</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {activeProject.environments.map(env => {
-                    const data = getEnvRadiatorData(env);
-                    return (
-                      <tr key={env.id} className="border-b border-slate-200">
-                        <td className="py-5 px-3 font-bold">{env.name}</td>
-                        <td className="py-5 px-3">{data.model.label} ({env.specs.series})</td>
-                        <td className="py-5 px-3 text-center font-medium">{data.model.height} / {data.model.interaxis}</td>
-                        <td className="py-5 px-3 text-center font-black text-lg">{data.currentElements}</td>
-                        <td className="py-5 px-3 text-center font-bold">{data.totalOccupiedWidth}</td>
-                        <td className="py-5 px-3 text-center">{env.specs.hasDiaphragm ? 'SÌ' : 'NO'}</td>
-                        <td className="py-5 px-3 font-bold text-emerald-700">{data.totalWatts}</td>
-                      </tr>
-                    );
-                  })}
+                  {buildingSummary.floors.map(({ floor, units, totals: floorTotals }) => (
+                    <React.Fragment key={floor?.id ?? 'unassigned'}>
+                      {units.map(({ unit, environments, totals: unitTotals }) => (
+                        <React.Fragment key={unit?.id ?? 'unassigned'}>
+                          {isStructured && (
+                            <tr className="bg-slate-100">
+                              <td colSpan={9} className="py-3 px-3 text-[10px] font-black uppercase tracking-widest">{unit ? unitLabel(activeProject, unit) : 'Ambienti non assegnati'}</td>
+                            </tr>
+                          )}
+                          {environments.map(({ env }) => {
+                            const radiators = getEnvRadiators(env);
+                            return (
+                              <React.Fragment key={env.id}>
+                                {radiators.map(({ radiator, sizing: data }) => (
+                                  <tr key={radiator.id} className="border-b border-slate-200">
+                                    <td className="py-5 px-3 font-bold">{radiatorLabel(env, radiator, radiators.length)}</td>
+                                    <td className="py-5 px-3">{data.model.label} ({radiator.specs.series}){data.matchWarning && <span className="block text-[9px] font-black text-red-600 uppercase">Non compatibile</span>}</td>
+                                    <td className="py-5 px-3 text-center font-medium">{data.model.height} / {data.model.interaxis}</td>
+                                    <td className="py-5 px-3 text-center font-black text-lg">{data.currentElements}</td>
+                                    <td className="py-5 px-3 text-center font-bold">{data.totalOccupiedWidth}</td>
+                                    <td className="py-5 px-3 text-center">{radiator.specs.hasDiaphragm ? 'SÌ' : 'NO'}</td>
+                                    <td className="py-5 px-3 font-bold text-emerald-700">{data.totalWatts}</td>
+                                    <td className="py-5 px-3 text-slate-500">{data.nominalTotalWatts}</td>
+                                    <td className="py-5 px-3 text-[10px]">{connectionLabel(activeProject, radiator.specs) || '—'}</td>
+                                  </tr>
+                                ))}
+                                {radiators.length > 1 && renderAbacoTotalRow(`Totale ${env.name}`, summarizeRoom(radiators, calculateWatts(env).watts), true)}
+                              </React.Fragment>
+                            );
+                          })}
+                          {unit && renderAbacoTotalRow(`Totale ${unit.name}`, unitTotals, true)}
+                        </React.Fragment>
+                      ))}
+                      {floor && renderAbacoTotalRow(`Totale ${floor.name}`, floorTotals, true)}
+                    </React.Fragment>
+                  ))}
+                  {isStructured && renderAbacoTotalRow(`Totale ${activeProject.buildingName || 'Edificio'}`, buildingSummary.totals, true)}
                 </tbody>
               </table>
            </div>
 
-           <footer className="mt-20 pt-10 border-t flex justify-between items-end">
-              <div className="space-y-2">
-                <div className="w-48 h-px bg-slate-900"></div>
-                <p className="text-[9px] uppercase font-black tracking-widest text-slate-500">Timbro e Firma del Progettista</p>
-              </div>
-              <div className="text-right">
-                <p className="text-[10px] font-black uppercase tracking-widest">HeatMaster ArchQuote</p>
-                <p className="text-[8px] text-slate-300">Pagina 1 di {activeProject.environments.length + 1}</p>
-              </div>
-           </footer>
+           <LetterheadFooter letterhead={activeLetterhead} signatureLabel="Timbro e Firma del Progettista" showSignatureImage />
         </div>
 
-        {/* PAGINE SUCCESSIVE: UNA PER AMBIENTE */}
-        {activeProject.environments.map((env, index) => {
-          const wattsReq = calculateWatts(env).watts;
-          const data = getEnvRadiatorData(env);
+        {/* PAGINE SUCCESSIVE: UNA PER RADIATORE */}
+        {printSheets.map(({ env, index, radiators, radiatorIndex }) => {
+          const calc = calculateWatts(env);
+          const { radiator, sizing: data } = radiators[radiatorIndex];
+          const specs = radiator.specs;
+          const room = summarizeRoom(radiators, calc.watts);
+          const issues = issuesForRadiator(getEnvIssues(env), radiator.id);
           return (
-            <div key={env.id} className="print-container flex flex-col">
+            <div key={radiator.id} className="print-container flex flex-col">
+              <LetterheadHeader letterhead={activeLetterhead} />
               <div className="flex justify-between items-end mb-12 border-b-2 border-slate-900 pb-6 pt-4">
                 <div className="space-y-1">
                   <h2 className="arch-title text-3xl font-black text-slate-900">Scheda Tecnica Locale</h2>
                   <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Riferimento: {activeProject.clientSurname} - {activeProject.siteAddress}</p>
                 </div>
                 <div className="text-right">
-                   <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-300">Ambiente {index + 1}</p>
-                   <p className="text-3xl font-black uppercase tracking-tighter">{env.name}</p>
+                   <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-300">Ambiente {index + 1}{radiators.length > 1 && ` · Radiatore ${radiatorIndex + 1} di ${radiators.length}`}</p>
+                   <p className="text-3xl font-black uppercase tracking-tighter">{radiatorLabel(env, radiator, radiators.length)}</p>
                 </div>
               </div>
 
@@ -528,64 +1231,215 @@ const App: React.FC = () => {
                 <div className="space-y-10">
                   <div className="bg-slate-900 text-white p-8 rounded-3xl shadow-xl">
                     <p className="text-[10px] uppercase font-black tracking-widest text-slate-400 mb-2">Fabbisogno Calcolato</p>
-                    <p className="text-6xl font-light tracking-tighter">{Math.round(wattsReq)} <span className="text-2xl opacity-40">Watt</span></p>
+                    <p className="text-6xl font-light tracking-tighter">{room.requiredWatts} <span className="text-2xl opacity-40">Watt</span></p>
+                    <p className="text-[10px] uppercase font-bold tracking-widest text-slate-400 mt-3">Metodo: {HEAT_LOSS_METHOD_LABELS[calc.method]}</p>
+                    {calc.method === HeatLossMethod.DETAILED && (
+                      <div className="mt-4 pt-4 border-t border-white/10 text-[11px] space-y-1">
+                        <p className="flex justify-between"><span className="text-slate-400">Trasmissione</span> <b>{Math.round(calc.transmissionWatts || 0)} W</b></p>
+                        <p className="flex justify-between"><span className="text-slate-400">Ventilazione</span> <b>{Math.round(calc.ventilationWatts || 0)} W</b></p>
+                        <p className="flex justify-between"><span className="text-slate-400">T. Int / T. Est</span> <b>{env.specs.heatLoss?.internalTemp ?? '-'} / {env.specs.heatLoss?.externalTemp ?? '-'} °C</b></p>
+                      </div>
+                    )}
+                    {radiators.length > 1 && (
+                      <div className="mt-4 pt-4 border-t border-white/10 text-[11px] space-y-1">
+                        <p className="flex justify-between"><span className="text-slate-400">Quota {radiator.name}</span> <b>{data.requiredWatts} W</b></p>
+                        <p className="flex justify-between"><span className="text-slate-400">Resa Totale Locale</span> <b className={room.totalWatts < room.requiredWatts ? 'text-red-400' : ''}>{room.totalWatts} W</b></p>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="border border-slate-100 p-8 rounded-3xl space-y-6">
                      <h4 className="text-[10px] font-black uppercase tracking-widest border-b pb-3 text-slate-400">Configurazione Tecnica</h4>
                      <div className="space-y-4">
-                        <div className="flex justify-between text-sm border-b border-slate-50 pb-2"><span>Serie Prodotto</span> <b className="uppercase">{env.specs.series}</b></div>
+                        <div className="flex justify-between text-sm border-b border-slate-50 pb-2"><span>Serie Prodotto</span> <b className="uppercase">{specs.series}</b></div>
                         <div className="flex justify-between text-sm border-b border-slate-50 pb-2"><span>Modello</span> <b>{data.model.label}</b></div>
                         <div className="flex justify-between text-sm border-b border-slate-50 pb-2"><span>Altezza Totale</span> <b>{data.model.height} mm</b></div>
                         <div className="flex justify-between text-sm border-b border-slate-50 pb-2"><span>Interasse Valvole</span> <b>{data.model.interaxis} mm</b></div>
-                        <div className="flex justify-between text-lg border-b border-slate-100 pb-3 pt-2"><span>Nr. Elementi</span> <b className="text-3xl tracking-tighter font-black">{data.currentElements} pz</b></div>
+                        {data.isPanel ? (
+                          <div className="flex justify-between text-lg border-b border-slate-100 pb-3 pt-2"><span>Lunghezza Pannello</span> <b className="text-3xl tracking-tighter font-black">{data.bodyLength} mm</b></div>
+                        ) : (
+                          <div className="flex justify-between text-lg border-b border-slate-100 pb-3 pt-2"><span>Nr. Elementi</span> <b className="text-3xl tracking-tighter font-black">{data.currentElements} pz</b></div>
+                        )}
                         <div className="flex justify-between text-xl font-black py-4 border-y-2 border-slate-900"><span>Ingombro Finale</span> <span>{data.totalOccupiedWidth} mm</span></div>
-                        <div className="flex justify-between text-lg font-bold text-emerald-600"><span>Resa Effettiva</span> <b>{data.totalWatts} WATT</b></div>
-                        <div className="flex justify-between text-sm pt-2"><span>Diaframma Interno</span> <b>{env.specs.hasDiaphragm ? 'APPLICATO' : 'NON RICHIESTO'}</b></div>
+                        <div className="flex justify-between text-lg font-bold text-emerald-600"><span>Resa Effettiva (ΔT {data.deltaT.toFixed(1)} K)</span> <b>{data.totalWatts} WATT</b></div>
+                        <div className="flex justify-between text-sm text-slate-500"><span>Resa Nominale (ΔT 50 K)</span> <b>{data.nominalTotalWatts} WATT</b></div>
+                        <div className="flex justify-between text-sm pt-2"><span>Diaframma Interno</span> <b>{specs.hasDiaphragm ? 'APPLICATO' : 'NON RICHIESTO'}</b></div>
                      </div>
                      {data.eccentricText && (
                         <div className="bg-red-50 border border-red-100 p-3 rounded-xl">
                            <p className="text-red-600 font-black text-[10px] uppercase text-center">{data.eccentricText}</p>
                         </div>
                      )}
+                     {data.matchWarning && (
+                        <div className="bg-red-50 border border-red-100 p-3 rounded-xl">
+                           <p className="text-red-600 font-black text-[10px] uppercase text-center">{data.matchWarning}</p>
+                        </div>
+                     )}
                   </div>
                 </div>
 
                 <div className="space-y-8">
                    <RadiatorVisualizer 
-                    specs={env.specs} 
+                    specs={specs} 
                     calculatedWidth={data.bodyLength} 
+                    elementWidth={data.elementWidth}
+                    isPanel={data.isPanel}
                     realWatts={data.totalWatts} 
-                    requiredWatts={Math.round(wattsReq)}
+                    nominalWatts={data.nominalTotalWatts}
+                    requiredWatts={data.requiredWatts}
                     needsEccentric={data.needsEccentric}
+                    issues={issues}
+                    view={drawingView}
+                    planView={buildPlanView(specs, data, issues)}
+                    sectionView={buildSideSection(specs, data, issues)}
                    />
                    
                    <div className="grid grid-cols-2 gap-4">
                     <div className="border border-slate-100 p-5 rounded-3xl bg-slate-50">
                       <h5 className="text-[9px] font-black uppercase mb-3 text-slate-400">Dati Impianto</h5>
                       <div className="space-y-1">
-                        <p className="text-[11px] flex justify-between"><span>Materiale:</span> <b>{env.specs.pipeMaterial}</b></p>
-                        <p className="text-[11px] flex justify-between"><span>Diametro:</span> <b>{env.specs.pipeDiameter}</b></p>
+                        <p className="text-[11px] flex justify-between"><span>Materiale:</span> <b>{specs.pipeMaterial}</b></p>
+                        <p className="text-[11px] flex justify-between"><span>Diametro:</span> <b>{specs.pipeDiameter}</b></p>
+                        <p className="text-[11px] flex justify-between"><span>Portata (ΔT {data.hydraulics.systemDeltaT} K):</span> <b>{Math.round(data.hydraulics.flowRate)} l/h</b></p>
+                        {data.hydraulics.velocity !== undefined && data.hydraulics.pressureGradient !== undefined && (
+                          <p className="text-[11px] flex justify-between"><span>Velocità:</span> <b>{data.hydraulics.velocity.toFixed(2)} m/s · {Math.round(data.hydraulics.pressureGradient)} Pa/m</b></p>
+                        )}
+                        {data.hydraulics.circuitPressureDrop !== undefined && (
+                          <p className="text-[11px] flex justify-between"><span>Perdita circuito ({specs.pipeLength} m):</span> <b>{(data.hydraulics.circuitPressureDrop / 1000).toFixed(2)} kPa</b></p>
+                        )}
                       </div>
                     </div>
                     <div className="border border-slate-100 p-5 rounded-3xl bg-slate-50">
                       <h5 className="text-[9px] font-black uppercase mb-3 text-slate-400">Dimensioni Nicchia</h5>
                       <div className="space-y-1">
-                        <p className="text-[11px] flex justify-between"><span>Larghezza:</span> <b>{env.specs.nicheWidth} mm</b></p>
-                        <p className="text-[11px] flex justify-between"><span>Altezza:</span> <b>{env.specs.nicheHeight} mm</b></p>
+                        <p className="text-[11px] flex justify-between"><span>Larghezza:</span> <b>{specs.nicheWidth} mm</b></p>
+                        <p className="text-[11px] flex justify-between"><span>Altezza:</span> <b>{specs.nicheHeight} mm</b></p>
                       </div>
                     </div>
                   </div>
+
+                  <IssueList issues={issues} title="Verifiche e Segnalazioni" />
                 </div>
               </div>
 
-              <div className="mt-auto pt-8 border-t flex justify-between items-end">
-                 <p className="text-[9px] text-slate-400 uppercase font-black tracking-[0.2em]">HeatMaster ArchQuote Professional Suite</p>
-                 <p className="text-[9px] font-bold text-slate-300">Pagina {index + 2} di {activeProject.environments.length + 1}</p>
-              </div>
+              <LetterheadFooter letterhead={activeLetterhead} />
             </div>
           );
         })}
+
+        {/* TABELLA DI BILANCIAMENTO */}
+        <div className="print-container flex flex-col">
+          <LetterheadHeader letterhead={activeLetterhead} />
+          <div className="mb-10 border-b-4 border-slate-900 pb-8 pt-4 flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-slate-400 mb-2">Preregolazione Valvole</p>
+              <h1 className="arch-title text-5xl font-black">Tabella di Bilanciamento</h1>
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-bold">{activeProject.clientSurname || 'N.D.'} {activeProject.clientName || ''}</p>
+              <p className="text-slate-500">{activeProject.siteAddress || 'Non specificato'}</p>
+            </div>
+          </div>
+          <div className="flex-1">
+            <BalancingTable result={balancing} compact />
+          </div>
+          <LetterheadFooter letterhead={activeLetterhead} />
+        </div>
+
+        {/* RIEPILOGO GENERATORE */}
+        <div className="print-container flex flex-col">
+          <LetterheadHeader letterhead={activeLetterhead} />
+          <div className="mb-10 border-b-4 border-slate-900 pb-8 pt-4 flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-slate-400 mb-2">Centrale Termica</p>
+              <h1 className="arch-title text-5xl font-black">Riepilogo Impianto</h1>
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-bold">{activeProject.clientSurname || 'N.D.'} {activeProject.clientName || ''}</p>
+              <p className="text-slate-500">{activeProject.siteAddress || 'Non specificato'}</p>
+            </div>
+          </div>
+          <div className="flex-1">
+            <PlantSummaryTable summary={plantSummary} compact />
+          </div>
+          <LetterheadFooter letterhead={activeLetterhead} />
+        </div>
+
+        {/* DISTINTA MATERIALI */}
+        <div className="print-container flex flex-col">
+          <LetterheadHeader letterhead={activeLetterhead} />
+          <div className="mb-10 border-b-4 border-slate-900 pb-8 pt-4 flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-slate-400 mb-2">Ordine Fornitore</p>
+              <h1 className="arch-title text-5xl font-black">Distinta Materiali</h1>
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-bold">{activeProject.clientSurname || 'N.D.'} {activeProject.clientName || ''}</p>
+              <p className="text-slate-500">{activeProject.siteAddress || 'Non specificato'}</p>
+            </div>
+          </div>
+          <div className="flex-1">
+            <BillOfMaterials groups={billOfMaterials} compact />
+          </div>
+          <LetterheadFooter letterhead={activeLetterhead} />
+        </div>
+
+        {/* ULTIMA PAGINA: PREVENTIVO */}
+        <div className="print-container flex flex-col">
+          <LetterheadHeader letterhead={activeLetterhead} />
+          <div className="mb-10 border-b-4 border-slate-900 pb-8 pt-4 flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-slate-400 mb-2">Offerta Economica</p>
+              <h1 className="arch-title text-5xl font-black">Preventivo</h1>
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-bold">{activeProject.clientSurname || 'N.D.'} {activeProject.clientName || ''}</p>
+              <p className="text-slate-500">{activeProject.siteAddress || 'Non specificato'}</p>
+              <p className="text-[10px] text-slate-400 mt-1">Data: {new Date().toLocaleDateString('it-IT')}</p>
+            </div>
+          </div>
+
+          <div className="flex-1">
+            <table className="w-full text-left text-[10px] border-collapse">
+              <thead>
+                <tr className="bg-slate-100 border-b-2 border-slate-900">
+                  <th className="py-3 px-2 uppercase tracking-tighter">Locale</th>
+                  <th className="py-3 px-2 uppercase tracking-tighter">Descrizione</th>
+                  <th className="py-3 px-2 text-center uppercase tracking-tighter">U.M.</th>
+                  <th className="py-3 px-2 text-right uppercase tracking-tighter">Q.tà</th>
+                  <th className="py-3 px-2 text-right uppercase tracking-tighter">Prezzo</th>
+                  <th className="py-3 px-2 text-right uppercase tracking-tighter">Importo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quoteLines.map(line => (
+                  <tr key={line.id} className="border-b border-slate-200">
+                    <td className="py-2 px-2 font-bold">{activeProject.environments.find(e => e.id === line.environmentId)?.name ?? ''}</td>
+                    <td className="py-2 px-2">{line.description}</td>
+                    <td className="py-2 px-2 text-center">{line.unit}</td>
+                    <td className="py-2 px-2 text-right">{line.quantity}</td>
+                    <td className="py-2 px-2 text-right">{formatEuro(line.unitPrice)}</td>
+                    <td className="py-2 px-2 text-right font-bold">{formatEuro(lineTotal(line))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-8 ml-auto w-1/2 space-y-2 text-sm">
+              <p className="flex justify-between"><span>Imponibile lordo</span> <b>{formatEuro(quoteTotals.subtotal)}</b></p>
+              {quoteTotals.discount > 0 && <p className="flex justify-between"><span>Sconto {activeQuote.discountPercent}%</span> <b>- {formatEuro(quoteTotals.discount)}</b></p>}
+              <p className="flex justify-between"><span>Imponibile</span> <b>{formatEuro(quoteTotals.taxable)}</b></p>
+              <p className="flex justify-between"><span>IVA {activeQuote.vatRate}%</span> <b>{formatEuro(quoteTotals.vat)}</b></p>
+              <p className="flex justify-between text-xl font-black border-t-2 border-slate-900 pt-3"><span>Totale</span> <span>{formatEuro(quoteTotals.total)}</span></p>
+            </div>
+
+            {activeQuote.notes && (
+              <div className="mt-10 text-[11px] text-slate-600 whitespace-pre-line border-t pt-4">{activeQuote.notes}</div>
+            )}
+          </div>
+
+          <LetterheadFooter letterhead={activeLetterhead} signatureLabel="Firma per Accettazione" />
+        </div>
       </div>
     </div>
   );
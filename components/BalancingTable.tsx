@@ -0,0 +1,80 @@
+import React from 'react';
+import { BalancingSettings, BalancingStatus, HeatSourceType } from '../types';
+import { HEAT_SOURCE_LABELS, BALANCING_STATUS_LABELS } from '../constants';
+import { BUILTIN_VALVES } from '../valveData';
+import { BalancingResult, formatPresetting } from '../services/balancing';
+
+interface BalancingSettingsEditorProps {
+  settings: BalancingSettings;
+  onChange: (settings: BalancingSettings) => void;
+}
+
+export const BalancingSettingsEditor: React.FC<BalancingSettingsEditorProps> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Origine Circuiti</label>
+      <select value={settings.sourceType} onChange={e => onChange({ ...settings, sourceType: e.target.value as HeatSourceType })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold">
+        {Object.values(HeatSourceType).map(t => <option key={t} value={t}>{HEAT_SOURCE_LABELS[t]}</option>)}
+      </select>
+    </div>
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Posizione</label>
+      <input placeholder="Es. bagno piano primo" value={settings.sourceLocation} onChange={e => onChange({ ...settings, sourceLocation: e.target.value })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" />
+    </div>
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Valvola di Regolazione</label>
+      <select value={settings.valveId} onChange={e => onChange({ ...settings, valveId: e.target.value })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold">
+        {BUILTIN_VALVES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+      </select>
+    </div>
+  </div>
+);
+
+interface BalancingTableProps {
+  result: BalancingResult;
+  compact?: boolean; // Versione per la stampa
+}
+
+const kPa = (pa?: number) => pa === undefined ? '—' : (pa / 1000).toFixed(2);
+
+export const BalancingTable: React.FC<BalancingTableProps> = ({ result, compact = false }) => {
+  const cell = compact ? 'py-2 px-2' : 'py-3 px-2';
+  const { valve, rows, indexRow, requiredHead, settings } = result;
+
+  return (
+    <div className="space-y-4">
+      <div className={`flex flex-wrap gap-x-8 gap-y-1 ${compact ? 'text-[10px]' : 'text-xs'}`}>
+        <span>Origine: <b>{HEAT_SOURCE_LABELS[settings.sourceType]}{settings.sourceLocation ? ` - ${settings.sourceLocation}` : ''}</b></span>
+        <span>Valvola: <b>{valve.label}</b></span>
+        <span>Circuito indice: <b>{indexRow ? indexRow.label : '—'}</b></span>
+        <span>Prevalenza richiesta: <b>{kPa(requiredHead)} kPa</b></span>
+      </div>
+      <table className={`w-full text-left border-collapse ${compact ? 'text-[10px]' : 'text-sm'}`}>
+        <thead>
+          <tr className="bg-slate-100 border-b-2 border-slate-900">
+            <th className={`${cell} uppercase tracking-tighter`}>Locale / Radiatore</th>
+            <th className={`${cell} text-right uppercase tracking-tighter`}>Portata (l/h)</th>
+            <th className={`${cell} text-right uppercase tracking-tighter`}>ΔP Circuito (kPa)</th>
+            <th className={`${cell} text-right uppercase tracking-tighter`}>ΔP Valvola (kPa)</th>
+            <th className={`${cell} text-right uppercase tracking-tighter`}>Kv</th>
+            <th className={`${cell} text-center uppercase tracking-tighter`}>Preregolazione</th>
+            <th className={`${cell} uppercase tracking-tighter`}>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.radiator.id} className={`border-b border-slate-100 ${row.status === BalancingStatus.INDEX ? 'bg-slate-50 font-bold' : ''}`}>
+              <td className={`${cell} font-bold`}>{row.label}</td>
+              <td className={`${cell} text-right`}>{Math.round(row.flowRate)}</td>
+              <td className={`${cell} text-right`}>{kPa(row.circuitPressureDrop)}</td>
+              <td className={`${cell} text-right`}>{kPa(row.valvePressureDrop)}</td>
+              <td className={`${cell} text-right`}>{row.requiredKv !== undefined ? row.requiredKv.toFixed(2) : '—'}</td>
+              <td className={`${cell} text-center font-black`}>{row.presetting !== undefined ? formatPresetting(valve, row.presetting) : '—'}</td>
+              <td className={`${cell} ${row.status === BalancingStatus.OUT_OF_RANGE || row.status === BalancingStatus.MISSING_DATA ? 'text-amber-600' : 'text-slate-500'} ${compact ? 'text-[9px]' : 'text-xs'}`}>{BALANCING_STATUS_LABELS[row.status]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
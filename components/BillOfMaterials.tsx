@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { BomGroup } from '../types';
+import { formatBomQuantity } from '../services/billOfMaterials';
+
+interface BillOfMaterialsProps {
+  groups: BomGroup[];
+  compact?: boolean; // Versione per la stampa
+}
+
+export const BillOfMaterials: React.FC<BillOfMaterialsProps> = ({ groups, compact = false }) => {
+  const cell = compact ? 'py-2 px-2' : 'py-3 px-2';
+  const nonEmpty = groups.filter(g => g.items.length > 0);
+
+  if (nonEmpty.length === 0) {
+    return <p className="text-xs text-slate-400 italic">Nessun materiale: configurare almeno un ambiente.</p>;
+  }
+
+  return (
+    <table className={`w-full text-left border-collapse ${compact ? 'text-[10px]' : 'text-sm'}`}>
+      <thead>
+        <tr className="bg-slate-100 border-b-2 border-slate-900">
+          <th className={`${cell} uppercase tracking-tighter`}>Codice</th>
+          <th className={`${cell} uppercase tracking-tighter`}>Descrizione</th>
+          <th className={`${cell} text-center uppercase tracking-tighter`}>U.M.</th>
+          <th className={`${cell} text-right uppercase tracking-tighter`}>Q.tà</th>
+          <th className={`${cell} uppercase tracking-tighter`}>Ambienti</th>
+        </tr>
+      </thead>
+      {nonEmpty.map(group => (
+        <tbody key={group.section}>
+          <tr>
+            <td colSpan={5} className={`${cell} pt-5 text-[10px] font-black uppercase tracking-widest text-slate-400`}>{group.section}</td>
+          </tr>
+          {group.items.map(item => (
+            <tr key={`${item.code}-${item.description}`} className="border-b border-slate-100">
+              <td className={`${cell} font-bold whitespace-nowrap`}>{item.code}</td>
+              <td className={cell}>{item.description}</td>
+              <td className={`${cell} text-center`}>{item.unit}</td>
+              <td className={`${cell} text-right font-black`}>{formatBomQuantity(item)}</td>
+              <td className={`${cell} text-slate-500 ${compact ? 'text-[9px]' : 'text-xs'}`}>{item.rooms.join(', ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      ))}
+    </table>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Project } from '../types';
+import { BuildingSummary, addFloor, addUnit, renameFloor, renameUnit, removeFloor, removeUnit, copyUnitToFloors } from '../services/buildingStructure';
+
+const ALL_FLOORS = '*';
+
+interface BuildingStructureEditorProps {
+  project: Project;
+  summary: BuildingSummary;
+  onChange: (updater: (p: Project) => Project) => void;
+}
+
+export const BuildingStructureEditor: React.FC<BuildingStructureEditorProps> = ({ project, summary, onChange }) => {
+  const floors = project.floors ?? [];
+  const units = project.units ?? [];
+  const unitGroups = summary.floors.flatMap(f => f.units);
+  const floorTotals = (floorId: string) => summary.floors.find(f => f.floor?.id === floorId)?.totals;
+  const unitTotals = (unitId: string) => unitGroups.find(u => u.unit?.id === unitId)?.totals;
+
+  const copyUnit = (unitId: string, target: string) => {
+    if (!target) return;
+    const floorIds = target === ALL_FLOORS ? floors.map(f => f.id) : [target];
+    onChange(p => copyUnitToFloors(p, unitId, floorIds));
+  };
+
+  const deleteFloor = (floorId: string, name: string) => {
+    if (!window.confirm(`Eliminare ${name}? Gli ambienti delle sue unità restano nel progetto senza assegnazione.`)) return;
+    onChange(p => removeFloor(p, floorId));
+  };
+
+  return (
+    <div className="space-y-3">
+      <input placeholder="Nome edificio" value={project.buildingName ?? ''} onChange={e => onChange(p => ({ ...p, buildingName: e.target.value }))} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" />
+      {floors.map(floor => (
+        <div key={floor.id} className="bg-slate-50 rounded-2xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input value={floor.name} onChange={e => onChange(p => renameFloor(p, floor.id, e.target.value))} className="flex-1 min-w-0 bg-transparent text-sm font-black" />
+            <span className="text-[9px] font-black text-slate-400 shrink-0">{floorTotals(floor.id)?.requiredWatts ?? 0} W</span>
+            <button title="Elimina piano" onClick={() => deleteFloor(floor.id, floor.name)} className="text-slate-400 hover:text-red-500 px-1">✕</button>
+          </div>
+          {units.filter(u => u.floorId === floor.id).map(unit => {
+            const totals = unitTotals(unit.id);
+            return (
+              <div key={unit.id} className="bg-white rounded-xl p-2 space-y-1 border border-slate-200">
+                <div className="flex items-center gap-2">
+                  <input value={unit.name} onChange={e => onChange(p => renameUnit(p, unit.id, e.target.value))} className="flex-1 min-w-0 bg-transparent text-xs font-bold" />
+                  <button title="Elimina unità" onClick={() => onChange(p => removeUnit(p, unit.id))} className="text-slate-400 hover:text-red-500 px-1 text-xs">✕</button>
+                </div>
+                <div className="flex justify-between items-center gap-2 text-[9px] font-black uppercase text-slate-400">
+                  <span>{totals?.environmentCount ?? 0} amb. · Carico {totals?.requiredWatts ?? 0} W</span>
+                  {floors.length > 1 && (
+                    <select value="" onChange={e => copyUnit(unit.id, e.target.value)} className="bg-slate-100 rounded-full px-2 py-0.5 uppercase">
+                      <option value="">Copia su…</option>
+                      {floors.filter(f => f.id !== floor.id).map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                      <option value={ALL_FLOORS}>Tutti gli altri piani</option>
+                    </select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <button onClick={() => onChange(p => addUnit(p, floor.id))} className="text-[10px] bg-white px-3 py-1 rounded-full font-black uppercase">+ Unità</button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center">
+        <button onClick={() => onChange(addFloor)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Piano</button>
+        {floors.length > 0 && <span className="text-[10px] font-black uppercase text-slate-500">Totale {summary.totals.requiredWatts} W</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+
+import React, { useMemo, useState } from 'react';
+import { RadiatorModel, RadiatorSeries, CatalogueImportResult } from '../types';
+import { getSeriesOptions, getAllModels, isBuiltinCode, validateModel, findDuplicateCodes, parseLengths, parseCatalogueCsv, parseCatalogueJson, mergeCatalogue, exportCatalogueCsv, exportCatalogueJson, getModelSeries } from '../services/catalogue';
+import { downloadFile } from '../services/download';
+
+interface CatalogueManagerProps {
+  customModels: RadiatorModel[];
+  onChange: (models: RadiatorModel[]) => void;
+}
+
+const EMPTY_MODEL: RadiatorModel = {
+  label: '',
+  code: '',
+  height: 0,
+  interaxis: 0,
+  watts: 0,
+  brand: '',
+  series: ''
+};
+
+const NUMBER_FIELDS: { field: keyof RadiatorModel; label: string; step?: string }[] = [
+  { field: 'height', label: 'Altezza (mm)' },
+  { field: 'interaxis', label: 'Interasse (mm)' },
+  { field: 'watts', label: 'Resa ΔT50 (W/el.)', step: '0.1' },
+  { field: 'exponent', label: 'Esponente n', step: '0.01' },
+  { field: 'elementWidth', label: 'Largh. El. (mm)' },
+  { field: 'depth', label: 'Profondità (mm)' },
+  { field: 'waterContent', label: 'Acqua (l/el.)', step: '0.01' },
+  { field: 'weight', label: 'Peso (kg/el.)', step: '0.01' },
+  { field: 'price', label: 'Prezzo (€/el. o €/m)', step: '0.01' }
+];
+
+export const CatalogueManager: React.FC<CatalogueManagerProps> = ({ customModels, onChange }) => {
+  const [draft, setDraft] = useState<RadiatorModel>(EMPTY_MODEL);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [lengthsText, setLengthsText] = useState('');
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<CatalogueImportResult | null>(null);
+
+  const seriesOptions = useMemo(() => getSeriesOptions(customModels), [customModels]);
+  const duplicateCodes = useMemo(() => new Set(findDuplicateCodes(getAllModels(customModels))), [customModels]);
+
+  const setNumber = (field: keyof RadiatorModel, value: string) => {
+    setDraft({ ...draft, [field]: value === '' ? undefined : Number(value) });
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_MODEL);
+    setLengthsText('');
+    setEditingId(null);
+    setFormErrors([]);
+  };
+
+  const handleSave = () => {
+    const fixedLengths = lengthsText.trim() ? parseLengths(lengthsText.trim()) : undefined;
+    const errors = validateModel({ ...draft, fixedLengths });
+    const clash = getAllModels(customModels).some(m => (!m.id || m.id !== editingId) && m.code.trim().toUpperCase() === draft.code.trim().toUpperCase());
+    if (clash) errors.push(`Codice "${draft.code}" già presente a catalogo`);
+    if (errors.length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+    const model: RadiatorModel = { ...draft, fixedLengths, series: draft.series?.trim() || RadiatorSeries.CUSTOM };
+    if (editingId) {
+      onChange(customModels.map(m => m.id === editingId ? { ...model, id: editingId } : m));
+    } else {
+      onChange([...customModels, { ...model, id: Math.random().toString(36).substr(2, 9) }]);
+    }
+    resetForm();
+  };
+
+  const handleEdit = (model: RadiatorModel) => {
+    setDraft({ ...EMPTY_MODEL, ...model });
+    setLengthsText(model.fixedLengths?.join(' ') || '');
+    setEditingId(model.id || null);
+    setFormErrors([]);
+  };
+
+  const handleDelete = (model: RadiatorModel) => {
+    if (!window.confirm(`Eliminare il modello ${model.code}?`)) return;
+    onChange(customModels.filter(m => m.id !== model.id));
+    if (editingId === model.id) resetForm();
+  };
+
+  const handleImportFile = async (file: File) => {
+    const text = await file.text();
+    const result = file.name.toLowerCase().endsWith('.csv')
+      ? parseCatalogueCsv(text, customModels)
+      : parseCatalogueJson(text, customModels);
+    setPendingImport(result);
+  };
+
+  const confirmImport = (replaceDuplicates: boolean) => {
+    if (!pendingImport) return;
+    onChange(mergeCatalogue(customModels, pendingImport.models, replaceDuplicates));
+    setPendingImport(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 bg-white border border-slate-200 p-6 rounded-2xl">
+        <div className="grid grid-cols-2 gap-3">
+          <input placeholder="Marchio" value={draft.brand || ''} onChange={e => setDraft({ ...draft, brand: e.target.value })} className="w-full border rounded-xl p-3 text-sm" />
+          <input placeholder="Gamma" list="catalogue-series" value={draft.series || ''} onChange={e => setDraft({ ...draft, series: e.target.value })} className="w-full border rounded-xl p-3 text-sm" />
+          <datalist id="catalogue-series">
+            {seriesOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </datalist>
+          <input placeholder="Codice" value={draft.code} onChange={e => setDraft({ ...draft, code: e.target.value })} className="w-full border rounded-xl p-3 text-sm" />
+          <input placeholder="Modello" value={draft.label} onChange={e => setDraft({ ...draft, label: e.target.value })} className="w-full border rounded-xl p-3 text-sm" />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          {NUMBER_FIELDS.map(({ field, label, step }) => (
+            <div key={field} className="space-y-1">
+              <label className="text-[9px] font-black text-slate-400 uppercase">{label}</label>
+              <input type="number" step={step} value={(draft[field] as number | undefined) ?? ''} onChange={e => setNumber(field, e.target.value)} className="w-full border rounded-xl p-2 text-sm" />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black text-slate-400 uppercase">Lunghezze Fisse Pannello (mm, separate da spazio) — la resa diventa W/m</label>
+          <input placeholder="es. 400 600 800 1000" value={lengthsText} onChange={e => setLengthsText(e.target.value)} className="w-full border rounded-xl p-2 text-sm" />
+        </div>
+        {formErrors.length > 0 && (
+          <ul className="bg-red-50 border border-red-100 rounded-xl p-3 text-[11px] text-red-600 font-bold space-y-1">
+            {formErrors.map(err => <li key={err}>{err}</li>)}
+          </ul>
+        )}
+        <div className="flex gap-3">
+          <button onClick={handleSave} className="flex-1 bg-slate-900 text-white py-3 rounded-xl font-bold">{editingId ? 'Salva Modifiche' : 'Aggiungi'}</button>
+          {editingId && <button onClick={resetForm} className="bg-slate-100 text-slate-600 px-6 py-3 rounded-xl font-bold">Annulla</button>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase cursor-pointer">
+          Importa JSON/CSV
+          <input type="file" accept=".json,.csv" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleImportFile(f); e.target.value = ''; }} />
+        </label>
+        <button onClick={() => downloadFile('catalogo-radiatori.json', exportCatalogueJson(customModels), 'application/json')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta JSON</button>
+        <button onClick={() => downloadFile('catalogo-radiatori.csv', exportCatalogueCsv(customModels), 'text/csv')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta CSV</button>
+      </div>
+
+      {pendingImport && (
+        <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-3 text-xs">
+          <p className="font-black uppercase text-slate-700">Importazione: {pendingImport.models.length} modelli validi</p>
+          {pendingImport.errors.length > 0 && (
+            <ul className="text-red-600 space-y-1 max-h-32 overflow-y-auto">
+              {pendingImport.errors.map((err, i) => <li key={i}>Riga {err.row}{err.code ? ` (${err.code})` : ''}: {err.message}</li>)}
+            </ul>
+          )}
+          {pendingImport.duplicates.length > 0 && (
+            <p className="text-orange-600 font-bold">
+              Codici duplicati: {pendingImport.duplicates.join(', ')}
+              {pendingImport.duplicates.some(isBuiltinCode) && <span className="block font-normal">I codici del catalogo predefinito non vengono importati né sostituiti.</span>}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button disabled={pendingImport.models.length === 0} onClick={() => confirmImport(false)} className="bg-slate-900 text-white px-4 py-2 rounded-xl font-bold disabled:opacity-30">Importa (ignora duplicati)</button>
+            {pendingImport.duplicates.length > 0 && (
+              <button onClick={() => confirmImport(true)} className="bg-orange-500 text-white px-4 py-2 rounded-xl font-bold">Importa (sostituisci duplicati)</button>
+            )}
+            <button onClick={() => setPendingImport(null)} className="bg-slate-200 text-slate-600 px-4 py-2 rounded-xl font-bold">Annulla</button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-[320px] overflow-y-auto border border-slate-200 rounded-2xl">
+        <table className="w-full text-left text-[11px]">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr>
+              <th className="py-2 px-3">Gamma</th>
+              <th className="py-2 px-3">Codice</th>
+              <th className="py-2 px-3">H / Int</th>
+              <th className="py-2 px-3">W</th>
+              <th className="py-2 px-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {customModels.length === 0 && (
+              <tr><td colSpan={5} className="py-4 px-3 text-slate-400 italic">Nessun modello personalizzato.</td></tr>
+            )}
+            {customModels.map(m => (
+              <tr key={m.id} className={`border-t border-slate-100 ${editingId === m.id ? 'bg-slate-100' : ''}`}>
+                <td className="py-2 px-3">{m.brand} {getModelSeries(m)}</td>
+                <td className={`py-2 px-3 font-bold ${duplicateCodes.has(m.code) ? 'text-red-600' : ''}`}>{m.code}</td>
+                <td className="py-2 px-3">{m.height} / {m.interaxis}</td>
+                <td className="py-2 px-3">{m.watts}</td>
+                <td className="py-2 px-3 text-right whitespace-nowrap">
+                  <button onClick={() => handleEdit(m)} className="text-slate-500 font-black uppercase mr-3">Modifica</button>
+                  <button onClick={() => handleDelete(m)} className="text-red-500 font-black uppercase">Elimina</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { RadiatorSpecs, HeatLossMethod, HeatLossParams, EnvelopeSurface, EnvelopeSurfaceType, Orientation, CalculationResult } from '../types';
+import { HEAT_LOSS_METHOD_LABELS, SURFACE_TYPE_LABELS, DEFAULT_U_VALUES, INITIAL_HEAT_LOSS } from '../constants';
+
+interface HeatLossEditorProps {
+  specs: RadiatorSpecs;
+  calculation: CalculationResult;
+  onChange: <K extends keyof RadiatorSpecs>(field: K, value: RadiatorSpecs[K]) => void;
+}
+
+export const HeatLossEditor: React.FC<HeatLossEditorProps> = ({ specs, calculation, onChange }) => {
+  const method = specs.heatLossMethod ?? HeatLossMethod.QUICK;
+  const params = specs.heatLoss ?? INITIAL_HEAT_LOSS;
+
+  const updateParams = (patch: Partial<HeatLossParams>) => {
+    onChange('heatLoss', { ...params, ...patch });
+  };
+
+  const updateSurface = (id: string, patch: Partial<EnvelopeSurface>) => {
+    updateParams({ surfaces: params.surfaces.map(s => s.id === id ? { ...s, ...patch } : s) });
+  };
+
+  const addSurface = () => {
+    const surface: EnvelopeSurface = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: EnvelopeSurfaceType.WALL,
+      area: 0,
+      uValue: DEFAULT_U_VALUES[EnvelopeSurfaceType.WALL],
+      orientation: Orientation.N
+    };
+    updateParams({ surfaces: [...params.surfaces, surface] });
+  };
+
+  const removeSurface = (id: string) => {
+    updateParams({ surfaces: params.surfaces.filter(s => s.id !== id) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <label className="text-[10px] font-black text-slate-400 uppercase">Metodo di Calcolo</label>
+        <select value={method} onChange={e => onChange('heatLossMethod', e.target.value as HeatLossMethod)} className="w-full bg-slate-50 rounded-xl p-4 font-bold">
+          {Object.values(HeatLossMethod).map(m => <option key={m} value={m}>{HEAT_LOSS_METHOD_LABELS[m]}</option>)}
+        </select>
+      </div>
+
+      {method === HeatLossMethod.DETAILED && (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">T. Interna (°C)</label><input type="number" value={params.internalTemp} onChange={e => updateParams({ internalTemp: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">T. Esterna (°C)</label><input type="number" value={params.externalTemp} onChange={e => updateParams({ externalTemp: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Ricambi (vol/h)</label><input type="number" step="0.1" value={params.airChangeRate} onChange={e => updateParams({ airChangeRate: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-4 font-bold" /></div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] font-black text-slate-400 uppercase">Superfici Disperdenti</span>
+              <button onClick={addSurface} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Superficie</button>
+            </div>
+            {params.surfaces.length === 0 && (
+              <p className="text-xs text-slate-400 italic">Nessuna superficie inserita.</p>
+            )}
+            {params.surfaces.map(s => (
+              <div key={s.id} className="grid grid-cols-12 gap-2 items-center bg-slate-50 p-2 rounded-xl">
+                <select value={s.type} onChange={e => { const type = e.target.value as EnvelopeSurfaceType; updateSurface(s.id, { type, uValue: DEFAULT_U_VALUES[type] }); }} className="col-span-3 bg-white rounded-lg p-2 text-xs font-bold">
+                  {Object.values(EnvelopeSurfaceType).map(t => <option key={t} value={t}>{SURFACE_TYPE_LABELS[t]}</option>)}
+                </select>
+                <input type="number" title="Area (m²)" placeholder="m²" value={s.area || ''} onChange={e => updateSurface(s.id, { area: Number(e.target.value) })} className="col-span-2 bg-white rounded-lg p-2 text-xs font-bold" />
+                <input type="number" step="0.01" title="Trasmittanza U (W/m²K)" placeholder="U" value={s.uValue || ''} onChange={e => updateSurface(s.id, { uValue: Number(e.target.value) })} className="col-span-2 bg-white rounded-lg p-2 text-xs font-bold" />
+                <select value={s.orientation} onChange={e => updateSurface(s.id, { orientation: e.target.value as Orientation })} className="col-span-2 bg-white rounded-lg p-2 text-xs font-bold">
+                  {Object.values(Orientation).map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+                <input type="number" title="T. lato opposto (°C), vuoto = esterno" placeholder="T adiac." value={s.adjacentTemp ?? ''} onChange={e => updateSurface(s.id, { adjacentTemp: e.target.value === '' ? undefined : Number(e.target.value) })} className="col-span-2 bg-white rounded-lg p-2 text-xs font-bold" />
+                <button onClick={() => removeSurface(s.id)} className="col-span-1 text-slate-400 hover:text-red-500 font-black">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-xs">
+            <div className="bg-slate-50 p-3 rounded-xl flex justify-between"><span className="text-slate-500">Trasmissione</span><b>{Math.round(calculation.transmissionWatts || 0)} W</b></div>
+            <div className="bg-slate-50 p-3 rounded-xl flex justify-between"><span className="text-slate-500">Ventilazione</span><b>{Math.round(calculation.ventilationWatts || 0)} W</b></div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
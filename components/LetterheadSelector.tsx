@@ -0,0 +1,153 @@
+
+import React, { useState } from 'react';
+import { Letterhead } from '../types';
+
+// Le immagini sono salvate nel localStorage insieme ai progetti: al caricamento vengono ridotte
+// (lato lungo max IMAGE_MAX_SIDE px, sufficienti per la stampa di logo e firma) e ricodificate
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const IMAGE_MAX_SIDE = 800;
+const MAX_STORED_IMAGE_BYTES = 150 * 1024; // Oltre, il PNG viene ricodificato in JPEG
+const JPEG_QUALITY = 0.85;
+
+const EMPTY_LETTERHEAD: Omit<Letterhead, 'id'> = {
+  companyName: '',
+  vatNumber: '',
+  address: '',
+  phone: '',
+  email: '',
+  website: ''
+};
+
+const TEXT_FIELDS: { field: keyof typeof EMPTY_LETTERHEAD; label: string }[] = [
+  { field: 'companyName', label: 'Ragione Sociale' },
+  { field: 'vatNumber', label: 'Partita IVA' },
+  { field: 'address', label: 'Indirizzo' },
+  { field: 'phone', label: 'Telefono' },
+  { field: 'email', label: 'Email' },
+  { field: 'website', label: 'Sito Web' }
+];
+
+const loadImage = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => { URL.revokeObjectURL(url); resolve(image); };
+  image.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Immagine non leggibile')); };
+  image.src = url;
+});
+
+// PNG per conservare la trasparenza; JPEG su fondo bianco se il PNG resta troppo pesante
+const readImage = async (file: File): Promise<string> => {
+  if (file.size > MAX_UPLOAD_BYTES) throw new Error(`Immagine troppo grande (max ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)`);
+  const image = await loadImage(file);
+  const scale = Math.min(1, IMAGE_MAX_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Immagine non leggibile');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const png = canvas.toDataURL('image/png');
+  if (png.length <= MAX_STORED_IMAGE_BYTES) return png;
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const jpeg = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  if (jpeg.length > MAX_STORED_IMAGE_BYTES) throw new Error('Immagine troppo complessa anche dopo la riduzione: usare un file più semplice');
+  return jpeg;
+};
+
+interface LetterheadSelectorProps {
+  letterheads: Letterhead[];
+  selectedId?: string;
+  onSelect: (id: string | undefined) => void;
+}
+
+export const LetterheadSelector: React.FC<LetterheadSelectorProps> = ({ letterheads, selectedId, onSelect }) => (
+  <select value={selectedId ?? ''} onChange={e => onSelect(e.target.value || undefined)} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold">
+    <option value="">Nessuna intestazione</option>
+    {letterheads.map(l => <option key={l.id} value={l.id}>{l.companyName || 'Senza nome'}</option>)}
+  </select>
+);
+
+interface LetterheadManagerProps {
+  letterheads: Letterhead[];
+  onChange: (letterheads: Letterhead[]) => void;
+}
+
+export const LetterheadManager: React.FC<LetterheadManagerProps> = ({ letterheads, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(letterheads[0]?.id ?? null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const editing = letterheads.find(l => l.id === editingId);
+
+  const update = (patch: Partial<Letterhead>) => {
+    if (!editing) return;
+    onChange(letterheads.map(l => l.id === editing.id ? { ...l, ...patch } : l));
+  };
+
+  const addLetterhead = () => {
+    const letterhead: Letterhead = { ...EMPTY_LETTERHEAD, id: Math.random().toString(36).substr(2, 9) };
+    onChange([...letterheads, letterhead]);
+    setEditingId(letterhead.id);
+  };
+
+  const removeLetterhead = (letterhead: Letterhead) => {
+    if (!window.confirm(`Eliminare la carta intestata ${letterhead.companyName || 'senza nome'}?`)) return;
+    const remaining = letterheads.filter(l => l.id !== letterhead.id);
+    onChange(remaining);
+    setEditingId(remaining[0]?.id ?? null);
+  };
+
+  const handleImage = async (field: 'logo' | 'signature', file: File) => {
+    try {
+      update({ [field]: await readImage(file) });
+      setImageError(null);
+    } catch (err) {
+      setImageError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {letterheads.map(l => (
+          <button key={l.id} onClick={() => setEditingId(l.id)} className={`text-[10px] px-3 py-2 rounded-full font-black uppercase ${l.id === editingId ? 'bg-slate-900 text-white' : 'bg-slate-100'}`}>
+            {l.companyName || 'Senza nome'}
+          </button>
+        ))}
+        <button onClick={addLetterhead} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">+ Nuova</button>
+      </div>
+
+      {editing && (
+        <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {TEXT_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">{label}</label>
+                <input value={editing[field]} onChange={e => update({ [field]: e.target.value })} className="w-full border rounded-xl p-2 text-sm" />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {(['logo', 'signature'] as const).map(field => (
+              <div key={field} className="space-y-2">
+                <label className="text-[9px] font-black text-slate-400 uppercase">{field === 'logo' ? 'Logo' : 'Timbro e Firma'}</label>
+                <div className="h-20 bg-white border rounded-xl flex items-center justify-center overflow-hidden">
+                  {editing[field] ? <img src={editing[field]} alt={field} className="max-h-full max-w-full object-contain" /> : <span className="text-[10px] text-slate-300">Nessuna immagine</span>}
+                </div>
+                <div className="flex gap-2">
+                  <label className="text-[10px] bg-white border px-3 py-1 rounded-full font-black uppercase cursor-pointer">
+                    Carica
+                    <input type="file" accept="image/*" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleImage(field, f); e.target.value = ''; }} />
+                  </label>
+                  {editing[field] && <button onClick={() => update({ [field]: undefined })} className="text-[10px] text-red-500 font-black uppercase">Rimuovi</button>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {imageError && <p className="text-[11px] text-red-600 font-bold">{imageError}</p>}
+          <button onClick={() => removeLetterhead(editing)} className="text-[10px] text-red-500 font-black uppercase">Elimina carta intestata</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Project, CircuitType } from '../types';
+import { CIRCUIT_TYPE_LABELS } from '../constants';
+import { addManifold, updateManifold, removeManifold, outletRadiators } from '../services/topology';
+import { radiatorLabel, listRadiators } from '../services/radiators';
+
+interface ManifoldEditorProps {
+  project: Project;
+  onChange: (updater: (p: Project) => Project) => void;
+}
+
+export const ManifoldEditor: React.FC<ManifoldEditorProps> = ({ project, onChange }) => {
+  const manifolds = project.manifolds ?? [];
+
+  const deleteManifold = (id: string, name: string) => {
+    if (!window.confirm(`Eliminare ${name}? I radiatori collegati restano senza allacciamento.`)) return;
+    onChange(p => removeManifold(p, id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {manifolds.map(manifold => {
+        const outletLabel = manifold.circuitType === CircuitType.MONOTUBE ? 'Anello' : 'Uscita';
+        return (
+          <div key={manifold.id} className="bg-slate-50 rounded-2xl p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input value={manifold.name} onChange={e => onChange(p => updateManifold(p, manifold.id, { name: e.target.value }))} className="flex-1 min-w-0 bg-transparent text-sm font-black" />
+              <button title="Elimina collettore" onClick={() => deleteManifold(manifold.id, manifold.name)} className="text-slate-400 hover:text-red-500 px-1">✕</button>
+            </div>
+            <input placeholder="Posizione (es. bagno piano primo)" value={manifold.location ?? ''} onChange={e => onChange(p => updateManifold(p, manifold.id, { location: e.target.value }))} className="w-full bg-white rounded-lg p-2 text-xs" />
+            <div className="flex gap-2 text-xs">
+              <select value={manifold.circuitType} onChange={e => onChange(p => updateManifold(p, manifold.id, { circuitType: e.target.value as CircuitType }))} className="flex-1 bg-white rounded-lg p-2 font-bold">
+                {Object.values(CircuitType).map(t => <option key={t} value={t}>{CIRCUIT_TYPE_LABELS[t]}</option>)}
+              </select>
+              <input type="number" min={1} title={manifold.circuitType === CircuitType.MONOTUBE ? 'Numero di anelli' : 'Numero di uscite'} value={manifold.outlets} onChange={e => onChange(p => updateManifold(p, manifold.id, { outlets: Math.max(1, Math.round(Number(e.target.value) || 1)) }))} className="w-16 bg-white rounded-lg p-2 font-bold text-center" />
+            </div>
+            <div className="space-y-0.5">
+              {Array.from({ length: manifold.outlets }, (_, i) => i + 1).map(outlet => {
+                const connected = outletRadiators(project, manifold.id, outlet);
+                return (
+                  <p key={outlet} className="text-[10px] flex gap-2">
+                    <span className="font-black text-slate-400 shrink-0">{outletLabel} {outlet}</span>
+                    <span className={`truncate ${connected.length ? 'font-bold' : 'text-slate-300 italic'}`}>
+                      {connected.length ? connected.map(({ env, radiator }) => radiatorLabel(env, radiator, listRadiators(env).length)).join(' → ') : 'libera'}
+                    </span>
+                  </p>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex gap-2">
+        <button onClick={() => onChange(p => addManifold(p, CircuitType.TWO_PIPE))} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Collettore</button>
+        <button onClick={() => onChange(p => addManifold(p, CircuitType.MONOTUBE))} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Monotubo</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+
+import React, { useMemo, useState } from 'react';
+import { RadiatorSpecs, RadiatorModel, GlobalSettings, SystemTemperatures, OptimizerProposal, OptimizerSortKey } from '../types';
+import { optimiseRadiator } from '../services/optimizer';
+
+interface OptimizerPanelProps {
+  specs: RadiatorSpecs;
+  settings: GlobalSettings;
+  customModels: RadiatorModel[];
+  projectTemps?: SystemTemperatures;
+  assignedWatts?: number; // Quota di fabbisogno se il locale ha più radiatori
+  onApply: (proposal: OptimizerProposal) => void;
+  onClose: () => void;
+}
+
+const SORT_LABELS: Record<OptimizerSortKey, string> = {
+  [OptimizerSortKey.OVERSIZE]: 'Sovradimensionamento',
+  [OptimizerSortKey.WIDTH]: 'Ingombro',
+  [OptimizerSortKey.COST]: 'Costo',
+  [OptimizerSortKey.WATER]: 'Contenuto Acqua'
+};
+
+export const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ specs, settings, customModels, projectTemps, assignedWatts, onApply, onClose }) => {
+  const [sortKey, setSortKey] = useState<OptimizerSortKey>(OptimizerSortKey.OVERSIZE);
+
+  const proposals = useMemo(
+    () => optimiseRadiator(specs, settings, customModels, projectTemps, sortKey, assignedWatts),
+    [specs, settings, customModels, projectTemps, sortKey, assignedWatts]
+  );
+
+  return (
+    <div className="col-span-2 bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <span className="text-[10px] font-black text-slate-900 uppercase tracking-widest">Proposte ({proposals.length})</span>
+        <div className="flex items-center gap-2">
+          <select value={sortKey} onChange={e => setSortKey(e.target.value as OptimizerSortKey)} className="bg-white rounded-lg p-2 text-xs font-bold">
+            {Object.values(OptimizerSortKey).map(k => <option key={k} value={k}>Ordina per: {SORT_LABELS[k]}</option>)}
+          </select>
+          <button onClick={onClose} className="bg-white p-2 rounded-full text-slate-600 text-xs">✕</button>
+        </div>
+      </div>
+
+      {proposals.length === 0 ? (
+        <p className="text-xs text-red-600 font-bold">Nessuna configurazione a catalogo rientra nella nicchia con la resa richiesta.</p>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto space-y-2">
+          {proposals.map(p => (
+            <div key={`${p.model.series}-${p.model.code}`} className="bg-white rounded-xl p-3 flex justify-between items-center gap-3 text-xs">
+              <div className="space-y-1">
+                <p className="font-black text-slate-900">{p.model.brand} {p.sizing.series} — {p.model.label}</p>
+                <p className="text-slate-500">
+                  H {p.model.height} / Int {p.model.interaxis} · {p.sizing.isPanel ? `L ${p.sizing.bodyLength} mm` : `${p.sizing.currentElements} el.`} · Ingombro {p.sizing.totalOccupiedWidth} mm
+                </p>
+                <p className="text-slate-500">
+                  {p.sizing.totalWatts} W (+{p.oversizePercent.toFixed(1)}%)
+                  {p.cost !== undefined && <> · € {p.cost.toFixed(2)}</>}
+                  {p.waterContent !== undefined && <> · {p.waterContent.toFixed(1)} l</>}
+                </p>
+                {p.warnings.map(w => <p key={w} className="text-[10px] font-black text-orange-500 uppercase">{w}</p>)}
+              </div>
+              <button onClick={() => onApply(p)} className="bg-slate-900 text-white px-4 py-2 rounded-xl font-bold shrink-0">Applica</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { PlantSettings, GeneratorType } from '../types';
+import { GENERATOR_TYPE_LABELS } from '../constants';
+import { PlantSummary, plantSummarySections } from '../services/plantSizing';
+
+interface PlantSettingsEditorProps {
+  settings: PlantSettings;
+  onChange: (settings: PlantSettings) => void;
+}
+
+export const PlantSettingsEditor: React.FC<PlantSettingsEditorProps> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Generatore</label>
+      <select value={settings.generatorType} onChange={e => onChange({ ...settings, generatorType: e.target.value as GeneratorType })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold">
+        {Object.values(GeneratorType).map(t => <option key={t} value={t}>{GENERATOR_TYPE_LABELS[t]}</option>)}
+      </select>
+    </div>
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Quota ACS (W)</label>
+      <input type="number" step="100" value={settings.dhwAllowance || ''} onChange={e => onChange({ ...settings, dhwAllowance: Math.max(0, Number(e.target.value)) })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" />
+    </div>
+    <div className="space-y-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase">Acqua nel Generatore (l)</label>
+      <input type="number" step="0.5" value={settings.generatorWaterContent || ''} onChange={e => onChange({ ...settings, generatorWaterContent: Math.max(0, Number(e.target.value)) })} className="w-full bg-slate-50 rounded-xl p-3 text-sm font-bold" />
+    </div>
+  </div>
+);
+
+interface PlantSummaryTableProps {
+  summary: PlantSummary;
+  compact?: boolean; // Versione per la stampa
+}
+
+export const PlantSummaryTable: React.FC<PlantSummaryTableProps> = ({ summary, compact = false }) => {
+  const row = compact ? 'py-2 text-[11px]' : 'py-3 text-sm';
+
+  return (
+    <div className={`grid grid-cols-1 ${compact ? 'gap-8' : 'md:grid-cols-2 gap-8'}`}>
+      {plantSummarySections(summary).map(section => (
+        <div key={section.title}>
+          <h5 className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">{section.title}</h5>
+          {section.rows.map(([label, value]) => (
+            <p key={label} className={`${row} flex justify-between border-b border-slate-100`}><span>{label}</span> <b>{value}</b></p>
+          ))}
+          {section.note && <p className="text-[10px] text-amber-600 mt-2">{section.note}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+
+import React from 'react';
+import { PriceList, PipePrice } from '../types';
+import { PIPE_MATERIALS, PIPE_DIAMETERS } from '../constants';
+
+interface PriceListEditorProps {
+  priceList: PriceList;
+  onChange: (priceList: PriceList) => void;
+}
+
+const ACCESSORY_FIELDS: { field: keyof Omit<PriceList, 'pipes'>; label: string }[] = [
+  { field: 'valve', label: 'Valvola (€)' },
+  { field: 'lockshield', label: 'Detentore (€)' },
+  { field: 'eccentricPair', label: 'Coppia Eccentrici (€)' },
+  { field: 'diaphragmKit', label: 'Kit Diaframma (€)' },
+  { field: 'bracket', label: 'Staffa (€)' },
+  { field: 'labourPerRadiator', label: 'Posa Radiatore (€)' },
+  { field: 'vatRate', label: 'IVA Predefinita (%)' }
+];
+
+export const PriceListEditor: React.FC<PriceListEditorProps> = ({ priceList, onChange }) => {
+  const updatePipe = (index: number, patch: Partial<PipePrice>) => {
+    onChange({ ...priceList, pipes: priceList.pipes.map((p, i) => i === index ? { ...p, ...patch } : p) });
+  };
+
+  const addPipe = () => {
+    onChange({ ...priceList, pipes: [...priceList.pipes, { material: PIPE_MATERIALS[1], diameter: PIPE_DIAMETERS[1], pricePerMeter: 0 }] });
+  };
+
+  const removePipe = (index: number) => {
+    onChange({ ...priceList, pipes: priceList.pipes.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200 space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        {ACCESSORY_FIELDS.map(({ field, label }) => (
+          <div key={field} className="space-y-1">
+            <label className="text-[9px] font-black text-slate-400 uppercase">{label}</label>
+            <input type="number" step="0.01" value={priceList[field]} onChange={e => onChange({ ...priceList, [field]: Number(e.target.value) })} className="w-full border rounded-xl p-2 text-sm font-bold" />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-[9px] font-black text-slate-400 uppercase">Tubazioni (€/m)</span>
+          <button onClick={addPipe} className="text-[10px] bg-white px-3 py-1 rounded-full font-black uppercase">+ Tubo</button>
+        </div>
+        {priceList.pipes.map((pipe, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2 items-center">
+            <select value={pipe.material} onChange={e => updatePipe(i, { material: e.target.value })} className="col-span-4 bg-white rounded-lg p-2 text-xs font-bold">
+              {PIPE_MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <select value={pipe.diameter} onChange={e => updatePipe(i, { diameter: e.target.value })} className="col-span-4 bg-white rounded-lg p-2 text-xs font-bold">
+              {PIPE_DIAMETERS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            <input type="number" step="0.01" value={pipe.pricePerMeter} onChange={e => updatePipe(i, { pricePerMeter: Number(e.target.value) })} className="col-span-3 bg-white rounded-lg p-2 text-xs font-bold" />
+            <button onClick={() => removePipe(i)} className="col-span-1 text-slate-400 hover:text-red-500 font-black">✕</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { Letterhead } from '../types';
+
+const DEFAULT_BRAND = 'HeatMaster ArchQuote';
+
+export const LetterheadHeader: React.FC<{ letterhead?: Letterhead }> = ({ letterhead }) => {
+  if (!letterhead) return null;
+  const contacts = [letterhead.phone, letterhead.email, letterhead.website].filter(Boolean).join(' · ');
+  return (
+    <div className="flex justify-between items-center gap-6 mb-8 pb-4 border-b border-slate-200">
+      {letterhead.logo && <img src={letterhead.logo} alt={letterhead.companyName} className="max-h-14 max-w-[45%] object-contain" />}
+      <div className="text-right text-[9px] leading-relaxed text-slate-500 ml-auto">
+        <p className="text-xs font-black uppercase tracking-widest text-slate-900">{letterhead.companyName}</p>
+        {letterhead.address && <p>{letterhead.address}</p>}
+        {contacts && <p>{contacts}</p>}
+        {letterhead.vatNumber && <p>P.IVA {letterhead.vatNumber}</p>}
+      </div>
+    </div>
+  );
+};
+
+interface LetterheadFooterProps {
+  letterhead?: Letterhead;
+  signatureLabel?: string; // Se presente mostra lo spazio firma
+  showSignatureImage?: boolean; // Timbro e firma del progettista dalla carta intestata
+}
+
+export const LetterheadFooter: React.FC<LetterheadFooterProps> = ({ letterhead, signatureLabel, showSignatureImage = false }) => (
+  <footer className="mt-auto pt-8 border-t flex justify-between items-end gap-6">
+    {signatureLabel ? (
+      <div className="space-y-2">
+        {showSignatureImage && letterhead?.signature && <img src={letterhead.signature} alt={signatureLabel} className="max-h-20 max-w-48 object-contain" />}
+        <div className="w-48 h-px bg-slate-900"></div>
+        <p className="text-[9px] uppercase font-black tracking-widest text-slate-500">{signatureLabel}</p>
+      </div>
+    ) : <div />}
+    <div className="text-right">
+      <p className="text-[10px] font-black uppercase tracking-widest">{letterhead?.companyName || DEFAULT_BRAND}</p>
+      {letterhead?.vatNumber && <p className="text-[8px] text-slate-400">P.IVA {letterhead.vatNumber}</p>}
+    </div>
+  </footer>
+);
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ProjectSnapshot, SnapshotChange, SnapshotKind } from '../types';
+import { SNAPSHOT_KIND_LABELS, SNAPSHOT_CHANGE_LABELS } from '../constants';
+import { RadiatorFigures, SnapshotDiffRow, MAX_MANUAL_SNAPSHOTS } from '../services/snapshots';
+
+interface HistoryControlsProps {
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export const HistoryControls: React.FC<HistoryControlsProps> = ({ undoLabel, redoLabel, onUndo, onRedo }) => (
+  <div className="flex bg-white border border-slate-300 rounded-full shadow-sm overflow-hidden">
+    <button onClick={onUndo} disabled={!undoLabel} title={undoLabel ? `Annulla: ${undoLabel} (Ctrl+Z)` : 'Niente da annullare'} className="px-4 py-2 text-slate-700 font-medium hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white">↶ Annulla</button>
+    <button onClick={onRedo} disabled={!redoLabel} title={redoLabel ? `Ripeti: ${redoLabel} (Ctrl+Y)` : 'Niente da ripetere'} className="px-4 py-2 text-slate-700 font-medium border-l border-slate-200 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white">Ripeti ↷</button>
+  </div>
+);
+
+interface SnapshotPanelProps {
+  snapshots: ProjectSnapshot[]; // Del progetto attivo, dalla più recente
+  onSave: (name: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onDelete: (snapshot: ProjectSnapshot) => void;
+  onCompare: (snapshot: ProjectSnapshot) => SnapshotDiffRow[];
+}
+
+const figuresText = (f?: RadiatorFigures) => f ? `${f.series} · ${f.elements} el. · ${f.totalWatts}/${f.requiredWatts} W` : '—';
+
+const CHANGE_STYLES: Record<SnapshotChange, string> = {
+  [SnapshotChange.ADDED]: 'text-green-600',
+  [SnapshotChange.REMOVED]: 'text-red-600',
+  [SnapshotChange.CHANGED]: 'text-amber-600',
+  [SnapshotChange.UNCHANGED]: 'text-slate-300'
+};
+
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ snapshots, onSave, onRestore, onDelete, onCompare }) => {
+  const [name, setName] = useState('');
+  const [compared, setCompared] = useState<ProjectSnapshot | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const save = () => {
+    const manualCount = snapshots.filter(s => s.kind === SnapshotKind.MANUAL).length;
+    if (manualCount >= MAX_MANUAL_SNAPSHOTS && !window.confirm(`Si conservano al massimo ${MAX_MANUAL_SNAPSHOTS} istantanee manuali: la più vecchia verrà eliminata. Continuare?`)) return;
+    onSave(name);
+    setName('');
+  };
+
+  const restore = (snapshot: ProjectSnapshot) => {
+    if (!window.confirm(`Ripristinare "${snapshot.name}"? Lo stato attuale viene salvato come istantanea automatica.`)) return;
+    onRestore(snapshot);
+    setCompared(null);
+  };
+
+  const rows = compared ? onCompare(compared) : [];
+  const changedCount = rows.filter(r => r.change !== SnapshotChange.UNCHANGED).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input placeholder="Nome istantanea" value={name} onChange={e => setName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') save(); }} className="flex-1 min-w-0 bg-slate-50 rounded-lg p-2 text-xs font-bold" />
+        <button onClick={save} className="text-[10px] bg-slate-900 text-white px-3 py-1 rounded-full font-black uppercase">Salva</button>
+      </div>
+      {snapshots.length === 0 && <p className="text-xs text-slate-400 italic">Nessuna istantanea salvata.</p>}
+      <div className="space-y-2 max-h-[320px] overflow-y-auto">
+        {snapshots.map(s => (
+          <div key={s.id} className="bg-slate-50 rounded-2xl p-3 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 truncate text-sm font-black">{s.name}</span>
+              <button title="Elimina istantanea" onClick={() => onDelete(s)} className="text-slate-400 hover:text-red-500 px-1">✕</button>
+            </div>
+            <p className="text-[10px] text-slate-400">{new Date(s.createdAt).toLocaleString('it-IT')} · {SNAPSHOT_KIND_LABELS[s.kind]}</p>
+            <div className="flex gap-2 pt-1">
+              <button onClick={() => setCompared(s)} className="text-[10px] bg-white px-3 py-1 rounded-full font-black uppercase">Confronta</button>
+              <button onClick={() => restore(s)} className="text-[10px] bg-white px-3 py-1 rounded-full font-black uppercase text-orange-600">Ripristina</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {compared && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center p-6">
+          <div className="bg-white rounded-3xl p-10 max-w-5xl w-full shadow-2xl max-h-[90vh] overflow-y-auto space-y-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900 arch-title">Confronto con "{compared.name}"</h2>
+                <p className="text-xs text-slate-500 mt-1">{new Date(compared.createdAt).toLocaleString('it-IT')} · {changedCount} radiatori con differenze</p>
+              </div>
+              <button onClick={() => setCompared(null)} className="bg-slate-100 p-2 rounded-full text-slate-600">✕</button>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+              <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} /> Mostra anche i radiatori invariati
+            </label>
+            <table className="w-full text-left border-collapse text-sm">
+              <thead>
+                <tr className="bg-slate-100 border-b-2 border-slate-900">
+                  <th className="py-3 px-2 uppercase tracking-tighter">Locale / Radiatore</th>
+                  <th className="py-3 px-2 uppercase tracking-tighter">Istantanea</th>
+                  <th className="py-3 px-2 uppercase tracking-tighter">Attuale</th>
+                  <th className="py-3 px-2 uppercase tracking-tighter">Esito</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.filter(r => showUnchanged || r.change !== SnapshotChange.UNCHANGED).map(r => (
+                  <tr key={r.id} className="border-b border-slate-100">
+                    <td className="py-3 px-2 font-bold">{r.label}</td>
+                    <td className="py-3 px-2 text-xs">{figuresText(r.before)}{r.before && <span className="block text-[10px] text-slate-400">{r.before.model}</span>}</td>
+                    <td className="py-3 px-2 text-xs">{figuresText(r.after)}{r.after && <span className="block text-[10px] text-slate-400">{r.after.model}</span>}</td>
+                    <td className={`py-3 px-2 text-xs font-black uppercase ${CHANGE_STYLES[r.change]}`}>{SNAPSHOT_CHANGE_LABELS[r.change]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {changedCount === 0 && !showUnchanged && <p className="text-xs text-slate-400 italic">Nessuna differenza nei radiatori.</p>}
+            <div className="flex justify-end">
+              <button onClick={() => restore(compared)} className="bg-slate-800 text-white px-8 py-2 rounded-full font-medium hover:bg-slate-700">Ripristina questa istantanea</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+
+import React, { useState } from 'react';
+import { Project, ProjectFile, RadiatorModel, GlobalSettings, ImportConflictMode, Letterhead, RoomTemplate } from '../types';
+import { buildProjectFile, projectFileName, parseProjectFile, findIdCollisions, applyProjectImport, mergeLetterheads } from '../services/projectFile';
+import { mergeCatalogue } from '../services/catalogue';
+import { mergeRoomTemplates } from '../services/roomTemplates';
+import { downloadFile } from '../services/download';
+
+interface ProjectTransferProps {
+  projects: Project[];
+  activeProject: Project;
+  customModels: RadiatorModel[];
+  settings: GlobalSettings;
+  letterheads: Letterhead[];
+  roomTemplates: RoomTemplate[];
+  onImport: (projects: Project[], customModels: RadiatorModel[], letterheads: Letterhead[], roomTemplates: RoomTemplate[], settings?: GlobalSettings) => void;
+}
+
+const MODE_LABELS: Record<ImportConflictMode, string> = {
+  [ImportConflictMode.MERGE]: 'Unisci ambienti',
+  [ImportConflictMode.DUPLICATE]: 'Importa come copia',
+  [ImportConflictMode.REPLACE]: 'Sostituisci'
+};
+
+export const ProjectTransfer: React.FC<ProjectTransferProps> = ({ projects, activeProject, customModels, settings, letterheads, roomTemplates, onImport }) => {
+  const [pending, setPending] = useState<ProjectFile | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [modes, setModes] = useState<Record<string, ImportConflictMode>>({});
+  const [importSettings, setImportSettings] = useState(false);
+
+  const collisions = pending ? findIdCollisions(projects, pending.projects) : [];
+
+  const exportProjects = (list: Project[]) => {
+    const file = buildProjectFile(list, customModels, settings, letterheads, roomTemplates);
+    downloadFile(projectFileName(list), JSON.stringify(file, null, 2), 'application/json');
+  };
+
+  const handleFile = async (file: File) => {
+    const result = parseProjectFile(await file.text());
+    setErrors(result.errors);
+    setPending(result.file);
+    setModes({});
+    setImportSettings(false);
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    onImport(
+      applyProjectImport(projects, pending.projects, modes),
+      mergeCatalogue(customModels, pending.customModels, false),
+      mergeLetterheads(letterheads, pending.letterheads ?? []),
+      mergeRoomTemplates(roomTemplates, pending.roomTemplates ?? []),
+      importSettings ? pending.settings : undefined
+    );
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-3 mt-4 pt-4 border-t border-slate-100">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => exportProjects([activeProject])} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">Esporta</button>
+        <button onClick={() => exportProjects(projects)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">Esporta Tutti</button>
+        <label className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase cursor-pointer">
+          Importa
+          <input type="file" accept=".json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-100 rounded-xl p-3 text-[11px] text-red-600 font-bold space-y-1">
+          {errors.map(err => <li key={err}>{err}</li>)}
+        </ul>
+      )}
+
+      {pending && (
+        <div className="bg-slate-50 border border-slate-200 rounded-2xl p-3 space-y-3 text-xs">
+          <p className="font-black uppercase text-slate-700">{pending.projects.length} progetti, {pending.customModels.length} modelli, {pending.roomTemplates?.length ?? 0} modelli di locale</p>
+          {collisions.map(id => {
+            const p = pending.projects.find(x => x.id === id)!;
+            return (
+              <div key={id} className="space-y-1">
+                <p className="font-bold text-orange-600">Già presente: {p.clientSurname || 'Nuovo'} - {p.siteAddress || 'Senza Indirizzo'}</p>
+                <select value={modes[id] ?? ImportConflictMode.DUPLICATE} onChange={e => setModes({ ...modes, [id]: e.target.value as ImportConflictMode })} className="w-full bg-white rounded-lg p-2 font-bold">
+                  {Object.values(ImportConflictMode).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+                </select>
+              </div>
+            );
+          })}
+          {pending.settings && (
+            <label className="flex items-center gap-2 font-bold text-slate-600">
+              <input type="checkbox" checked={importSettings} onChange={e => setImportSettings(e.target.checked)} className="accent-slate-900" />
+              Importa anche le impostazioni
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button onClick={confirmImport} className="flex-1 bg-slate-900 text-white py-2 rounded-xl font-bold">Conferma</button>
+            <button onClick={() => setPending(null)} className="bg-slate-200 text-slate-600 px-4 py-2 rounded-xl font-bold">Annulla</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
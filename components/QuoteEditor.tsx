@@ -0,0 +1,120 @@
+
+import React, { useMemo } from 'react';
+import { Project, Environment, RadiatorSizing, PriceList, ProjectQuote, QuoteLine, QuoteLineCategory, QuoteLineOverride } from '../types';
+import { QUOTE_CATEGORY_LABELS } from '../constants';
+import { buildGeneratedLines, getProjectQuote, calculateQuoteTotals, lineTotal, formatEuro } from '../services/quote';
+
+interface QuoteEditorProps {
+  project: Project;
+  getRadiators: (env: Environment) => RadiatorSizing[];
+  priceList: PriceList;
+  onChange: (quote: ProjectQuote) => void;
+}
+
+export const QuoteEditor: React.FC<QuoteEditorProps> = ({ project, getRadiators, priceList, onChange }) => {
+  const quote = getProjectQuote(project, priceList);
+  const generated = useMemo(() => buildGeneratedLines(project, getRadiators, priceList), [project, getRadiators, priceList]);
+  const activeLines = [...generated.filter(g => !g.removed).map(g => g.line), ...quote.extraLines];
+  const totals = calculateQuoteTotals(activeLines, quote.discountPercent, quote.vatRate);
+  const removedCount = generated.filter(g => g.removed).length;
+  const envNames = new Map(project.environments.map(e => [e.id, e.name]));
+
+  const setOverride = (id: string, patch: QuoteLineOverride) => {
+    onChange({ ...quote, overrides: { ...quote.overrides, [id]: { ...quote.overrides[id], ...patch } } });
+  };
+
+  const updateExtra = (id: string, patch: Partial<QuoteLine>) => {
+    onChange({ ...quote, extraLines: quote.extraLines.map(l => l.id === id ? { ...l, ...patch } : l) });
+  };
+
+  const updateLine = (line: QuoteLine, patch: Partial<QuoteLine>) => {
+    if (line.environmentId) setOverride(line.id, patch);
+    else updateExtra(line.id, patch);
+  };
+
+  const removeLine = (line: QuoteLine) => {
+    if (line.environmentId) setOverride(line.id, { removed: true });
+    else onChange({ ...quote, extraLines: quote.extraLines.filter(l => l.id !== line.id) });
+  };
+
+  const addExtraLine = (category: QuoteLineCategory) => {
+    const line: QuoteLine = {
+      id: Math.random().toString(36).substr(2, 9),
+      category,
+      description: category === QuoteLineCategory.LABOUR ? 'Manodopera' : '',
+      unit: category === QuoteLineCategory.LABOUR ? 'h' : 'pz',
+      quantity: 1,
+      unitPrice: 0
+    };
+    onChange({ ...quote, extraLines: [...quote.extraLines, line] });
+  };
+
+  const restoreGenerated = () => {
+    onChange({ ...quote, overrides: {} });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="border-b-2 border-slate-900">
+              <th className="py-3 px-2">Ambiente</th>
+              <th className="py-3 px-2">Voce</th>
+              <th className="py-3 px-2">Descrizione</th>
+              <th className="py-3 px-2 text-center">U.M.</th>
+              <th className="py-3 px-2 text-right">Q.tà</th>
+              <th className="py-3 px-2 text-right">Prezzo Unit.</th>
+              <th className="py-3 px-2 text-right">Importo</th>
+              <th className="py-3 px-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {activeLines.map(line => (
+              <tr key={line.id} className="border-b border-slate-100">
+                <td className="py-2 px-2 font-bold">{line.environmentId ? envNames.get(line.environmentId) : '—'}</td>
+                <td className="py-2 px-2 text-slate-500 uppercase text-[10px] font-black">{QUOTE_CATEGORY_LABELS[line.category]}</td>
+                <td className="py-2 px-2"><input value={line.description} onChange={e => updateLine(line, { description: e.target.value })} className="w-full bg-slate-50 rounded-lg p-2 font-bold" /></td>
+                <td className="py-2 px-2 text-center">{line.environmentId ? line.unit : <input value={line.unit} onChange={e => updateLine(line, { unit: e.target.value })} className="w-12 bg-slate-50 rounded-lg p-2 text-center" />}</td>
+                <td className="py-2 px-2 text-right"><input type="number" step="0.01" value={line.quantity} onChange={e => updateLine(line, { quantity: Number(e.target.value) })} className="w-20 bg-slate-50 rounded-lg p-2 text-right font-bold" /></td>
+                <td className="py-2 px-2 text-right"><input type="number" step="0.01" value={Number(line.unitPrice.toFixed(2))} onChange={e => updateLine(line, { unitPrice: Number(e.target.value) })} className="w-24 bg-slate-50 rounded-lg p-2 text-right font-bold" /></td>
+                <td className="py-2 px-2 text-right font-black whitespace-nowrap">{formatEuro(lineTotal(line))}</td>
+                <td className="py-2 px-2 text-right"><button onClick={() => removeLine(line)} className="text-slate-400 hover:text-red-500 font-black">✕</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => addExtraLine(QuoteLineCategory.LABOUR)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Manodopera</button>
+        <button onClick={() => addExtraLine(QuoteLineCategory.OTHER)} className="text-[10px] bg-slate-100 px-3 py-1 rounded-full font-black uppercase">+ Voce Libera</button>
+        {(removedCount > 0 || Object.keys(quote.overrides).length > 0) && (
+          <button onClick={restoreGenerated} className="text-[10px] bg-orange-100 text-orange-700 px-3 py-1 rounded-full font-black uppercase">
+            Ripristina righe calcolate{removedCount > 0 ? ` (${removedCount} rimosse)` : ''}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">Sconto (%)</label><input type="number" step="0.5" value={quote.discountPercent} onChange={e => onChange({ ...quote, discountPercent: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-3 font-bold" /></div>
+            <div className="space-y-2"><label className="text-[10px] font-black text-slate-400 uppercase">IVA (%)</label><input type="number" value={quote.vatRate} onChange={e => onChange({ ...quote, vatRate: Number(e.target.value) })} className="w-full bg-slate-50 rounded-xl p-3 font-bold" /></div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase">Note e Condizioni</label>
+            <textarea value={quote.notes} onChange={e => onChange({ ...quote, notes: e.target.value })} rows={3} className="w-full bg-slate-50 rounded-xl p-3 text-sm" />
+          </div>
+        </div>
+        <div className="bg-slate-50 rounded-2xl p-6 space-y-2 text-sm">
+          <p className="flex justify-between"><span>Imponibile lordo</span> <b>{formatEuro(totals.subtotal)}</b></p>
+          {totals.discount > 0 && <p className="flex justify-between text-slate-500"><span>Sconto {quote.discountPercent}%</span> <b>- {formatEuro(totals.discount)}</b></p>}
+          <p className="flex justify-between"><span>Imponibile</span> <b>{formatEuro(totals.taxable)}</b></p>
+          <p className="flex justify-between text-slate-500"><span>IVA {quote.vatRate}%</span> <b>{formatEuro(totals.vat)}</b></p>
+          <p className="flex justify-between text-xl font-black border-t-2 border-slate-900 pt-3"><span>Totale</span> <span>{formatEuro(totals.total)}</span></p>
+        </div>
+      </div>
+    </div>
+  );
+};
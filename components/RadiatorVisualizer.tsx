@@ -1,21 +1,54 @@
 
-import React, { useMemo } from 'react';
-import { RadiatorSpecs, ValvePosition } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import { RadiatorSpecs, ValvePosition, ValidationIssue, DrawingView, TechnicalDrawing } from '../types';
+import { DRAWING_VIEW_LABELS } from '../constants';
+import { ELEMENT_PITCH, VALVE_BODY_OFFSET as VALVE_BODY_OFFSET_MM } from '../services/sizingEngine';
+import { TechnicalDrawingSvg } from './TechnicalDrawingSvg';
 
 interface RadiatorVisualizerProps {
   specs: RadiatorSpecs;
   calculatedWidth?: number;
+  elementWidth?: number;
+  isPanel?: boolean;
   realWatts?: number;
+  nominalWatts?: number;
   requiredWatts?: number;
   needsEccentric?: boolean;
+  issues?: ValidationIssue[];
+  view?: DrawingView;
+  onViewChange?: (view: DrawingView) => void; // Se assente il selettore viste non viene mostrato
+  planView?: TechnicalDrawing;
+  sectionView?: TechnicalDrawing;
+  onSpecChange?: (field: keyof RadiatorSpecs, value: number, group?: string) => void; // Abilita la modifica trascinando il disegno
 }
 
+type DragTarget = 'valve' | 'radiator' | 'nicheWidth' | 'nicheHeight';
+
+interface DragState {
+  target: DragTarget;
+  startX: number; // unità viewBox
+  startY: number;
+  scale: number; // scala al momento della presa: la nicchia ridimensionata cambia la scala del disegno
+  start: Pick<RadiatorSpecs, 'sideValveDistance' | 'valveHeight' | 'nicheWidth' | 'nicheHeight'> & { bodyLength: number };
+}
+
+const HANDLE_SIZE = 10; // unità viewBox
+
 export const RadiatorVisualizer: React.FC<RadiatorVisualizerProps> = React.memo(({ 
   specs, 
   calculatedWidth, 
+  elementWidth: modelElementWidth = ELEMENT_PITCH,
+  isPanel = false,
   realWatts, 
+  nominalWatts,
   requiredWatts,
-  needsEccentric = false
+  needsEccentric = false,
+  issues = [],
+  view = DrawingView.ELEVATION,
+  onViewChange,
+  planView,
+  sectionView,
+  onSpecChange
 }) => {
   const { 
     valvePosition, 
@@ -50,8 +83,8 @@ export const RadiatorVisualizer: React.FC<RadiatorVisualizerProps> = React.memo(
     const radWidth = displayWidth * SCALE;
     const radHeight = Math.max(valveCenterDistance + 100, 50) * SCALE;
     
-    const elementWidth = 45;
-    const tubeWidth = 25 * SCALE; 
+    const elementWidth = Math.max(modelElementWidth, 1);
+    const tubeWidth = Math.min(25, elementWidth * 0.6) * SCALE;
 
     // GEOMETRIA INSTALLAZIONE
     let radX: number;
@@ -61,7 +94,7 @@ export const RadiatorVisualizer: React.FC<RadiatorVisualizerProps> = React.memo(
     let legendLX: number = 0;
 
     // Sbalzo fisso richiesto: 52mm
-    const VALVE_BODY_OFFSET = 52 * SCALE;
+    const VALVE_BODY_OFFSET = VALVE_BODY_OFFSET_MM * SCALE;
 
     if (valvePosition === ValvePosition.BOTTOM) {
       v1X = offsetX + sideValveDistance * SCALE;
@@ -109,10 +142,10 @@ export const RadiatorVisualizer: React.FC<RadiatorVisualizerProps> = React.memo(
     return {
       VIEWBOX_SIZE, SCALE, canvasWidth, canvasHeight, offsetX, offsetY, 
       radWidth, radHeight, radX, radY, tubeWidth, 
-      tubeCount: Math.floor(displayWidth / elementWidth),
+      tubeCount: isPanel ? 0 : Math.floor(displayWidth / elementWidth),
       elementWidth, displayWidth, v1X, v2X, diaphragmX, legendLX, targetValveY, v2YVertical, quotes
     };
-  }, [nicheWidth, nicheHeight, valveHeight, sideValveDistance, calculatedWidth, maxWidth, valveCenterDistance, valvePosition]);
+  }, [nicheWidth, nicheHeight, valveHeight, sideValveDistance, calculatedWidth, maxWidth, valveCenterDistance, valvePosition, modelElementWidth, isPanel]);
 
   const { 
     VIEWBOX_SIZE, SCALE, canvasWidth, canvasHeight, offsetX, offsetY, 
@@ -131,127 +164,258 @@ export const RadiatorVisualizer: React.FC<RadiatorVisualizerProps> = React.memo(
   }, [realWatts, requiredWatts]);
 
   const FIXED_DOT_RADIUS = 6;
+
+  // MODIFICA INTERATTIVA: i valori passano dallo stesso aggiornamento del modulo, arrotondati al millimetro
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [editing, setEditing] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dragLabel, setDragLabel] = useState<{ x: number; y: number; text: string } | null>(null);
+  const isEditable = editing && !!onSpecChange;
+
+  const toViewBox = (e: React.PointerEvent) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return { x: 0, y: 0 };
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const startDrag = (target: DragTarget) => (e: React.PointerEvent) => {
+    if (!isEditable) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = toViewBox(e);
+    setDrag({
+      target, startX: x, startY: y, scale: SCALE,
+      start: { sideValveDistance, valveHeight, nicheWidth, nicheHeight, bodyLength: layout.displayWidth }
+    });
+  };
+
+  const updateSpec = (field: keyof RadiatorSpecs, value: number) => {
+    // Tutti i campi toccati dal trascinamento confluiscono in un solo passo della cronologia
+    if (specs[field] !== value) onSpecChange?.(field, value, 'drag');
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = toViewBox(e);
+    const dx = (x - drag.startX) / drag.scale;
+    const dy = (drag.startY - y) / drag.scale;
+    const { start } = drag;
+    let text = '';
+    switch (drag.target) {
+      case 'valve': {
+        const side = Math.max(0, Math.round(start.sideValveDistance + (valvePosition === ValvePosition.RIGHT ? -dx : dx)));
+        const height = Math.max(0, Math.round(start.valveHeight + dy));
+        updateSpec('sideValveDistance', side);
+        updateSpec('valveHeight', height);
+        text = `Lato ${side} · H ${height} mm`;
+        break;
+      }
+      case 'radiator': {
+        const length = start.bodyLength + (valvePosition === ValvePosition.RIGHT ? -dx : dx);
+        const elements = Math.max(1, Math.round(length / elementWidth));
+        updateSpec('manualElements', elements);
+        text = `${elements} el. · ${Math.round(elements * elementWidth)} mm`;
+        break;
+      }
+      case 'nicheWidth': {
+        const width = Math.max(1, Math.round(start.nicheWidth + dx));
+        updateSpec('nicheWidth', width);
+        text = `Nicchia L ${width} mm`;
+        break;
+      }
+      case 'nicheHeight': {
+        const height = Math.max(1, Math.round(start.nicheHeight + dy));
+        updateSpec('nicheHeight', height);
+        text = `Nicchia H ${height} mm`;
+        break;
+      }
+    }
+    setDragLabel({ x, y: y - 12, text });
+  };
+
+  const endDrag = () => {
+    setDrag(null);
+    setDragLabel(null);
+  };
   
-  // LOGICA ERRORI SPAZIO
-  // Oltre la valvola devono esserci almeno 50mm
-  const isErrV1 = quotes.nicheToV1 < 50;
-  
-  // Basse: distanza V2 da muro deve essere almeno 50mm
-  const isErrV2 = valvePosition === ValvePosition.BOTTOM && quotes.v2ToRight < 50;
-  
-  // Laterali: lato opposto al calorifero deve esserci almeno 62mm
-  const isErrOpp = (valvePosition !== ValvePosition.BOTTOM) && quotes.radToOpposite < 62;
+  // LOGICA ERRORI SPAZIO (regole in services/validation)
+  const hasIssue = (code: string) => issues.some(i => i.code === code);
+  const isErrV1 = hasIssue('VALVE_SIDE_CLEARANCE');
+  const isErrV2 = hasIssue('SECOND_VALVE_CLEARANCE');
+  const isErrOpp = hasIssue('OPPOSITE_CLEARANCE');
 
   return (
     <div className="bg-white p-6 rounded-2xl flex flex-col items-center border border-slate-200 w-full shadow-inner tech-font">
       <div className="mb-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b pb-1 w-full text-center">Prospetto Tecnico Dinamico</div>
-      
-      <svg viewBox={`0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}`} className="w-full h-auto drop-shadow-md" style={{ maxHeight: '400px' }}>
-        <defs>
-          <rect id="rtube" x={-(tubeWidth / 2)} y="0" width={tubeWidth} height={radHeight} rx={tubeWidth / 2} fill="white" stroke="#64748b" strokeWidth="0.8" />
-        </defs>
-
-        {/* Nicchia */}
-        <rect x={offsetX} y={offsetY} width={canvasWidth} height={canvasHeight} fill="#f8fafc" stroke="#cbd5e1" strokeWidth="1" />
-
-        {/* Corpo Radiatore (con sbalzo 52mm da V1) */}
-        <g transform={`translate(${radX}, ${radY})`}>
-          {Array.from({ length: tubeCount }).map((_, i) => (
-            <use key={i} href="#rtube" x={(i * elementWidth * SCALE) + (elementWidth * SCALE / 2)} />
+
+      {onViewChange && (
+        <div className="no-print flex gap-1 mb-4 bg-slate-100 p-1 rounded-full">
+          {Object.values(DrawingView).map(v => (
+            <button key={v} onClick={() => onViewChange(v)} className={`text-[9px] px-3 py-1 rounded-full font-black uppercase ${v === view ? 'bg-slate-900 text-white' : 'text-slate-500'}`}>
+              {DRAWING_VIEW_LABELS[v]}
+            </button>
           ))}
-          <rect x="0" y={3 * SCALE} width={radWidth} height={8 * SCALE} fill="#f8fafc" stroke="#64748b" strokeWidth="0.5" rx="2" />
-          <rect x="0" y={radHeight - 11 * SCALE} width={radWidth} height={8 * SCALE} fill="#f8fafc" stroke="#64748b" strokeWidth="0.5" rx="2" />
-        </g>
+        </div>
+      )}
 
-        {/* Valvola Principale */}
-        <circle cx={v1X} cy={targetValveY} r={FIXED_DOT_RADIUS} fill="#ef4444" />
+      {onSpecChange && (view === DrawingView.ELEVATION || view === DrawingView.ALL) && (
+        <button onClick={() => setEditing(!editing)} className={`no-print self-end mb-2 text-[9px] px-3 py-1 rounded-full font-black uppercase ${editing ? 'bg-orange-500 text-white' : 'bg-slate-100 text-slate-500'}`}>
+          {editing ? 'Fine Modifica' : 'Modifica sul Disegno'}
+        </button>
+      )}
+
+      {(view === DrawingView.ELEVATION || view === DrawingView.ALL) && (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}`}
+          className={`w-full h-auto drop-shadow-md ${isEditable ? 'touch-none select-none' : ''}`}
+          style={{ maxHeight: '400px' }}
+          onPointerMove={handleDragMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <defs>
+            <rect id="rtube" x={-(tubeWidth / 2)} y="0" width={tubeWidth} height={radHeight} rx={tubeWidth / 2} fill="white" stroke="#64748b" strokeWidth="0.8" />
+          </defs>
+
+          {/* Nicchia */}
+          <rect x={offsetX} y={offsetY} width={canvasWidth} height={canvasHeight} fill="#f8fafc" stroke="#cbd5e1" strokeWidth="1" />
+
+          {/* Corpo Radiatore (con sbalzo 52mm da V1) */}
+          <g transform={`translate(${radX}, ${radY})`}>
+            {/* Pannello a lunghezza fissa: corpo unico con nervature ogni 50mm */}
+            {isPanel && (
+              <>
+                <rect x="0" y="0" width={radWidth} height={radHeight} fill="white" stroke="#64748b" strokeWidth="0.8" rx="2" />
+                {Array.from({ length: Math.max(Math.floor(radWidth / (50 * SCALE)) - 1, 0) }).map((_, i) => (
+                  <line key={i} x1={(i + 1) * 50 * SCALE} y1={11 * SCALE} x2={(i + 1) * 50 * SCALE} y2={radHeight - 11 * SCALE} stroke="#cbd5e1" strokeWidth="0.5" />
+                ))}
+              </>
+            )}
+            {Array.from({ length: tubeCount }).map((_, i) => (
+              <use key={i} href="#rtube" x={(i * elementWidth * SCALE) + (elementWidth * SCALE / 2)} />
+            ))}
+            <rect x="0" y={3 * SCALE} width={radWidth} height={8 * SCALE} fill="#f8fafc" stroke="#64748b" strokeWidth="0.5" rx="2" />
+            <rect x="0" y={radHeight - 11 * SCALE} width={radWidth} height={8 * SCALE} fill="#f8fafc" stroke="#64748b" strokeWidth="0.5" rx="2" />
+          </g>
+
+          {/* Valvola Principale */}
+          <circle cx={v1X} cy={targetValveY} r={FIXED_DOT_RADIUS} fill="#ef4444" />
         
-        {/* Seconda Valvola (Opposta per BASSE o Verticale) */}
-        {v2X && <circle cx={v2X} cy={targetValveY} r={FIXED_DOT_RADIUS} fill="#ef4444" />}
-        {v2YVertical !== null && <circle cx={v1X} cy={v2YVertical} r={FIXED_DOT_RADIUS} fill="#ef4444" />}
-
-        {/* Lettera Verde L (Solo se presenti eccentrici) */}
-        {needsEccentric && (
-          <text x={legendLX} y={targetValveY + 4} textAnchor="middle" fill="#10b981" fontSize="14" fontWeight="black">L</text>
-        )}
-
-        {/* Diaframma */}
-        {hasDiaphragm && (
-          <polygon 
-            points={`${diaphragmX},${targetValveY - 12} ${diaphragmX - 7},${targetValveY - 2} ${diaphragmX + 7},${targetValveY - 2}`} 
-            fill="#ef4444" 
-          />
-        )}
-
-        {/* QUOTE */}
-        <g stroke="#94a3b8" strokeWidth="1" fontSize="10" fontWeight="bold">
-          {valvePosition === ValvePosition.BOTTOM ? (
-            <>
-              {/* Quota lato V1 */}
-              <line x1={offsetX} y1={radY + radHeight + 15} x2={v1X} y2={radY + radHeight + 15} strokeDasharray="2,2" stroke={isErrV1 ? '#ef4444' : '#94a3b8'} />
-              <text x={offsetX + (v1X - offsetX)/2} y={radY + radHeight + 25} textAnchor="middle" fill={isErrV1 ? '#ef4444' : '#64748b'}>{quotes.nicheToV1}</text>
+          {/* Seconda Valvola (Opposta per BASSE o Verticale) */}
+          {v2X && <circle cx={v2X} cy={targetValveY} r={FIXED_DOT_RADIUS} fill="#ef4444" />}
+          {v2YVertical !== null && <circle cx={v1X} cy={v2YVertical} r={FIXED_DOT_RADIUS} fill="#ef4444" />}
+
+          {/* Lettera Verde L (Solo se presenti eccentrici) */}
+          {needsEccentric && (
+            <text x={legendLX} y={targetValveY + 4} textAnchor="middle" fill="#10b981" fontSize="14" fontWeight="black">L</text>
+          )}
+
+          {/* Diaframma */}
+          {hasDiaphragm && (
+            <polygon 
+              points={`${diaphragmX},${targetValveY - 12} ${diaphragmX - 7},${targetValveY - 2} ${diaphragmX + 7},${targetValveY - 2}`} 
+              fill="#ef4444" 
+            />
+          )}
+
+          {/* QUOTE */}
+          <g stroke="#94a3b8" strokeWidth="1" fontSize="10" fontWeight="bold">
+            {valvePosition === ValvePosition.BOTTOM ? (
+              <>
+                {/* Quota lato V1 */}
+                <line x1={offsetX} y1={radY + radHeight + 15} x2={v1X} y2={radY + radHeight + 15} strokeDasharray="2,2" stroke={isErrV1 ? '#ef4444' : '#94a3b8'} />
+                <text x={offsetX + (v1X - offsetX)/2} y={radY + radHeight + 25} textAnchor="middle" fill={isErrV1 ? '#ef4444' : '#64748b'}>{quotes.nicheToV1}</text>
               
-              {/* Quota tra Valvole */}
-              <line x1={v1X} y1={radY + radHeight + 15} x2={v2X!} y2={radY + radHeight + 15} strokeDasharray="2,2" />
-              <text x={v1X + (v2X! - v1X)/2} y={radY + radHeight + 25} textAnchor="middle" fill="#64748b">Int. Valv: {quotes.v1ToV2}</text>
-
-              {/* Quota lato V2 */}
-              <line x1={v2X!} y1={radY + radHeight + 15} x2={offsetX + canvasWidth} y2={radY + radHeight + 15} strokeDasharray="2,2" stroke={isErrV2 ? '#ef4444' : '#94a3b8'} />
-              <text x={v2X! + (offsetX + canvasWidth - v2X!)/2} y={radY + radHeight + 25} textAnchor="middle" fill={isErrV2 ? '#ef4444' : '#64748b'}>{quotes.v2ToRight}</text>
-            </>
-          ) : (
-            <>
-              {/* Quota lato Valvola */}
-              <line 
-                x1={valvePosition === ValvePosition.LEFT ? offsetX : v1X} 
-                y1={radY + radHeight + 15} 
-                x2={valvePosition === ValvePosition.LEFT ? v1X : offsetX + canvasWidth} 
-                y2={radY + radHeight + 15} 
-                strokeDasharray="2,2" 
-                stroke={isErrV1 ? '#ef4444' : '#94a3b8'}
-              />
-              <text 
-                x={valvePosition === ValvePosition.LEFT ? offsetX + (v1X - offsetX)/2 : v1X + (offsetX + canvasWidth - v1X)/2} 
-                y={radY + radHeight + 25} 
-                textAnchor="middle" 
-                fill={isErrV1 ? '#ef4444' : '#64748b'}
-              >
-                {quotes.nicheToV1}
-              </text>
-
-              {/* Quota lato Opposto (min 62mm) */}
-              <line 
-                x1={valvePosition === ValvePosition.LEFT ? radX + radWidth : offsetX} 
-                y1={radY + radHeight + 15} 
-                x2={valvePosition === ValvePosition.LEFT ? offsetX + canvasWidth : radX} 
-                y2={radY + radHeight + 15} 
-                strokeDasharray="2,2" 
-                stroke={isErrOpp ? '#ef4444' : '#94a3b8'}
-              />
-              <text 
-                x={valvePosition === ValvePosition.LEFT ? radX + radWidth + (offsetX + canvasWidth - (radX + radWidth))/2 : offsetX + (radX - offsetX)/2} 
-                y={radY + radHeight + 25} 
-                textAnchor="middle" 
-                fill={isErrOpp ? '#ef4444' : '#64748b'}
-              >
-                Libero: {quotes.radToOpposite}
-              </text>
-            </>
+                {/* Quota tra Valvole */}
+                <line x1={v1X} y1={radY + radHeight + 15} x2={v2X!} y2={radY + radHeight + 15} strokeDasharray="2,2" />
+                <text x={v1X + (v2X! - v1X)/2} y={radY + radHeight + 25} textAnchor="middle" fill="#64748b">Int. Valv: {quotes.v1ToV2}</text>
+
+                {/* Quota lato V2 */}
+                <line x1={v2X!} y1={radY + radHeight + 15} x2={offsetX + canvasWidth} y2={radY + radHeight + 15} strokeDasharray="2,2" stroke={isErrV2 ? '#ef4444' : '#94a3b8'} />
+                <text x={v2X! + (offsetX + canvasWidth - v2X!)/2} y={radY + radHeight + 25} textAnchor="middle" fill={isErrV2 ? '#ef4444' : '#64748b'}>{quotes.v2ToRight}</text>
+              </>
+            ) : (
+              <>
+                {/* Quota lato Valvola */}
+                <line 
+                  x1={valvePosition === ValvePosition.LEFT ? offsetX : v1X} 
+                  y1={radY + radHeight + 15} 
+                  x2={valvePosition === ValvePosition.LEFT ? v1X : offsetX + canvasWidth} 
+                  y2={radY + radHeight + 15} 
+                  strokeDasharray="2,2" 
+                  stroke={isErrV1 ? '#ef4444' : '#94a3b8'}
+                />
+                <text 
+                  x={valvePosition === ValvePosition.LEFT ? offsetX + (v1X - offsetX)/2 : v1X + (offsetX + canvasWidth - v1X)/2} 
+                  y={radY + radHeight + 25} 
+                  textAnchor="middle" 
+                  fill={isErrV1 ? '#ef4444' : '#64748b'}
+                >
+                  {quotes.nicheToV1}
+                </text>
+
+                {/* Quota lato Opposto (min 62mm) */}
+                <line 
+                  x1={valvePosition === ValvePosition.LEFT ? radX + radWidth : offsetX} 
+                  y1={radY + radHeight + 15} 
+                  x2={valvePosition === ValvePosition.LEFT ? offsetX + canvasWidth : radX} 
+                  y2={radY + radHeight + 15} 
+                  strokeDasharray="2,2" 
+                  stroke={isErrOpp ? '#ef4444' : '#94a3b8'}
+                />
+                <text 
+                  x={valvePosition === ValvePosition.LEFT ? radX + radWidth + (offsetX + canvasWidth - (radX + radWidth))/2 : offsetX + (radX - offsetX)/2} 
+                  y={radY + radHeight + 25} 
+                  textAnchor="middle" 
+                  fill={isErrOpp ? '#ef4444' : '#64748b'}
+                >
+                  Libero: {quotes.radToOpposite}
+                </text>
+              </>
+            )}
+
+            {/* Quota Corpo */}
+            <line x1={radX} y1={radY + radHeight + 45} x2={radX + radWidth} y2={radY + radHeight + 45} stroke="#1e293b" />
+            <line x1={radX} y1={radY + radHeight + 40} x2={radX} y2={radY + radHeight + 50} stroke="#1e293b" />
+            <line x1={radX + radWidth} y1={radY + radHeight + 40} x2={radX + radWidth} y2={radY + radHeight + 50} stroke="#1e293b" />
+            <text x={radX + radWidth/2} y={radY + radHeight + 60} textAnchor="middle" fill="#1e293b" fontSize="12" fontWeight="black">CORPO: {quotes.radWidthMm}</text>
+          </g>
+          {/* Maniglie di modifica */}
+          {isEditable && (
+            <g fill="#f97316" fillOpacity="0.35" stroke="#f97316" strokeWidth="1">
+              <rect x={offsetX + canvasWidth - HANDLE_SIZE / 2} y={offsetY} width={HANDLE_SIZE} height={canvasHeight} style={{ cursor: 'ew-resize' }} onPointerDown={startDrag('nicheWidth')} />
+              <rect x={offsetX} y={offsetY - HANDLE_SIZE / 2} width={canvasWidth} height={HANDLE_SIZE} style={{ cursor: 'ns-resize' }} onPointerDown={startDrag('nicheHeight')} />
+              {!isPanel && (
+                <rect x={(valvePosition === ValvePosition.RIGHT ? radX : radX + radWidth) - HANDLE_SIZE / 2} y={radY} width={HANDLE_SIZE} height={radHeight} style={{ cursor: 'ew-resize' }} onPointerDown={startDrag('radiator')} />
+              )}
+              <circle cx={v1X} cy={targetValveY} r={FIXED_DOT_RADIUS * 2} style={{ cursor: 'move' }} onPointerDown={startDrag('valve')} />
+            </g>
           )}
+          {dragLabel && (
+            <text x={dragLabel.x} y={dragLabel.y} textAnchor="middle" fontSize="11" fontWeight="bold" fill="#c2410c" pointerEvents="none">{dragLabel.text}</text>
+          )}
+        </svg>
+      )}
 
-          {/* Quota Corpo */}
-          <line x1={radX} y1={radY + radHeight + 45} x2={radX + radWidth} y2={radY + radHeight + 45} stroke="#1e293b" />
-          <line x1={radX} y1={radY + radHeight + 40} x2={radX} y2={radY + radHeight + 50} stroke="#1e293b" />
-          <line x1={radX + radWidth} y1={radY + radHeight + 40} x2={radX + radWidth} y2={radY + radHeight + 50} stroke="#1e293b" />
-          <text x={radX + radWidth/2} y={radY + radHeight + 60} textAnchor="middle" fill="#1e293b" fontSize="12" fontWeight="black">CORPO: {quotes.radWidthMm}</text>
-        </g>
-      </svg>
+      {(view === DrawingView.PLAN || view === DrawingView.SECTION || view === DrawingView.ALL) && (
+        <div className={`w-full grid gap-4 ${view === DrawingView.ALL ? 'grid-cols-2 mt-4' : 'grid-cols-1'}`}>
+          {view !== DrawingView.SECTION && planView && <TechnicalDrawingSvg drawing={planView} title="Pianta" />}
+          {view !== DrawingView.PLAN && sectionView && <TechnicalDrawingSvg drawing={sectionView} title="Sezione Laterale" />}
+        </div>
+      )}
 
       {/* Resa Termica */}
       {realWatts && requiredWatts && (
         <div className={`mt-6 w-full p-4 rounded text-white flex justify-between items-center shadow-lg transition-colors ${statusColor}`}>
           <span className="text-[10px] uppercase font-bold opacity-80">Resa Termica Effettiva:</span>
-          <span className="text-2xl font-black tracking-tighter">{realWatts} WATT</span>
+          <div className="flex flex-col items-end">
+            <span className="text-2xl font-black tracking-tighter">{realWatts} WATT</span>
+            {nominalWatts !== undefined && nominalWatts !== realWatts && (
+              <span className="text-[10px] font-bold opacity-80">Nominale ΔT 50: {nominalWatts} W</span>
+            )}
+          </div>
         </div>
       )}
 
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { RoomTemplate, RoomTemplateSpecs, RadiatorModel, RadiatorSeries, Environment, ValvePosition, HeatLossMethod } from '../types';
+import { INITIAL_SPECS, PIPE_MATERIALS, PIPE_DIAMETERS, VALVE_POSITION_LABELS, HEAT_LOSS_METHOD_LABELS } from '../constants';
+import { getSeriesOptions } from '../services/catalogue';
+import { createRoomTemplate, exportRoomTemplatesJson, parseRoomTemplatesJson, mergeRoomTemplates } from '../services/roomTemplates';
+import { downloadFile } from '../services/download';
+
+interface RoomTemplateManagerProps {
+  templates: RoomTemplate[];
+  customModels: RadiatorModel[];
+  onChange: (templates: RoomTemplate[]) => void;
+}
+
+export const RoomTemplateManager: React.FC<RoomTemplateManagerProps> = ({ templates, customModels, onChange }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const seriesOptions = useMemo(() => getSeriesOptions(customModels), [customModels]);
+
+  const update = (id: string, patch: Partial<RoomTemplate>) => onChange(templates.map(t => t.id === id ? { ...t, ...patch } : t));
+  const updateSpecs = (template: RoomTemplate, patch: Partial<RoomTemplateSpecs>) => update(template.id, { specs: { ...template.specs, ...patch } });
+
+  const removeTemplate = (template: RoomTemplate) => {
+    if (!window.confirm(`Eliminare il modello di locale ${template.name || 'senza nome'}?`)) return;
+    onChange(templates.filter(t => t.id !== template.id));
+  };
+
+  const handleImportFile = async (file: File) => {
+    const result = parseRoomTemplatesJson(await file.text(), seriesOptions.map(o => o.id));
+    setImportError(result.error ?? null);
+    if (!result.error) onChange(mergeRoomTemplates(templates, result.templates));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => onChange([...templates, createRoomTemplate('Nuovo locale', INITIAL_SPECS)])} className="text-[10px] bg-slate-900 text-white px-3 py-2 rounded-full font-black uppercase">+ Modello</button>
+        <label className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase cursor-pointer">
+          Importa JSON
+          <input type="file" accept=".json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleImportFile(f); e.target.value = ''; }} />
+        </label>
+        <button onClick={() => downloadFile('modelli-locali.json', exportRoomTemplatesJson(templates), 'application/json')} className="text-[10px] bg-slate-100 px-3 py-2 rounded-full font-black uppercase">Esporta JSON</button>
+      </div>
+      {importError && <p className="bg-red-50 border border-red-100 rounded-xl p-3 text-[11px] text-red-600 font-bold">{importError}</p>}
+
+      {templates.length === 0 && <p className="text-xs text-slate-400 italic">Nessun modello di locale.</p>}
+      <div className="space-y-3 max-h-[420px] overflow-y-auto">
+        {templates.map(t => (
+          <div key={t.id} className="bg-white border border-slate-200 p-4 rounded-2xl space-y-3">
+            <div className="flex items-center gap-2">
+              <input value={t.name} onChange={e => update(t.id, { name: e.target.value })} className="flex-1 border rounded-xl p-2 text-sm font-bold" />
+              <button title="Elimina modello" onClick={() => removeTemplate(t)} className="text-slate-400 hover:text-red-500 px-2">✕</button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Superficie (m²)</label>
+                <input type="number" value={t.specs.surface || ''} onChange={e => updateSpecs(t, { surface: Number(e.target.value) })} className="w-full border rounded-xl p-2" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Altezza (m)</label>
+                <input type="number" step="0.1" value={t.specs.height || ''} onChange={e => updateSpecs(t, { height: Number(e.target.value) })} className="w-full border rounded-xl p-2" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Gamma</label>
+                <select value={t.specs.series} onChange={e => updateSpecs(t, { series: e.target.value as RadiatorSeries })} className="w-full border rounded-xl p-2">
+                  {seriesOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                  {!seriesOptions.some(o => o.id === t.specs.series) && <option value={t.specs.series}>{t.specs.series} (non a catalogo)</option>}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Valvole</label>
+                <select value={t.specs.valvePosition} onChange={e => updateSpecs(t, { valvePosition: e.target.value as ValvePosition })} className="w-full border rounded-xl p-2">
+                  {Object.values(ValvePosition).map(v => <option key={v} value={v}>{VALVE_POSITION_LABELS[v]}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Tubo</label>
+                <select value={t.specs.pipeMaterial} onChange={e => updateSpecs(t, { pipeMaterial: e.target.value })} className="w-full border rounded-xl p-2">
+                  {PIPE_MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Diametro</label>
+                <select value={t.specs.pipeDiameter} onChange={e => updateSpecs(t, { pipeDiameter: e.target.value })} className="w-full border rounded-xl p-2">
+                  {PIPE_DIAMETERS.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Lungh. Tubo (m)</label>
+                <input type="number" step="0.5" value={t.specs.pipeLength || ''} onChange={e => updateSpecs(t, { pipeLength: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-full border rounded-xl p-2" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-400 uppercase">Fabbisogno</label>
+                <select value={t.specs.heatLossMethod ?? HeatLossMethod.QUICK} onChange={e => updateSpecs(t, { heatLossMethod: e.target.value as HeatLossMethod })} className="w-full border rounded-xl p-2">
+                  {Object.values(HeatLossMethod).map(m => <option key={m} value={m}>{HEAT_LOSS_METHOD_LABELS[m]}</option>)}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-700 pt-5">
+                <input type="checkbox" checked={t.specs.hasDiaphragm} onChange={e => updateSpecs(t, { hasDiaphragm: e.target.checked })} className="w-4 h-4 accent-slate-900" />
+                Diaframma
+              </label>
+            </div>
+            {t.specs.heatLossMethod === HeatLossMethod.DETAILED && (
+              <p className="text-[10px] text-slate-400">
+                {t.specs.heatLoss ? `${t.specs.heatLoss.surfaces.length} superfici disperdenti, ${t.specs.heatLoss.internalTemp} / ${t.specs.heatLoss.externalTemp} °C` : 'Parametri di dispersione predefiniti'}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface RoomTemplateApplierProps {
+  templates: RoomTemplate[];
+  environments: Environment[];
+  onApply: (template: RoomTemplate, envIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Applica un modello di locale a più ambienti in una volta
+export const RoomTemplateApplier: React.FC<RoomTemplateApplierProps> = ({ templates, environments, onApply, onClose }) => {
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [selected, setSelected] = useState<string[]>([]);
+  const template = templates.find(t => t.id === templateId);
+
+  const toggle = (id: string) => setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+
+  const apply = () => {
+    if (!template || selected.length === 0) return;
+    if (!window.confirm(`Applicare il modello ${template.name} a ${selected.length} ambienti? I dati di locale, gamma e tubazioni verranno sovrascritti.`)) return;
+    onApply(template, selected);
+    onClose();
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-2xl p-3 space-y-3 text-xs">
+      {templates.length === 0 ? (
+        <p className="text-slate-400 italic">Nessun modello di locale: aggiungili da Impostazioni.</p>
+      ) : (
+        <select value={templateId} onChange={e => setTemplateId(e.target.value)} className="w-full bg-white rounded-lg p-2 font-bold">
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name || 'Senza nome'}</option>)}
+        </select>
+      )}
+      <div className="flex justify-between text-[9px] font-black uppercase">
+        <button onClick={() => setSelected(environments.map(e => e.id))}>Seleziona tutti</button>
+        <button onClick={() => setSelected([])}>Nessuno</button>
+      </div>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {environments.map(env => (
+          <label key={env.id} className="flex items-center gap-2 font-bold cursor-pointer">
+            <input type="checkbox" checked={selected.includes(env.id)} onChange={() => toggle(env.id)} className="accent-slate-900" />
+            <span className="truncate">{env.name}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button disabled={!template || selected.length === 0} onClick={apply} className="flex-1 bg-slate-900 text-white px-3 py-2 rounded-xl font-bold disabled:opacity-30">Applica ({selected.length})</button>
+        <button onClick={onClose} className="bg-slate-200 text-slate-600 px-3 py-2 rounded-xl font-bold">Annulla</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { DrawingLayer, DrawingPrimitive, TechnicalDrawing } from '../types';
+import { LAYER_COLORS } from '../constants';
+
+const MARGIN = 20; // mm attorno al disegno
+
+interface TechnicalDrawingSvgProps {
+  drawing: TechnicalDrawing;
+  title: string;
+  className?: string;
+}
+
+// Disegno in mm reali con asse Y ribaltato per lo schermo
+export const TechnicalDrawingSvg: React.FC<TechnicalDrawingSvgProps> = ({ drawing, title, className = '' }) => {
+  const { minX, minY, maxX, maxY } = drawing.bounds;
+  const width = maxX - minX + 2 * MARGIN;
+  const height = maxY - minY + 2 * MARGIN;
+  const x = (value: number) => value - minX + MARGIN;
+  const y = (value: number) => maxY - value + MARGIN;
+  const strokeWidth = Math.max(width, height) / 400;
+
+  const renderPrimitive = (p: DrawingPrimitive, key: number) => {
+    const color = LAYER_COLORS[p.layer];
+    switch (p.kind) {
+      case 'line':
+        return <line key={key} x1={x(p.x1)} y1={y(p.y1)} x2={x(p.x2)} y2={y(p.y2)} stroke={color} strokeWidth={strokeWidth} strokeDasharray={p.dashed ? `${strokeWidth * 6} ${strokeWidth * 4}` : undefined} />;
+      case 'rect':
+        return <rect key={key} x={x(p.x)} y={y(p.y + p.height)} width={p.width} height={p.height} fill={p.layer === DrawingLayer.RADIATOR ? 'white' : '#f8fafc'} stroke={color} strokeWidth={strokeWidth} />;
+      case 'circle':
+        return <circle key={key} cx={x(p.cx)} cy={y(p.cy)} r={p.r} fill={color} />;
+      case 'polygon':
+        return <polygon key={key} points={p.points.map(([px, py]) => `${x(px)},${y(py)}`).join(' ')} fill={color} />;
+      case 'text':
+        return (
+          <text key={key} x={x(p.x)} y={y(p.y)} fontSize={p.size} fontWeight="bold" textAnchor={p.anchor} fill={color} transform={p.angle ? `rotate(${-p.angle} ${x(p.x)} ${y(p.y)})` : undefined}>
+            {p.text}
+          </text>
+        );
+    }
+  };
+
+  return (
+    <div className={`flex flex-col items-center ${className}`}>
+      <div className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">{title}</div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" style={{ maxHeight: '400px' }}>
+        {drawing.primitives.map(renderPrimitive)}
+      </svg>
+    </div>
+  );
+};
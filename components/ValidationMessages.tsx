@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { RadiatorSpecs, ValidationIssue, ValidationSeverity } from '../types';
+
+interface FieldIssuesProps {
+  issues: ValidationIssue[];
+  field: keyof RadiatorSpecs;
+}
+
+interface IssueListProps {
+  issues: ValidationIssue[];
+  title?: string;
+}
+
+const severityClass = (issue: ValidationIssue) =>
+  issue.severity === ValidationSeverity.ERROR ? 'text-red-600' : 'text-orange-500';
+
+export const FieldIssues: React.FC<FieldIssuesProps> = ({ issues, field }) => {
+  const fieldIssues = issues.filter(i => i.field === field);
+  if (fieldIssues.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {fieldIssues.map(i => (
+        <p key={i.code} className={`text-[9px] font-black uppercase leading-tight ${severityClass(i)}`}>{i.message}</p>
+      ))}
+    </div>
+  );
+};
+
+export const IssueList: React.FC<IssueListProps> = ({ issues, title = 'Verifiche' }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="border border-slate-200 rounded-2xl p-4 space-y-2">
+      <h5 className="text-[9px] font-black uppercase tracking-widest text-slate-400">{title}</h5>
+      <ul className="space-y-1">
+        {issues.map(i => (
+          <li key={`${i.code}-${i.field}`} className={`text-[11px] font-bold flex gap-2 ${severityClass(i)}`}>
+            <span className="uppercase text-[9px] font-black w-16 shrink-0">{i.severity === ValidationSeverity.ERROR ? 'Errore' : 'Avviso'}</span>
+            <span>{i.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { ValvePosition, RadiatorSpecs, Project, RadiatorSeries, GlobalSettings } from './types';
+import { ValvePosition, RadiatorSpecs, Project, RadiatorSeries, GlobalSettings, HeatLossMethod, HeatLossParams, EnvelopeSurfaceType, Orientation, SystemTemperatures, ProjectStatus, PriceList, QuoteLineCategory, ProjectQuote, DrawingLayer, DrawingView, LoadSplitMode, RoomTemplate, HeatSourceType, BalancingStatus, BalancingSettings, CircuitType, GeneratorType, PlantSettings, SnapshotKind, SnapshotChange } from './types';
 
 export const PIPE_DIAMETERS = [
   'N.D.', '10 mm', '12 mm', '14 mm', '15 mm', '16 mm', '18 mm', '20 mm', '22 mm', '26 mm', '28 mm', '3/8"', '1/2"', '3/4"', '1"'
@@ -7,10 +7,119 @@ export const PIPE_DIAMETERS = [
 
 export const PIPE_MATERIALS = ['N.D.', 'Rame', 'Ferro', 'Multistrato'];
 
+export const DRAWING_VIEW_LABELS: Record<DrawingView, string> = {
+  [DrawingView.ELEVATION]: 'Prospetto',
+  [DrawingView.PLAN]: 'Pianta',
+  [DrawingView.SECTION]: 'Sezione',
+  [DrawingView.ALL]: 'Tutte'
+};
+
+// Colori dei layer dei disegni tecnici nelle esportazioni vettoriali
+export const LAYER_COLORS: Record<DrawingLayer, string> = {
+  [DrawingLayer.NICHE]: '#94a3b8',
+  [DrawingLayer.RADIATOR]: '#475569',
+  [DrawingLayer.VALVES]: '#ef4444',
+  [DrawingLayer.DIMENSIONS]: '#64748b',
+  [DrawingLayer.DIMENSION_ERRORS]: '#ef4444',
+  [DrawingLayer.TEXT]: '#1e293b'
+};
+
+export const VALVE_POSITION_LABELS: Record<ValvePosition, string> = {
+  [ValvePosition.BOTTOM]: 'Basse (Lati Opposti)',
+  [ValvePosition.RIGHT]: 'Destra Verticale',
+  [ValvePosition.LEFT]: 'Sinistra Verticale'
+};
+
+export const HEAT_LOSS_METHOD_LABELS: Record<HeatLossMethod, string> = {
+  [HeatLossMethod.QUICK]: 'Stima Rapida (Coeff. K)',
+  [HeatLossMethod.DETAILED]: 'Dispersioni (Trasmissione + Ventilazione)'
+};
+
+export const SURFACE_TYPE_LABELS: Record<EnvelopeSurfaceType, string> = {
+  [EnvelopeSurfaceType.WALL]: 'Parete',
+  [EnvelopeSurfaceType.WINDOW]: 'Serramento',
+  [EnvelopeSurfaceType.FLOOR]: 'Pavimento',
+  [EnvelopeSurfaceType.ROOF]: 'Soffitto / Copertura'
+};
+
+// Maggiorazioni per esposizione (pareti e serramenti)
+export const EXPOSURE_FACTORS: Record<Orientation, number> = {
+  [Orientation.N]: 1.20,
+  [Orientation.NE]: 1.15,
+  [Orientation.NW]: 1.15,
+  [Orientation.E]: 1.10,
+  [Orientation.W]: 1.10,
+  [Orientation.SE]: 1.05,
+  [Orientation.SW]: 1.05,
+  [Orientation.S]: 1.00,
+  [Orientation.HORIZONTAL]: 1.00
+};
+
+// Trasmittanze tipiche proposte all'inserimento di una nuova superficie (W/m2K)
+export const DEFAULT_U_VALUES: Record<EnvelopeSurfaceType, number> = {
+  [EnvelopeSurfaceType.WALL]: 0.8,
+  [EnvelopeSurfaceType.WINDOW]: 2.0,
+  [EnvelopeSurfaceType.FLOOR]: 0.9,
+  [EnvelopeSurfaceType.ROOF]: 0.7
+};
+
+export const INITIAL_HEAT_LOSS: HeatLossParams = {
+  internalTemp: 20,
+  externalTemp: -5,
+  airChangeRate: 0.5,
+  surfaces: []
+};
+
+// Condizioni nominali di catalogo EN 442 (75/65/20 °C)
+export const INITIAL_SYSTEM_TEMPERATURES: SystemTemperatures = {
+  flowTemp: 75,
+  returnTemp: 65,
+  roomTemp: 20
+};
+
+export const INITIAL_PRICE_LIST: PriceList = {
+  valve: 18,
+  lockshield: 12,
+  eccentricPair: 9,
+  diaphragmKit: 15,
+  bracket: 4.5,
+  labourPerRadiator: 60,
+  pipes: [
+    { material: 'Rame', diameter: '14 mm', pricePerMeter: 9 },
+    { material: 'Rame', diameter: '16 mm', pricePerMeter: 11 },
+    { material: 'Multistrato', diameter: '16 mm', pricePerMeter: 4.5 },
+    { material: 'Multistrato', diameter: '20 mm', pricePerMeter: 6 },
+    { material: 'Ferro', diameter: '1/2"', pricePerMeter: 8 }
+  ],
+  vatRate: 10
+};
+
 export const INITIAL_SETTINGS: GlobalSettings = {
-  wattCoefficient: 30
+  wattCoefficient: 30,
+  maxEccentricCompensation: 20,
+  priceList: INITIAL_PRICE_LIST
+};
+
+export const QUOTE_CATEGORY_LABELS: Record<QuoteLineCategory, string> = {
+  [QuoteLineCategory.RADIATOR]: 'Radiatore',
+  [QuoteLineCategory.VALVE]: 'Valvola',
+  [QuoteLineCategory.LOCKSHIELD]: 'Detentore',
+  [QuoteLineCategory.ECCENTRIC]: 'Eccentrici',
+  [QuoteLineCategory.DIAPHRAGM]: 'Diaframma',
+  [QuoteLineCategory.BRACKET]: 'Staffe',
+  [QuoteLineCategory.PIPE]: 'Tubazione',
+  [QuoteLineCategory.LABOUR]: 'Manodopera',
+  [QuoteLineCategory.OTHER]: 'Altro'
 };
 
+export const createEmptyQuote = (vatRate: number): ProjectQuote => ({
+  overrides: {},
+  extraLines: [],
+  discountPercent: 0,
+  vatRate,
+  notes: ''
+});
+
 export const INITIAL_SPECS: RadiatorSpecs = {
   surface: 20,
   height: 2.7,
@@ -25,15 +134,92 @@ export const INITIAL_SPECS: RadiatorSpecs = {
   hasDiaphragm: false,
   series: RadiatorSeries.TESI3,
   pipeDiameter: 'N.D.',
-  pipeMaterial: 'N.D.'
+  pipeMaterial: 'N.D.',
+  heatLossMethod: HeatLossMethod.QUICK
 };
 
-export const createInitialProject = (): Project => ({
-  id: Math.random().toString(36).substr(2, 9),
-  clientName: '',
-  clientSurname: '',
-  siteAddress: '',
-  environments: [
-    { id: 'env-1', name: 'Ambiente 1', specs: { ...INITIAL_SPECS } }
-  ]
-});
+// Libreria iniziale dei modelli di locale, modificabile dall'utente
+export const INITIAL_ROOM_TEMPLATES: RoomTemplate[] = [
+  { id: 'tpl-bagno', name: 'Bagno', specs: { surface: 6, height: 2.7, series: RadiatorSeries.TESI3, valvePosition: ValvePosition.BOTTOM, pipeMaterial: 'N.D.', pipeDiameter: 'N.D.', hasDiaphragm: false, heatLossMethod: HeatLossMethod.QUICK } },
+  { id: 'tpl-camera', name: 'Camera', specs: { surface: 14, height: 2.7, series: RadiatorSeries.TESI3, valvePosition: ValvePosition.BOTTOM, pipeMaterial: 'N.D.', pipeDiameter: 'N.D.', hasDiaphragm: false, heatLossMethod: HeatLossMethod.QUICK } },
+  { id: 'tpl-cucina', name: 'Cucina', specs: { surface: 12, height: 2.7, series: RadiatorSeries.TESI3, valvePosition: ValvePosition.BOTTOM, pipeMaterial: 'N.D.', pipeDiameter: 'N.D.', hasDiaphragm: false, heatLossMethod: HeatLossMethod.QUICK } },
+  { id: 'tpl-soggiorno', name: 'Soggiorno', specs: { surface: 25, height: 2.7, series: RadiatorSeries.TESI3, valvePosition: ValvePosition.BOTTOM, pipeMaterial: 'N.D.', pipeDiameter: 'N.D.', hasDiaphragm: false, heatLossMethod: HeatLossMethod.QUICK } }
+];
+
+export const LOAD_SPLIT_LABELS: Record<LoadSplitMode, string> = {
+  [LoadSplitMode.EVEN]: 'In parti uguali',
+  [LoadSplitMode.NICHE_WIDTH]: 'In base alla larghezza nicchia',
+  [LoadSplitMode.MANUAL]: 'Manuale'
+};
+
+export const CIRCUIT_TYPE_LABELS: Record<CircuitType, string> = {
+  [CircuitType.TWO_PIPE]: 'Bitubo a collettore',
+  [CircuitType.MONOTUBE]: 'Monotubo ad anello'
+};
+
+export const HEAT_SOURCE_LABELS: Record<HeatSourceType, string> = {
+  [HeatSourceType.BOILER]: 'Caldaia',
+  [HeatSourceType.MANIFOLD]: 'Collettore'
+};
+
+export const BALANCING_STATUS_LABELS: Record<BalancingStatus, string> = {
+  [BalancingStatus.INDEX]: 'Circuito indice',
+  [BalancingStatus.OK]: 'Regolato',
+  [BalancingStatus.OUT_OF_RANGE]: 'Sotto campo valvola',
+  [BalancingStatus.MISSING_DATA]: 'Dati tubo mancanti',
+  [BalancingStatus.MONOTUBE]: 'Anello monotubo'
+};
+
+export const INITIAL_BALANCING: BalancingSettings = {
+  sourceType: HeatSourceType.BOILER,
+  sourceLocation: '',
+  valveId: 'lockshield-1-2'
+};
+
+export const GENERATOR_TYPE_LABELS: Record<GeneratorType, string> = {
+  [GeneratorType.BOILER]: 'Caldaia a condensazione',
+  [GeneratorType.HEAT_PUMP]: 'Pompa di calore'
+};
+
+export const INITIAL_PLANT: PlantSettings = {
+  generatorType: GeneratorType.BOILER,
+  dhwAllowance: 0,
+  generatorWaterContent: 0
+};
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+  [SnapshotKind.AUTO]: 'Automatica',
+  [SnapshotKind.MANUAL]: 'Manuale'
+};
+
+export const SNAPSHOT_CHANGE_LABELS: Record<SnapshotChange, string> = {
+  [SnapshotChange.ADDED]: 'Aggiunto',
+  [SnapshotChange.REMOVED]: 'Eliminato',
+  [SnapshotChange.CHANGED]: 'Modificato',
+  [SnapshotChange.UNCHANGED]: 'Invariato'
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  [ProjectStatus.DRAFT]: 'Bozza',
+  [ProjectStatus.SENT]: 'Inviato',
+  [ProjectStatus.ACCEPTED]: 'Accettato',
+  [ProjectStatus.INSTALLED]: 'Installato'
+};
+
+export const createInitialProject = (): Project => {
+  const now = new Date().toISOString();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    clientName: '',
+    clientSurname: '',
+    siteAddress: '',
+    systemTemperatures: { ...INITIAL_SYSTEM_TEMPERATURES },
+    environments: [
+      { id: 'env-1', name: 'Ambiente 1', specs: { ...INITIAL_SPECS } }
+    ],
+    status: ProjectStatus.DRAFT,
+    archived: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
@@ -1,5 +1,29 @@
 
-import { RadiatorModel } from './types';
+import { RadiatorModel, RadiatorSeries } from './types';
+
+// Esponente n per modelli privi del dato di catalogo (EN 442)
+export const DEFAULT_EXPONENT = 1.3;
+
+// Tubo Ø 25 mm: contenuto d'acqua e peso indicativi per colonna e metro di altezza
+const WATER_PER_COLUMN_METER = 0.4; // litri
+const WEIGHT_PER_COLUMN_METER = 0.9; // kg
+
+interface SeriesData {
+  exponent: number;
+  columns: number;
+  depth: number; // mm
+}
+
+const withSeries = (series: RadiatorSeries, { exponent, columns, depth }: SeriesData) => (m: RadiatorModel): RadiatorModel => ({
+  ...m,
+  series,
+  brand: 'Irsap',
+  exponent,
+  elementWidth: 45,
+  depth,
+  waterContent: Math.round(columns * (m.height / 1000) * WATER_PER_COLUMN_METER * 100) / 100,
+  weight: Math.round(columns * (m.height / 1000) * WEIGHT_PER_COLUMN_METER * 100) / 100
+});
 
 export const TESI2_MODELS: RadiatorModel[] = [
   { label: "200", code: "RT 2 0200", height: 200, interaxis: 127, watts: 14.9 },
@@ -29,7 +53,7 @@ export const TESI2_MODELS: RadiatorModel[] = [
   { label: "2065", code: "RT 2 2065", height: 2065, interaxis: 2000, watts: 143.9 },
   { label: "2200", code: "RT 2 2200", height: 2200, interaxis: 2135, watts: 154.2 },
   { label: "2500", code: "RT 2 2500", height: 2500, interaxis: 2435, watts: 177.8 },
-];
+].map(withSeries(RadiatorSeries.TESI2, { exponent: 1.26, columns: 2, depth: 62 }));
 
 export const TESI3_MODELS: RadiatorModel[] = [
   { label: "200", code: "RT 3 0200", height: 200, interaxis: 127, watts: 20.3 },
@@ -59,7 +83,7 @@ export const TESI3_MODELS: RadiatorModel[] = [
   { label: "2065", code: "RT 3 2065", height: 2065, interaxis: 2000, watts: 193.2 },
   { label: "2200", code: "RT 3 2200", height: 2200, interaxis: 2135, watts: 205.7 },
   { label: "2500", code: "RT 3 2500", height: 2500, interaxis: 2435, watts: 233.7 },
-];
+].map(withSeries(RadiatorSeries.TESI3, { exponent: 1.28, columns: 3, depth: 101 }));
 
 export const TESI4_MODELS: RadiatorModel[] = [
   { label: "200", code: "RT 4 0200", height: 200, interaxis: 127, watts: 26.0 },
@@ -89,4 +113,6 @@ export const TESI4_MODELS: RadiatorModel[] = [
   { label: "2065", code: "RT 4 2065", height: 2065, interaxis: 2000, watts: 245.2 },
   { label: "2200", code: "RT 4 2200", height: 2200, interaxis: 2135, watts: 260.0 },
   { label: "2500", code: "RT 4 2500", height: 2500, interaxis: 2435, watts: 292.8 },
-];
+].map(withSeries(RadiatorSeries.TESI4, { exponent: 1.30, columns: 4, depth: 139 }));
+
+export const BUILTIN_MODELS: RadiatorModel[] = [...TESI2_MODELS, ...TESI3_MODELS, ...TESI4_MODELS];
@@ -0,0 +1,95 @@
+import { Project, Environment, RadiatorPosition, RadiatorSizing, BalancingSettings, BalancingValve, BalancingStatus, ValveKind, CircuitType } from '../types';
+import { INITIAL_BALANCING } from '../constants';
+import { BUILTIN_VALVES } from '../valveData';
+import { radiatorLabel } from './radiators';
+import { findManifold } from './topology';
+
+// Perdite localizzate (curve, raccordi, corpo radiatore) come quota della perdita lineare del circuito
+export const LOCAL_LOSS_ALLOWANCE = 0.3;
+
+const PA_PER_BAR = 100000;
+
+export interface BalancingRow {
+  env: Environment;
+  envIndex: number;
+  radiator: RadiatorPosition;
+  label: string;
+  flowRate: number; // l/h
+  circuitPressureDrop?: number; // Pa tubazione con perdite localizzate
+  valvePressureDrop?: number; // Pa da far dissipare alla valvola
+  requiredKv?: number;
+  presetting?: number;
+  status: BalancingStatus;
+}
+
+export interface BalancingResult {
+  settings: BalancingSettings;
+  valve: BalancingValve;
+  rows: BalancingRow[];
+  indexRow?: BalancingRow;
+  requiredHead: number; // Pa prevalenza richiesta all'origine dei circuiti
+}
+
+export const getBalancingSettings = (project: Project): BalancingSettings => project.balancing ?? INITIAL_BALANCING;
+
+export const findValve = (valveId: string): BalancingValve =>
+  BUILTIN_VALVES.find(v => v.id === valveId) ?? BUILTIN_VALVES[0];
+
+// Perdita (Pa) della valvola con kv dato attraversata dalla portata in l/h
+const valvePressureDrop = (flowRate: number, kv: number): number => Math.pow(flowRate / 1000 / kv, 2) * PA_PER_BAR;
+
+// Preregolazione che dà il kv richiesto, interpolando la curva e arrotondando al passo della valvola
+export const settingForKv = (valve: BalancingValve, kv: number): number => {
+  const curve = valve.curve;
+  const upper = curve.findIndex(p => p.kv >= kv);
+  let setting: number;
+  if (upper <= 0) setting = upper === 0 ? curve[0].setting : curve[curve.length - 1].setting;
+  else {
+    const a = curve[upper - 1];
+    const b = curve[upper];
+    setting = a.setting + (b.setting - a.setting) * (kv - a.kv) / (b.kv - a.kv);
+  }
+  const rounded = Math.round(setting / valve.step) * valve.step;
+  return Math.min(Math.max(rounded, curve[0].setting), curve[curve.length - 1].setting);
+};
+
+// Giri di apertura per i detentori, posizione di preregolazione per le termostatiche
+export const formatPresetting = (valve: BalancingValve, setting: number): string => {
+  const value = Number(setting.toFixed(2));
+  return valve.kind === ValveKind.THERMOSTATIC ? `pos. ${value}` : `${value} giri`;
+};
+
+// Il circuito indice è quello con la perdita maggiore a valvola tutta aperta: fissa la prevalenza,
+// gli altri radiatori dissipano la differenza sulla valvola preregolata
+export const calculateBalancing = (project: Project, getRadiators: (env: Environment) => RadiatorSizing[]): BalancingResult => {
+  const settings = getBalancingSettings(project);
+  const valve = findValve(settings.valveId);
+  const maxKv = valve.curve[valve.curve.length - 1].kv;
+  const minKv = valve.curve[0].kv;
+
+  const rows: BalancingRow[] = project.environments.flatMap((env, envIndex) => {
+    const radiators = getRadiators(env);
+    return radiators.map(({ radiator, sizing }) => {
+      const { flowRate, circuitPressureDrop } = sizing.hydraulics;
+      const row: BalancingRow = { env, envIndex, radiator, label: radiatorLabel(env, radiator, radiators.length), flowRate, status: BalancingStatus.MISSING_DATA };
+      if (findManifold(project, radiator.specs.connection?.manifoldId)?.circuitType === CircuitType.MONOTUBE) return { ...row, status: BalancingStatus.MONOTUBE };
+      if (circuitPressureDrop === undefined || flowRate <= 0) return row;
+      return { ...row, circuitPressureDrop: circuitPressureDrop * (1 + LOCAL_LOSS_ALLOWANCE), status: BalancingStatus.OK };
+    });
+  });
+
+  const calculated = rows.filter(r => r.circuitPressureDrop !== undefined);
+  const openTotal = (r: BalancingRow) => r.circuitPressureDrop! + valvePressureDrop(r.flowRate, maxKv);
+  const indexRow = calculated.reduce<BalancingRow | undefined>((worst, r) => !worst || openTotal(r) > openTotal(worst) ? r : worst, undefined);
+  if (!indexRow) return { settings, valve, rows, requiredHead: 0 };
+  const requiredHead = openTotal(indexRow);
+
+  const balanced = rows.map(row => {
+    if (row.circuitPressureDrop === undefined) return row;
+    const dropOnValve = requiredHead - row.circuitPressureDrop;
+    const requiredKv = row.flowRate / 1000 / Math.sqrt(dropOnValve / PA_PER_BAR);
+    const status = row === indexRow ? BalancingStatus.INDEX : requiredKv < minKv ? BalancingStatus.OUT_OF_RANGE : BalancingStatus.OK;
+    return { ...row, valvePressureDrop: dropOnValve, requiredKv, presetting: settingForKv(valve, requiredKv), status };
+  });
+  return { settings, valve, rows: balanced, indexRow: balanced[rows.indexOf(indexRow)], requiredHead };
+};
@@ -0,0 +1,125 @@
+import { Environment, RadiatorSizing, BomGroup, BomItem, BomSection, InteraxisMatch, Manifold, CircuitType } from '../types';
+import { VALVE_POSITION_LABELS } from '../constants';
+import { countBrackets, BRACKET_SPACING } from './quote';
+import { csvCell } from './catalogue';
+
+// Accumula quantità e ambienti sotto la stessa chiave mantenendo l'ordine di inserimento
+const createAccumulator = () => {
+  const items = new Map<string, BomItem>();
+  return {
+    add: (key: string, item: Omit<BomItem, 'quantity' | 'rooms'>, quantity: number, room: string) => {
+      const existing = items.get(key);
+      if (existing) {
+        existing.quantity += quantity;
+        if (!existing.rooms.includes(room)) existing.rooms.push(room);
+      } else {
+        items.set(key, { ...item, quantity, rooms: [room] });
+      }
+    },
+    toArray: (): BomItem[] => Array.from(items.values()).filter(i => i.quantity > 0)
+  };
+};
+
+export const buildBillOfMaterials = (
+  environments: Environment[],
+  getRadiators: (env: Environment) => RadiatorSizing[],
+  manifolds: Manifold[] = []
+): BomGroup[] => {
+  const radiators = createAccumulator();
+  const series = createAccumulator();
+  const valves = createAccumulator();
+  const fittings = createAccumulator();
+  const pipes = createAccumulator();
+  const brackets = createAccumulator();
+  const manifoldItems = createAccumulator();
+  const usedOutlets = new Map<string, Set<number>>();
+
+  environments.forEach(env => getRadiators(env).forEach(({ radiator, sizing }) => {
+    if (sizing.matchStatus === InteraxisMatch.NO_MODELS) return;
+    const { model } = sizing;
+    const { specs } = radiator;
+    const room = env.name;
+
+    // Radiatori uguali = stesso codice e stessa composizione
+    const size = sizing.isPanel ? `L ${sizing.bodyLength} mm` : `${sizing.currentElements} el.`;
+    radiators.add(`${model.code}|${size}`, {
+      code: model.code,
+      description: `${[model.brand, sizing.series, model.label].filter(Boolean).join(' ')} H ${model.height} / Int ${model.interaxis} - ${size}`,
+      unit: 'pz'
+    }, 1, room);
+
+    if (sizing.isPanel) {
+      series.add(`${sizing.series}|m`, { code: sizing.series, description: `Gamma ${sizing.series} (pannelli)`, unit: 'm' }, sizing.bodyLength / 1000, room);
+    } else {
+      series.add(`${sizing.series}|el`, { code: sizing.series, description: `Gamma ${sizing.series}`, unit: 'el' }, sizing.currentElements, room);
+    }
+
+    const position = specs.valvePosition;
+    const manifold = manifolds.find(m => m.id === specs.connection?.manifoldId);
+    const outlets = manifold ? usedOutlets.get(manifold.id) ?? new Set<number>() : undefined;
+    const outletKey = `${specs.pipeMaterial}|${specs.pipeDiameter}`;
+    const outletFitting = { code: `RACC-COLL ${specs.pipeMaterial} ${specs.pipeDiameter}`, description: `Raccordo per collettore tubo ${specs.pipeMaterial} ${specs.pipeDiameter}`, unit: 'pz' };
+    if (manifold && outlets && specs.connection) {
+      // Bitubo: mandata e ritorno per radiatore; monotubo: una coppia di raccordi per anello
+      if (manifold.circuitType === CircuitType.TWO_PIPE || !outlets.has(specs.connection.outlet)) {
+        fittings.add(`RACC-COLL|${outletKey}`, outletFitting, 2, room);
+      }
+      outlets.add(specs.connection.outlet);
+      usedOutlets.set(manifold.id, outlets);
+    }
+    if (manifold?.circuitType === CircuitType.MONOTUBE) {
+      valves.add(`MONO-${position}`, { code: `KIT-MONO-${position}`, description: `Valvola monotubo con sonda - ${VALVE_POSITION_LABELS[position]}`, unit: 'kit' }, 1, room);
+    } else {
+      valves.add(position, { code: `KIT-${position}`, description: `Kit valvola + detentore - ${VALVE_POSITION_LABELS[position]}`, unit: 'kit' }, 1, room);
+    }
+
+    if (sizing.needsEccentric) {
+      fittings.add('ECC', { code: 'ECC', description: 'Coppia raccordi eccentrici', unit: 'cp' }, 1, room);
+    }
+    if (specs.hasDiaphragm) {
+      fittings.add('DIAF', { code: 'DIAF', description: 'Kit diaframma interno', unit: 'pz' }, 1, room);
+    }
+
+    if (specs.pipeLength && specs.pipeLength > 0) {
+      const key = `${specs.pipeMaterial}|${specs.pipeDiameter}`;
+      pipes.add(key, { code: `${specs.pipeMaterial} ${specs.pipeDiameter}`, description: `Tubo ${specs.pipeMaterial} ${specs.pipeDiameter}`, unit: 'm' }, specs.pipeLength, room);
+    }
+
+    const perRadiator = countBrackets(sizing.bodyLength);
+    brackets.add(`${perRadiator}`, { code: `STAFFA-${perRadiator}`, description: `Staffe a muro (${perRadiator} per radiatore fino a ${perRadiator * BRACKET_SPACING} mm)`, unit: 'pz' }, perRadiator, room);
+  }));
+
+  manifolds.forEach(manifold => {
+    const place = manifold.location || manifold.name;
+    const isRing = manifold.circuitType === CircuitType.MONOTUBE;
+    manifoldItems.add(`${manifold.circuitType}|${manifold.outlets}`, {
+      code: `COLL-${isRing ? 'MONO' : 'BT'}-${manifold.outlets}`,
+      description: isRing ? `Collettore monotubo ${manifold.outlets} anelli` : `Collettore complanare bitubo ${manifold.outlets}+${manifold.outlets} uscite`,
+      unit: 'pz'
+    }, 1, place);
+    // Mandata e ritorno delle uscite rimaste libere
+    const free = manifold.outlets - (usedOutlets.get(manifold.id)?.size ?? 0);
+    manifoldItems.add('TAPPO', { code: 'TAPPO-COLL', description: 'Tappo per uscita collettore non utilizzata', unit: 'pz' }, 2 * free, place);
+  });
+
+  return [
+    { section: BomSection.RADIATORS, items: radiators.toArray() },
+    { section: BomSection.SERIES, items: series.toArray() },
+    { section: BomSection.VALVES, items: valves.toArray() },
+    { section: BomSection.FITTINGS, items: fittings.toArray() },
+    { section: BomSection.PIPES, items: pipes.toArray() },
+    { section: BomSection.BRACKETS, items: brackets.toArray() },
+    { section: BomSection.MANIFOLDS, items: manifoldItems.toArray() }
+  ];
+};
+
+export const formatBomQuantity = (item: BomItem): string =>
+  Number.isInteger(item.quantity) ? String(item.quantity) : item.quantity.toFixed(2).replace('.', ',');
+
+export const exportBomCsv = (groups: BomGroup[]): string => {
+  const lines = [['sezione', 'codice', 'descrizione', 'um', 'quantita', 'ambienti'].join(';')];
+  groups.forEach(g => g.items.forEach(item => {
+    lines.push([g.section, item.code, item.description, item.unit, formatBomQuantity(item), item.rooms.join(', ')].map(csvCell).join(';'));
+  }));
+  return lines.join('\n');
+};
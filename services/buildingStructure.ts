@@ -0,0 +1,146 @@
+import { Project, Environment, BuildingFloor, BuildingUnit, RadiatorSizing } from '../types';
+import { duplicateEnvironment } from './projectManagement';
+import { summarizeRoom } from './radiators';
+import { clearConnections } from './topology';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export interface StructureTotals {
+  environmentCount: number;
+  radiatorCount: number;
+  requiredWatts: number; // Carico di progetto (fabbisogno)
+  totalWatts: number; // Resa installata
+  nominalTotalWatts: number;
+}
+
+export interface IndexedEnvironment {
+  env: Environment;
+  index: number; // Posizione in project.environments
+}
+
+// unit/floor assenti = ambienti non ancora assegnati
+export interface UnitGroup {
+  unit?: BuildingUnit;
+  environments: IndexedEnvironment[];
+  totals: StructureTotals;
+}
+
+export interface FloorGroup {
+  floor?: BuildingFloor;
+  units: UnitGroup[];
+  totals: StructureTotals;
+}
+
+export interface BuildingSummary {
+  floors: FloorGroup[];
+  totals: StructureTotals;
+}
+
+const EMPTY_TOTALS: StructureTotals = { environmentCount: 0, radiatorCount: 0, requiredWatts: 0, totalWatts: 0, nominalTotalWatts: 0 };
+
+const addTotals = (a: StructureTotals, b: StructureTotals): StructureTotals => ({
+  environmentCount: a.environmentCount + b.environmentCount,
+  radiatorCount: a.radiatorCount + b.radiatorCount,
+  requiredWatts: a.requiredWatts + b.requiredWatts,
+  totalWatts: a.totalWatts + b.totalWatts,
+  nominalTotalWatts: a.nominalTotalWatts + b.nominalTotalWatts
+});
+
+const sumTotals = (items: StructureTotals[]): StructureTotals => items.reduce(addTotals, EMPTY_TOTALS);
+
+export const hasStructure = (project: Project): boolean => (project.units?.length ?? 0) > 0;
+
+export const findUnit = (project: Project, unitId?: string): BuildingUnit | undefined =>
+  unitId ? project.units?.find(u => u.id === unitId) : undefined;
+
+export const findFloor = (project: Project, floorId?: string): BuildingFloor | undefined =>
+  floorId ? project.floors?.find(f => f.id === floorId) : undefined;
+
+export const unitLabel = (project: Project, unit: BuildingUnit): string => {
+  const floor = findFloor(project, unit.floorId);
+  return floor ? `${floor.name} · ${unit.name}` : unit.name;
+};
+
+// Raggruppa gli ambienti per piano e unità nell'ordine della struttura; in coda quelli non assegnati
+export const summarizeBuilding = (
+  project: Project,
+  getRadiators: (env: Environment) => RadiatorSizing[],
+  getRoomWatts: (env: Environment) => number
+): BuildingSummary => {
+  const indexed = project.environments.map((env, index) => ({ env, index }));
+  const environmentTotals = ({ env }: IndexedEnvironment): StructureTotals => {
+    const radiators = getRadiators(env);
+    const room = summarizeRoom(radiators, getRoomWatts(env));
+    return { environmentCount: 1, radiatorCount: radiators.length, ...room };
+  };
+  const unitGroup = (unit: BuildingUnit | undefined, environments: IndexedEnvironment[]): UnitGroup =>
+    ({ unit, environments, totals: sumTotals(environments.map(environmentTotals)) });
+  const floorGroup = (floor: BuildingFloor | undefined, units: UnitGroup[]): FloorGroup =>
+    ({ floor, units, totals: sumTotals(units.map(u => u.totals)) });
+
+  const units = project.units ?? [];
+  const floors: FloorGroup[] = (project.floors ?? []).map(floor => floorGroup(
+    floor,
+    units.filter(u => u.floorId === floor.id).map(unit => unitGroup(unit, indexed.filter(({ env }) => env.unitId === unit.id)))
+  ));
+  const unassigned = indexed.filter(({ env }) => !findUnit(project, env.unitId));
+  if (unassigned.length > 0) floors.push(floorGroup(undefined, [unitGroup(undefined, unassigned)]));
+
+  return { floors, totals: sumTotals(floors.map(f => f.totals)) };
+};
+
+export const addFloor = (project: Project): Project => {
+  const floors = project.floors ?? [];
+  return { ...project, floors: [...floors, { id: newId(), name: `Piano ${floors.length}` }] };
+};
+
+export const addUnit = (project: Project, floorId: string): Project => {
+  const units = project.units ?? [];
+  const count = units.filter(u => u.floorId === floorId).length;
+  return { ...project, units: [...units, { id: newId(), name: `Unità ${count + 1}`, floorId }] };
+};
+
+export const renameFloor = (project: Project, floorId: string, name: string): Project =>
+  ({ ...project, floors: (project.floors ?? []).map(f => f.id === floorId ? { ...f, name } : f) });
+
+export const renameUnit = (project: Project, unitId: string, name: string): Project =>
+  ({ ...project, units: (project.units ?? []).map(u => u.id === unitId ? { ...u, name } : u) });
+
+// Gli ambienti delle unità rimosse restano nel progetto senza assegnazione
+const unassignEnvironments = (project: Project, unitIds: string[]): Environment[] =>
+  project.environments.map(env => env.unitId && unitIds.includes(env.unitId) ? { ...env, unitId: undefined } : env);
+
+export const removeUnit = (project: Project, unitId: string): Project => ({
+  ...project,
+  units: (project.units ?? []).filter(u => u.id !== unitId),
+  environments: unassignEnvironments(project, [unitId])
+});
+
+export const removeFloor = (project: Project, floorId: string): Project => {
+  const unitIds = (project.units ?? []).filter(u => u.floorId === floorId).map(u => u.id);
+  return {
+    ...project,
+    floors: (project.floors ?? []).filter(f => f.id !== floorId),
+    units: (project.units ?? []).filter(u => u.floorId !== floorId),
+    environments: unassignEnvironments(project, unitIds)
+  };
+};
+
+export const assignEnvironment = (project: Project, envId: string, unitId: string | undefined): Project =>
+  ({ ...project, environments: project.environments.map(env => env.id === envId ? { ...env, unitId } : env) });
+
+// Copia l'unità con tutti i suoi ambienti sui piani indicati (tipico dei condomini con piani ripetuti)
+export const copyUnitToFloors = (project: Project, unitId: string, floorIds: string[]): Project => {
+  const unit = findUnit(project, unitId);
+  if (!unit) return project;
+  const environments = project.environments.filter(env => env.unitId === unitId);
+  const copies = floorIds.filter(floorId => floorId !== unit.floorId).map(floorId => ({ ...unit, id: newId(), floorId }));
+  return {
+    ...project,
+    units: [...(project.units ?? []), ...copies],
+    environments: [
+      ...project.environments,
+      ...copies.flatMap(copy => environments.map(env => ({ ...clearConnections(duplicateEnvironment(env, env.name)), unitId: copy.id })))
+    ]
+  };
+};
@@ -0,0 +1,210 @@
+import { RadiatorModel, RadiatorSeries, SeriesOption, CatalogueImportIssue, CatalogueImportResult } from '../types';
+import { BUILTIN_MODELS } from '../radiatorData';
+
+export const CATALOGUE_FORMAT = 'archquote-catalogue';
+
+// Colonne del CSV nell'ordine di esportazione
+export const CSV_COLUMNS: (keyof RadiatorModel)[] = [
+  'brand', 'series', 'code', 'label', 'height', 'interaxis', 'watts',
+  'exponent', 'elementWidth', 'depth', 'waterContent', 'weight', 'price', 'fixedLengths'
+];
+
+const NUMERIC_FIELDS: (keyof RadiatorModel)[] = [
+  'height', 'interaxis', 'watts', 'exponent', 'elementWidth', 'depth', 'waterContent', 'weight', 'price'
+];
+
+const REQUIRED_POSITIVE: (keyof RadiatorModel)[] = ['height', 'interaxis', 'watts'];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const getModelSeries = (model: RadiatorModel): RadiatorSeries => model.series || RadiatorSeries.CUSTOM;
+
+export const getAllModels = (customModels: RadiatorModel[]): RadiatorModel[] => [...BUILTIN_MODELS, ...customModels];
+
+export const getSeriesModels = (series: RadiatorSeries, customModels: RadiatorModel[]): RadiatorModel[] =>
+  getAllModels(customModels).filter(m => getModelSeries(m) === series);
+
+export const getSeriesOptions = (customModels: RadiatorModel[]): SeriesOption[] => {
+  const options = new Map<RadiatorSeries, SeriesOption>();
+  getAllModels(customModels).forEach(m => {
+    const id = getModelSeries(m);
+    const existing = options.get(id);
+    if (existing) {
+      existing.modelCount += 1;
+    } else {
+      options.set(id, { id, brand: m.brand, label: m.brand ? `${m.brand} ${id}` : id, modelCount: 1 });
+    }
+  });
+  return Array.from(options.values());
+};
+
+const codeKey = (model: RadiatorModel) => model.code.trim().toUpperCase();
+
+// Codici del catalogo predefinito: non possono essere riutilizzati né sostituiti dai modelli personalizzati
+export const isBuiltinCode = (code: string): boolean => BUILTIN_MODELS.some(m => codeKey(m) === code.trim().toUpperCase());
+
+export const findDuplicateCodes = (models: RadiatorModel[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  models.forEach(m => {
+    const code = m.code.trim().toUpperCase();
+    if (!code) return;
+    if (seen.has(code)) duplicates.add(m.code);
+    seen.add(code);
+  });
+  return Array.from(duplicates);
+};
+
+export const validateModel = (model: Partial<RadiatorModel>): string[] => {
+  const errors: string[] = [];
+  if (!model.code || !String(model.code).trim()) errors.push('Codice mancante');
+  if (!model.label || !String(model.label).trim()) errors.push('Modello mancante');
+  NUMERIC_FIELDS.forEach(field => {
+    const value = model[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push(`Valore non valido per "${field}"`);
+    }
+  });
+  if (model.fixedLengths !== undefined && (!Array.isArray(model.fixedLengths) || !model.fixedLengths.every(l => Number.isFinite(l) && l > 0))) {
+    errors.push('Lunghezze fisse non valide');
+  }
+  REQUIRED_POSITIVE.forEach(field => {
+    const value = model[field];
+    if (typeof value !== 'number' || !(value > 0)) errors.push(`"${field}" deve essere maggiore di zero`);
+  });
+  return errors;
+};
+
+const normaliseModel = (raw: Record<string, unknown>): Partial<RadiatorModel> => {
+  const model: Record<string, unknown> = {};
+  CSV_COLUMNS.forEach(field => {
+    const value = raw[field];
+    if (value === undefined || value === null || value === '') return;
+    if (field === 'fixedLengths') {
+      model[field] = parseLengths(value);
+    } else if (NUMERIC_FIELDS.includes(field)) {
+      model[field] = typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+    } else {
+      model[field] = String(value).trim();
+    }
+  });
+  return model as Partial<RadiatorModel>;
+};
+
+const buildImportResult = (rows: Record<string, unknown>[], existing: RadiatorModel[], rowOffset: number): CatalogueImportResult => {
+  const errors: CatalogueImportIssue[] = [];
+  const models: RadiatorModel[] = [];
+
+  rows.forEach((raw, i) => {
+    const model = normaliseModel(raw);
+    const rowErrors = validateModel(model);
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ row: i + rowOffset, code: model.code, message }));
+      return;
+    }
+    models.push({ ...(model as RadiatorModel), id: newId() });
+  });
+
+  const existingCodes = new Set(getAllModels(existing).map(codeKey));
+  const duplicates = new Set(findDuplicateCodes(models));
+  models.forEach(m => {
+    if (existingCodes.has(m.code.trim().toUpperCase())) duplicates.add(m.code);
+  });
+
+  return { models, errors, duplicates: Array.from(duplicates) };
+};
+
+export const parseCatalogueJson = (text: string, existing: RadiatorModel[]): CatalogueImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { models: [], errors: [{ row: 0, message: 'File JSON non leggibile' }], duplicates: [] };
+  }
+  const rows = Array.isArray(data) ? data : (data as { models?: unknown })?.models;
+  if (!Array.isArray(rows)) {
+    return { models: [], errors: [{ row: 0, message: 'Nessun elenco modelli trovato nel file' }], duplicates: [] };
+  }
+  return buildImportResult(rows.filter(r => r && typeof r === 'object'), existing, 1);
+};
+
+const splitCsvLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === separator && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+};
+
+export const parseCatalogueCsv = (text: string, existing: RadiatorModel[]): CatalogueImportResult => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length < 2) {
+    return { models: [], errors: [{ row: 0, message: 'Il file CSV non contiene modelli' }], duplicates: [] };
+  }
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = splitCsvLine(lines[0], separator);
+  const missing = ['code', 'label', 'height', 'interaxis', 'watts'].filter(c => !header.includes(c));
+  if (missing.length > 0) {
+    return { models: [], errors: [{ row: 1, message: `Colonne mancanti: ${missing.join(', ')}` }], duplicates: [] };
+  }
+  const rows = lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, separator);
+    const row: Record<string, unknown> = {};
+    header.forEach((column, i) => { row[column] = cells[i]; });
+    return row;
+  });
+  // La riga 1 è l'intestazione
+  return buildImportResult(rows, existing, 2);
+};
+
+// Lunghezze pannello: array JSON oppure elenco separato da "|" o spazi nel CSV
+export const parseLengths = (value: unknown): number[] =>
+  (Array.isArray(value) ? value : String(value).split(/[|\s]+/))
+    .filter(v => v !== '')
+    .map(v => Number(v));
+
+// Unisce i modelli importati: i codici personalizzati già presenti vengono sostituiti o ignorati,
+// quelli del catalogo predefinito sempre ignorati
+export const mergeCatalogue = (existing: RadiatorModel[], incoming: RadiatorModel[], replaceDuplicates: boolean): RadiatorModel[] => {
+  const incomingByCode = new Map(incoming.map(m => [codeKey(m), m]));
+  const merged = existing.map(m => {
+    const replacement = incomingByCode.get(codeKey(m));
+    return replacement && replaceDuplicates ? { ...replacement, id: m.id } : m;
+  });
+  const existingCodes = new Set(getAllModels(existing).map(codeKey));
+  incomingByCode.forEach((m, code) => {
+    if (!existingCodes.has(code)) merged.push(m);
+  });
+  return merged;
+};
+
+export const exportCatalogueJson = (models: RadiatorModel[]): string =>
+  JSON.stringify({ format: CATALOGUE_FORMAT, exportedAt: new Date().toISOString(), models: models.map(({ id, ...m }) => m) }, null, 2);
+
+export const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join('|') : String(value);
+  return /[;"\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCatalogueCsv = (models: RadiatorModel[]): string => {
+  const lines = [CSV_COLUMNS.join(';')];
+  models.forEach(m => lines.push(CSV_COLUMNS.map(c => csvCell(m[c])).join(';')));
+  return lines.join('\n');
+};
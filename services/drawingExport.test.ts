@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { DrawingLayer, TechnicalDrawing } from '../types';
+import { exportElevationDxf } from './drawingExport';
+
+// Un esempio per ogni primitiva del prospetto
+const drawing: TechnicalDrawing = {
+  primitives: [
+    { kind: 'rect', layer: DrawingLayer.NICHE, x: 0, y: 0, width: 1000, height: 700 },
+    { kind: 'line', layer: DrawingLayer.DIMENSIONS, x1: 0, y1: -50, x2: 1000, y2: -50, dashed: true },
+    { kind: 'circle', layer: DrawingLayer.VALVES, cx: 100, cy: 80, r: 12.5 },
+    { kind: 'polygon', layer: DrawingLayer.DIMENSIONS, points: [[0, -50], [10, -45], [10, -55]] },
+    { kind: 'text', layer: DrawingLayer.TEXT, x: 500, y: -60, text: '1000', size: 25, anchor: 'middle', angle: 90 }
+  ],
+  bounds: { minX: 0, minY: -60, maxX: 1000, maxY: 700 }
+};
+
+// Variabili di intestazione e entità previste dal formato R12 usate dall'esportazione
+const R12_HEADER_VARIABLES = ['$ACADVER', '$EXTMIN', '$EXTMAX'];
+const R12_ENTITIES = ['LINE', 'CIRCLE', 'SOLID', 'TEXT'];
+
+const dxfPairs = (dxf: string): [number, string][] => {
+  const lines = dxf.split('\r\n');
+  expect(lines.pop()).toBe('');
+  expect(lines.length % 2).toBe(0);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) {
+    expect(lines[i]).toMatch(/^\d+$/);
+    pairs.push([Number(lines[i]), lines[i + 1]]);
+  }
+  return pairs;
+};
+
+// Coppie raggruppate per nome di sezione (i commenti 999 restano fuori)
+const dxfSections = (pairs: [number, string][]): Map<string, [number, string][]> => {
+  const sections = new Map<string, [number, string][]>();
+  const all = pairs.filter(([code]) => code !== 999);
+  let current: [number, string][] | null = null;
+  for (let i = 0; i < all.length; i++) {
+    const [code, value] = all[i];
+    if (code === 0 && value === 'SECTION') {
+      expect(current).toBeNull();
+      expect(all[i + 1][0]).toBe(2);
+      current = [];
+      sections.set(all[++i][1], current);
+    } else if (code === 0 && value === 'ENDSEC') {
+      expect(current).not.toBeNull();
+      current = null;
+    } else if (current) {
+      current.push([code, value]);
+    } else {
+      expect([code, value]).toEqual([0, 'EOF']);
+      expect(i).toBe(all.length - 1);
+    }
+  }
+  expect(current).toBeNull();
+  return sections;
+};
+
+describe('exportElevationDxf', () => {
+  const pairs = dxfPairs(exportElevationDxf(drawing));
+  const sections = dxfSections(pairs);
+  const entities = sections.get('ENTITIES')!;
+
+  it('produce coppie codice/valore con sezioni chiuse e termina con EOF', () => {
+    expect([...sections.keys()]).toEqual(['HEADER', 'TABLES', 'ENTITIES']);
+    expect(pairs[pairs.length - 1]).toEqual([0, 'EOF']);
+  });
+
+  it('dichiara la versione R12 e solo variabili di intestazione R12', () => {
+    const header = sections.get('HEADER')!;
+    const variables = header.filter(([code]) => code === 9).map(([, name]) => name);
+    expect(variables).toEqual(R12_HEADER_VARIABLES);
+    expect(header[header.findIndex(([, v]) => v === '$ACADVER') + 1]).toEqual([1, 'AC1009']);
+  });
+
+  it('indica le unità in un commento', () => {
+    expect(pairs[0][0]).toBe(999);
+    expect(pairs[0][1]).toMatch(/millimetri/);
+  });
+
+  it('usa solo entità R12 su layer e tipi di linea definiti', () => {
+    const tables = sections.get('TABLES')!;
+    const defined = (table: string) => new Set(tables.filter(([code], i) => code === 2 && tables[i - 1][1] === table).map(([, name]) => name));
+    const layers = defined('LAYER');
+    const linetypes = defined('LTYPE');
+    expect(tables.filter(([, v]) => v === 'TABLE').length).toBe(tables.filter(([, v]) => v === 'ENDTAB').length);
+    entities.filter(([code]) => code === 0).forEach(([, type]) => expect(R12_ENTITIES).toContain(type));
+    entities.filter(([code]) => code === 8).forEach(([, layer]) => expect(layers.has(layer)).toBe(true));
+    entities.filter(([code]) => code === 6).forEach(([, linetype]) => expect(linetypes.has(linetype)).toBe(true));
+  });
+});
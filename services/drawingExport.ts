@@ -0,0 +1,219 @@
+import { DrawingLayer, DrawingPrimitive, TechnicalDrawing, TextAnchor, Project, Environment, RadiatorPosition } from '../types';
+import { LAYER_COLORS } from '../constants';
+import { projectSlug, slugify } from './projectFile';
+import { createZip } from './zip';
+
+const DRAWING_MARGIN = 20; // mm attorno al disegno nell'SVG
+const DASH_PATTERN = '8 6'; // mm
+
+// Colori ACI dei layer DXF (equivalenti a LAYER_COLORS)
+const DXF_LAYER_COLORS: Record<DrawingLayer, number> = {
+  [DrawingLayer.NICHE]: 8,
+  [DrawingLayer.RADIATOR]: 250,
+  [DrawingLayer.VALVES]: 1,
+  [DrawingLayer.DIMENSIONS]: 9,
+  [DrawingLayer.DIMENSION_ERRORS]: 1,
+  [DrawingLayer.TEXT]: 7
+};
+
+const DXF_HORIZONTAL_ALIGN: Record<TextAnchor, number> = { start: 0, middle: 1, end: 2 };
+
+const num = (value: number): string => `${Math.round(value * 100) / 100}`;
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SVG in mm reali: 1 unità del viewBox = 1 mm, un gruppo per layer
+export const exportElevationSvg = (drawing: TechnicalDrawing, title = ''): string => {
+  const { minX, minY, maxX, maxY } = drawing.bounds;
+  const width = maxX - minX + 2 * DRAWING_MARGIN;
+  const height = maxY - minY + 2 * DRAWING_MARGIN;
+  const x = (value: number) => num(value - minX + DRAWING_MARGIN);
+  const y = (value: number) => num(maxY - value + DRAWING_MARGIN);
+
+  const renderPrimitive = (p: DrawingPrimitive): string => {
+    switch (p.kind) {
+      case 'line':
+        return `<line x1="${x(p.x1)}" y1="${y(p.y1)}" x2="${x(p.x2)}" y2="${y(p.y2)}"${p.dashed ? ` stroke-dasharray="${DASH_PATTERN}"` : ''} />`;
+      case 'rect':
+        return `<rect x="${x(p.x)}" y="${y(p.y + p.height)}" width="${num(p.width)}" height="${num(p.height)}" fill="none" />`;
+      case 'circle':
+        return `<circle cx="${x(p.cx)}" cy="${y(p.cy)}" r="${num(p.r)}" fill="currentColor" />`;
+      case 'polygon':
+        return `<polygon points="${p.points.map(([px, py]) => `${x(px)},${y(py)}`).join(' ')}" fill="currentColor" stroke="none" />`;
+      case 'text': {
+        const rotation = p.angle ? ` transform="rotate(${num(-p.angle)} ${x(p.x)} ${y(p.y)})"` : '';
+        return `<text x="${x(p.x)}" y="${y(p.y)}" font-size="${num(p.size)}" text-anchor="${p.anchor}" fill="currentColor" stroke="none"${rotation}>${escapeXml(p.text)}</text>`;
+      }
+    }
+  };
+
+  const groups = Object.values(DrawingLayer).map(layer => {
+    const items = drawing.primitives.filter(p => p.layer === layer);
+    if (items.length === 0) return '';
+    return [
+      `  <g id="${layer}" color="${LAYER_COLORS[layer]}" stroke="currentColor" stroke-width="1.5">`,
+      ...items.map(p => `    ${renderPrimitive(p)}`),
+      '  </g>'
+    ].join('\n');
+  }).filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}mm" height="${num(height)}mm" viewBox="0 0 ${num(width)} ${num(height)}" font-family="Arial, Helvetica, sans-serif" font-weight="bold">`,
+    ...(title ? [`  <title>${escapeXml(title)}</title>`] : []),
+    ...groups,
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+// DXF ASCII (R12) in mm con un layer per categoria; le coppie codice/valore vanno su righe alterne.
+// R12 non ha variabili per le unità ($INSUNITS e $MEASUREMENT arrivano con le versioni successive):
+// sono indicate in un commento
+const DXF_UNITS_COMMENT = 'Unita di disegno: millimetri';
+
+export const exportElevationDxf = (drawing: TechnicalDrawing): string => {
+  const out: (string | number)[] = [];
+  const pair = (code: number, value: string | number) => out.push(code, typeof value === 'number' ? num(value) : value);
+
+  const point = (xCode: number, x: number, y: number) => {
+    pair(xCode, x);
+    pair(xCode + 10, y);
+    pair(xCode + 20, 0);
+  };
+
+  const line = (layer: DrawingLayer, x1: number, y1: number, x2: number, y2: number, dashed = false) => {
+    pair(0, 'LINE');
+    pair(8, layer);
+    if (dashed) pair(6, 'DASHED');
+    point(10, x1, y1);
+    point(11, x2, y2);
+  };
+
+  const { minX, minY, maxX, maxY } = drawing.bounds;
+  pair(999, DXF_UNITS_COMMENT);
+  pair(0, 'SECTION');
+  pair(2, 'HEADER');
+  pair(9, '$ACADVER');
+  pair(1, 'AC1009');
+  pair(9, '$EXTMIN');
+  point(10, minX, minY);
+  pair(9, '$EXTMAX');
+  point(10, maxX, maxY);
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION');
+  pair(2, 'TABLES');
+  pair(0, 'TABLE');
+  pair(2, 'LTYPE');
+  pair(70, 2);
+  pair(0, 'LTYPE');
+  pair(2, 'CONTINUOUS');
+  pair(70, 0);
+  pair(3, 'Solid line');
+  pair(72, 65);
+  pair(73, 0);
+  pair(40, 0);
+  pair(0, 'LTYPE');
+  pair(2, 'DASHED');
+  pair(70, 0);
+  pair(3, '__ __ __');
+  pair(72, 65);
+  pair(73, 2);
+  pair(40, 14);
+  pair(49, 8);
+  pair(49, -6);
+  pair(0, 'ENDTAB');
+  pair(0, 'TABLE');
+  pair(2, 'LAYER');
+  pair(70, Object.values(DrawingLayer).length);
+  Object.values(DrawingLayer).forEach(layer => {
+    pair(0, 'LAYER');
+    pair(2, layer);
+    pair(70, 0);
+    pair(62, DXF_LAYER_COLORS[layer]);
+    pair(6, 'CONTINUOUS');
+  });
+  pair(0, 'ENDTAB');
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION');
+  pair(2, 'ENTITIES');
+  drawing.primitives.forEach(p => {
+    switch (p.kind) {
+      case 'line':
+        line(p.layer, p.x1, p.y1, p.x2, p.y2, p.dashed);
+        break;
+      case 'rect':
+        line(p.layer, p.x, p.y, p.x + p.width, p.y);
+        line(p.layer, p.x + p.width, p.y, p.x + p.width, p.y + p.height);
+        line(p.layer, p.x + p.width, p.y + p.height, p.x, p.y + p.height);
+        line(p.layer, p.x, p.y + p.height, p.x, p.y);
+        break;
+      case 'circle':
+        pair(0, 'CIRCLE');
+        pair(8, p.layer);
+        point(10, p.cx, p.cy);
+        pair(40, p.r);
+        break;
+      case 'polygon': {
+        // SOLID richiede 4 vertici: per un triangolo il terzo si ripete
+        const [a, b, c, d = c] = p.points;
+        pair(0, 'SOLID');
+        pair(8, p.layer);
+        point(10, a[0], a[1]);
+        point(11, b[0], b[1]);
+        point(12, d[0], d[1]);
+        point(13, c[0], c[1]);
+        break;
+      }
+      case 'text':
+        pair(0, 'TEXT');
+        pair(8, p.layer);
+        point(10, p.x, p.y);
+        pair(40, p.size);
+        pair(1, p.text);
+        if (p.angle) pair(50, p.angle);
+        if (p.anchor !== 'start') {
+          pair(72, DXF_HORIZONTAL_ALIGN[p.anchor]);
+          point(11, p.x, p.y);
+        }
+        break;
+    }
+  });
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+  return out.join('\r\n') + '\r\n';
+};
+
+export type DrawingFormat = 'svg' | 'dxf';
+
+export interface RadiatorDrawing {
+  radiator: RadiatorPosition;
+  drawing: TechnicalDrawing;
+}
+
+// Con più radiatori nello stesso ambiente il nome del radiatore entra nel file
+export const elevationFileName = (project: Project, env: Environment, format: DrawingFormat, radiator?: RadiatorPosition): string => {
+  const radiatorPart = radiator ? `-${slugify(radiator.name) || radiator.id}` : '';
+  return `${projectSlug(project)}-${slugify(env.name) || env.id}${radiatorPart}.${format}`;
+};
+
+export const exportElevation = (drawing: TechnicalDrawing, format: DrawingFormat, title = ''): string =>
+  format === 'svg' ? exportElevationSvg(drawing, title) : exportElevationDxf(drawing);
+
+// Tutti i prospetti del progetto (uno per radiatore) in entrambi i formati
+export const buildElevationZip = (project: Project, getDrawings: (env: Environment) => RadiatorDrawing[]): Uint8Array =>
+  createZip(project.environments.flatMap((env, index) => {
+    const drawings = getDrawings(env);
+    return drawings.flatMap(({ radiator, drawing }) => {
+      const radiatorRef = drawings.length > 1 ? radiator : undefined;
+      const title = radiatorRef ? `${env.name} - ${radiator.name}` : env.name;
+      // Il progressivo evita collisioni tra ambienti con lo stesso nome
+      return (['svg', 'dxf'] as DrawingFormat[]).map(format => ({
+        name: `${format}/${String(index + 1).padStart(2, '0')}-${elevationFileName(project, env, format, radiatorRef)}`,
+        content: exportElevation(drawing, format, title)
+      }));
+    });
+  }));
@@ -0,0 +1,253 @@
+import { RadiatorSpecs, SizingResult, ValidationIssue, ValvePosition, DrawingLayer, DrawingPrimitive, DrawingBounds, TechnicalDrawing, TextAnchor } from '../types';
+import { VALVE_BODY_OFFSET } from './sizingEngine';
+import { RADIATOR_BELOW_VALVE } from './interaxisMatching';
+import { DEFAULT_RADIATOR_DEPTH, calculateWallClearance } from './validation';
+
+export const VALVE_RADIUS = 15; // mm, ingombro indicativo del corpo valvola
+const PANEL_RIB_SPACING = 50; // mm
+const COLLECTOR_HEIGHT = 8; // mm, fasce superiore e inferiore del corpo
+const DIAPHRAGM_OFFSET = 100; // mm dalla valvola di mandata
+const TICK = 12; // mm, semi-lunghezza dei tratti di quota
+const DIMENSION_GAP = 70; // mm tra le linee di quota successive
+const WALL_OVERHANG = 60; // mm di parete e pavimento disegnati oltre la nicchia
+const DEFAULT_PIPE_DIAMETER = 16; // mm per tubazioni non specificate
+
+// Diametri esterni dei tubi in acciaio con filettatura gas
+const THREADED_PIPE_DIAMETERS: Record<string, number> = { '3/8"': 17.2, '1/2"': 21.3, '3/4"': 26.9, '1"': 33.7 };
+
+export const pipeOuterDiameter = (pipeDiameter: string): number =>
+  THREADED_PIPE_DIAMETERS[pipeDiameter] ?? (parseFloat(pipeDiameter) || DEFAULT_PIPE_DIAMETER);
+
+const boundsOf = (primitives: DrawingPrimitive[]): DrawingBounds => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  primitives.forEach(p => {
+    switch (p.kind) {
+      case 'line': xs.push(p.x1, p.x2); ys.push(p.y1, p.y2); break;
+      case 'rect': xs.push(p.x, p.x + p.width); ys.push(p.y, p.y + p.height); break;
+      case 'circle': xs.push(p.cx - p.r, p.cx + p.r); ys.push(p.cy - p.r, p.cy + p.r); break;
+      case 'polygon': p.points.forEach(([x, y]) => { xs.push(x); ys.push(y); }); break;
+      case 'text': xs.push(p.x - p.size, p.x + p.size); ys.push(p.y - p.size, p.y + p.size); break;
+    }
+  });
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+// Raccolta di primitive con gli aiuti per testi e quote comuni a tutte le viste
+const createDrawing = (textSize: number) => {
+  const primitives: DrawingPrimitive[] = [];
+
+  const text = (x: number, y: number, value: string, anchor: TextAnchor = 'middle', layer = DrawingLayer.TEXT, angle?: number) =>
+    primitives.push({ kind: 'text', layer, x, y, text: value, size: textSize, anchor, angle });
+
+  const horizontalDimension = (x1: number, x2: number, y: number, label: string, error = false) => {
+    const layer = error ? DrawingLayer.DIMENSION_ERRORS : DrawingLayer.DIMENSIONS;
+    primitives.push({ kind: 'line', layer, x1, y1: y, x2, y2: y });
+    primitives.push({ kind: 'line', layer, x1, y1: y - TICK, x2: x1, y2: y + TICK });
+    primitives.push({ kind: 'line', layer, x1: x2, y1: y - TICK, x2, y2: y + TICK });
+    text((x1 + x2) / 2, y + textSize * 0.4, label, 'middle', layer);
+  };
+
+  const verticalDimension = (y1: number, y2: number, x: number, label: string, error = false) => {
+    const layer = error ? DrawingLayer.DIMENSION_ERRORS : DrawingLayer.DIMENSIONS;
+    primitives.push({ kind: 'line', layer, x1: x, y1, x2: x, y2 });
+    primitives.push({ kind: 'line', layer, x1: x - TICK, y1, x2: x + TICK, y2: y1 });
+    primitives.push({ kind: 'line', layer, x1: x - TICK, y1: y2, x2: x + TICK, y2 });
+    text(x - textSize * 0.4, (y1 + y2) / 2, label, 'middle', layer, 90);
+  };
+
+  const finish = (): TechnicalDrawing => ({ primitives, bounds: boundsOf(primitives) });
+
+  return { primitives, text, horizontalDimension, verticalDimension, finish };
+};
+
+// Geometria installazione comune alle viste (stesse regole del prospetto a video)
+const installationLayout = (specs: RadiatorSpecs, sizing: SizingResult) => {
+  const { valvePosition, sideValveDistance, valveHeight, valveCenterDistance } = specs;
+  const bodyLength = Math.max(sizing.bodyLength, 1);
+  const nicheWidth = specs.nicheWidth > 0 ? specs.nicheWidth : sideValveDistance + sizing.totalOccupiedWidth;
+  const radHeight = sizing.model.height > 0 ? sizing.model.height : Math.max(valveCenterDistance + 100, 50);
+  const nicheHeight = specs.nicheHeight > 0 ? specs.nicheHeight : valveHeight - RADIATOR_BELOW_VALVE + radHeight;
+  const depth = sizing.model.depth ?? DEFAULT_RADIATOR_DEPTH;
+
+  let v1X: number;
+  let radX: number;
+  let v2X: number | null = null;
+  let diaphragmX: number;
+  if (valvePosition === ValvePosition.RIGHT) {
+    v1X = nicheWidth - sideValveDistance;
+    radX = v1X - VALVE_BODY_OFFSET - bodyLength;
+    diaphragmX = v1X - DIAPHRAGM_OFFSET;
+  } else {
+    v1X = sideValveDistance;
+    radX = v1X + VALVE_BODY_OFFSET;
+    diaphragmX = v1X + DIAPHRAGM_OFFSET;
+    if (valvePosition === ValvePosition.BOTTOM) v2X = radX + bodyLength + VALVE_BODY_OFFSET;
+  }
+
+  return {
+    bodyLength, nicheWidth, nicheHeight, radHeight, depth, v1X, v2X, radX, diaphragmX,
+    radY: valveHeight - RADIATOR_BELOW_VALVE,
+    textSize: Math.max(20, Math.max(nicheWidth, nicheHeight) / 45)
+  };
+};
+
+type Drawing = ReturnType<typeof createDrawing>;
+type Layout = ReturnType<typeof installationLayout>;
+
+// Catena di quote lungo la nicchia, condivisa da prospetto e pianta
+const horizontalClearanceChain = (drawing: Drawing, specs: RadiatorSpecs, layout: Layout, y: number, issues: ValidationIssue[]) => {
+  const { v1X, v2X, radX, bodyLength, nicheWidth } = layout;
+  const hasIssue = (code: string) => issues.some(i => i.code === code);
+  if (specs.valvePosition === ValvePosition.BOTTOM && v2X !== null) {
+    drawing.horizontalDimension(0, v1X, y, `${Math.round(v1X)}`, hasIssue('VALVE_SIDE_CLEARANCE'));
+    drawing.horizontalDimension(v1X, v2X, y, `Int. Valv: ${Math.round(v2X - v1X)}`);
+    drawing.horizontalDimension(v2X, nicheWidth, y, `${Math.round(nicheWidth - v2X)}`, hasIssue('SECOND_VALVE_CLEARANCE'));
+  } else if (specs.valvePosition === ValvePosition.LEFT) {
+    drawing.horizontalDimension(0, v1X, y, `${Math.round(v1X)}`, hasIssue('VALVE_SIDE_CLEARANCE'));
+    drawing.horizontalDimension(radX + bodyLength, nicheWidth, y, `Libero: ${Math.round(nicheWidth - radX - bodyLength)}`, hasIssue('OPPOSITE_CLEARANCE'));
+  } else {
+    drawing.horizontalDimension(v1X, nicheWidth, y, `${Math.round(nicheWidth - v1X)}`, hasIssue('VALVE_SIDE_CLEARANCE'));
+    drawing.horizontalDimension(0, radX, y, `Libero: ${Math.round(radX)}`, hasIssue('OPPOSITE_CLEARANCE'));
+  }
+};
+
+// Prospetto frontale della nicchia con radiatore, valvole e quote (origine nell'angolo inferiore sinistro della nicchia)
+export const buildElevation = (specs: RadiatorSpecs, sizing: SizingResult, issues: ValidationIssue[] = []): TechnicalDrawing => {
+  const layout = installationLayout(specs, sizing);
+  const { bodyLength, nicheWidth, nicheHeight, radHeight, v1X, v2X, radX, radY, diaphragmX, textSize } = layout;
+  const { valvePosition, valveHeight, valveCenterDistance } = specs;
+  const drawing = createDrawing(textSize);
+  const { primitives } = drawing;
+
+  // Nicchia
+  primitives.push({ kind: 'rect', layer: DrawingLayer.NICHE, x: 0, y: 0, width: nicheWidth, height: nicheHeight });
+
+  // Corpo radiatore
+  primitives.push({ kind: 'rect', layer: DrawingLayer.RADIATOR, x: radX, y: radY, width: bodyLength, height: radHeight });
+  primitives.push({ kind: 'line', layer: DrawingLayer.RADIATOR, x1: radX, y1: radY + COLLECTOR_HEIGHT, x2: radX + bodyLength, y2: radY + COLLECTOR_HEIGHT });
+  primitives.push({ kind: 'line', layer: DrawingLayer.RADIATOR, x1: radX, y1: radY + radHeight - COLLECTOR_HEIGHT, x2: radX + bodyLength, y2: radY + radHeight - COLLECTOR_HEIGHT });
+  const division = sizing.isPanel ? PANEL_RIB_SPACING : Math.max(sizing.elementWidth, 1);
+  const divisions = sizing.isPanel ? Math.max(Math.floor(bodyLength / division) - 1, 0) : Math.max(sizing.currentElements - 1, 0);
+  for (let i = 1; i <= divisions; i++) {
+    const x = radX + i * division;
+    primitives.push({ kind: 'line', layer: DrawingLayer.RADIATOR, x1: x, y1: radY + COLLECTOR_HEIGHT, x2: x, y2: radY + radHeight - COLLECTOR_HEIGHT });
+  }
+
+  // Valvole
+  primitives.push({ kind: 'circle', layer: DrawingLayer.VALVES, cx: v1X, cy: valveHeight, r: VALVE_RADIUS });
+  if (v2X !== null) {
+    primitives.push({ kind: 'circle', layer: DrawingLayer.VALVES, cx: v2X, cy: valveHeight, r: VALVE_RADIUS });
+  } else {
+    primitives.push({ kind: 'circle', layer: DrawingLayer.VALVES, cx: v1X, cy: valveHeight + valveCenterDistance, r: VALVE_RADIUS });
+  }
+  if (specs.hasDiaphragm) {
+    primitives.push({ kind: 'polygon', layer: DrawingLayer.VALVES, points: [[diaphragmX, valveHeight + 30], [diaphragmX - 17, valveHeight + 5], [diaphragmX + 17, valveHeight + 5]] });
+  }
+  if (sizing.needsEccentric) {
+    drawing.text(valvePosition === ValvePosition.RIGHT ? v1X - 45 : v1X + 45, valveHeight - textSize / 2, 'L', 'middle', DrawingLayer.VALVES);
+  }
+
+  // Quote orizzontali sotto la nicchia
+  const y1 = -DIMENSION_GAP;
+  horizontalClearanceChain(drawing, specs, layout, y1, issues);
+  drawing.horizontalDimension(radX, radX + bodyLength, y1 - DIMENSION_GAP, `CORPO: ${Math.round(bodyLength)}`);
+  drawing.horizontalDimension(0, nicheWidth, y1 - 2 * DIMENSION_GAP, `NICCHIA: ${Math.round(nicheWidth)}`);
+
+  // Quote verticali
+  drawing.verticalDimension(0, nicheHeight, -DIMENSION_GAP, `H NICCHIA: ${Math.round(nicheHeight)}`);
+  drawing.verticalDimension(0, valveHeight, nicheWidth + DIMENSION_GAP, `H VALV: ${Math.round(valveHeight)}`);
+  drawing.verticalDimension(radY, radY + radHeight, nicheWidth + 2 * DIMENSION_GAP, `H RAD: ${Math.round(radHeight)}`);
+
+  return drawing.finish();
+};
+
+// Pianta dall'alto: X lungo la nicchia come nel prospetto, Y dalla parete verso il locale
+export const buildPlanView = (specs: RadiatorSpecs, sizing: SizingResult, issues: ValidationIssue[] = []): TechnicalDrawing => {
+  const layout = installationLayout(specs, sizing);
+  const { bodyLength, nicheWidth, depth, v1X, v2X, radX, textSize } = layout;
+  const axis = specs.valveWallDistance;
+  const back = axis - depth / 2;
+  const front = Math.max(axis + depth / 2, axis + VALVE_RADIUS);
+  const pipe = pipeOuterDiameter(specs.pipeDiameter);
+  const wallError = issues.some(i => i.code === 'WALL_CLEARANCE');
+  const drawing = createDrawing(textSize);
+  const { primitives } = drawing;
+
+  // Parete di fondo e spalle della nicchia
+  primitives.push({ kind: 'line', layer: DrawingLayer.NICHE, x1: -WALL_OVERHANG, y1: 0, x2: nicheWidth + WALL_OVERHANG, y2: 0 });
+  [0, nicheWidth].forEach(x => primitives.push({ kind: 'line', layer: DrawingLayer.NICHE, x1: x, y1: 0, x2: x, y2: front + DIMENSION_GAP / 2, dashed: true }));
+
+  // Corpo radiatore
+  primitives.push({ kind: 'rect', layer: DrawingLayer.RADIATOR, x: radX, y: back, width: bodyLength, height: depth });
+
+  // Valvole con codolo verso il radiatore e attacco del tubo dalla parete
+  [v1X, ...(v2X !== null ? [v2X] : [])].forEach(x => {
+    primitives.push({ kind: 'rect', layer: DrawingLayer.VALVES, x: x < radX ? x : radX + bodyLength, y: axis - pipe / 2, width: VALVE_BODY_OFFSET, height: pipe });
+    primitives.push({ kind: 'circle', layer: DrawingLayer.VALVES, cx: x, cy: axis, r: VALVE_RADIUS });
+    primitives.push({ kind: 'line', layer: DrawingLayer.VALVES, x1: x - pipe / 2, y1: 0, x2: x - pipe / 2, y2: axis - VALVE_RADIUS });
+    primitives.push({ kind: 'line', layer: DrawingLayer.VALVES, x1: x + pipe / 2, y1: 0, x2: x + pipe / 2, y2: axis - VALVE_RADIUS });
+  });
+
+  // Quote lungo la nicchia davanti al radiatore
+  const y1 = front + DIMENSION_GAP;
+  horizontalClearanceChain(drawing, specs, layout, y1, issues);
+  drawing.horizontalDimension(radX, radX + bodyLength, y1 + DIMENSION_GAP, `CORPO: ${Math.round(bodyLength)}`);
+
+  // Quote in profondità
+  const x1 = -DIMENSION_GAP;
+  drawing.verticalDimension(0, axis, x1, `ASSE VALV: ${Math.round(axis)}`);
+  drawing.verticalDimension(0, axis + VALVE_RADIUS, x1 - DIMENSION_GAP, `SPORGENZA: ${Math.round(axis + VALVE_RADIUS)}`);
+  if (back > 0) drawing.verticalDimension(0, back, nicheWidth + DIMENSION_GAP, `DA PARETE: ${calculateWallClearance(specs, depth)}`, wallError);
+  drawing.verticalDimension(back, back + depth, nicheWidth + 2 * DIMENSION_GAP, `PROF: ${Math.round(depth)}`, wallError && back <= 0);
+
+  return drawing.finish();
+};
+
+// Sezione laterale: X dalla parete verso il locale, Y dal fondo della nicchia
+export const buildSideSection = (specs: RadiatorSpecs, sizing: SizingResult, issues: ValidationIssue[] = []): TechnicalDrawing => {
+  const layout = installationLayout(specs, sizing);
+  const { nicheHeight, radHeight, radY, depth, textSize } = layout;
+  const { valvePosition, valveHeight, valveCenterDistance } = specs;
+  const axis = specs.valveWallDistance;
+  const back = axis - depth / 2;
+  const pipe = pipeOuterDiameter(specs.pipeDiameter);
+  const wallError = issues.some(i => i.code === 'WALL_CLEARANCE');
+  const drawing = createDrawing(textSize);
+  const { primitives } = drawing;
+  const roomDepth = Math.max(back + depth, axis + VALVE_RADIUS) + WALL_OVERHANG;
+
+  // Parete e pavimento
+  primitives.push({ kind: 'line', layer: DrawingLayer.NICHE, x1: 0, y1: -WALL_OVERHANG / 2, x2: 0, y2: nicheHeight });
+  primitives.push({ kind: 'line', layer: DrawingLayer.NICHE, x1: 0, y1: 0, x2: roomDepth, y2: 0 });
+  primitives.push({ kind: 'line', layer: DrawingLayer.NICHE, x1: 0, y1: nicheHeight, x2: roomDepth, y2: nicheHeight, dashed: true });
+
+  // Corpo radiatore
+  primitives.push({ kind: 'rect', layer: DrawingLayer.RADIATOR, x: back, y: radY, width: depth, height: radHeight });
+  primitives.push({ kind: 'line', layer: DrawingLayer.RADIATOR, x1: back, y1: radY + COLLECTOR_HEIGHT, x2: back + depth, y2: radY + COLLECTOR_HEIGHT });
+  primitives.push({ kind: 'line', layer: DrawingLayer.RADIATOR, x1: back, y1: radY + radHeight - COLLECTOR_HEIGHT, x2: back + depth, y2: radY + radHeight - COLLECTOR_HEIGHT });
+
+  // Valvole e tubi dalla parete
+  const valveLevels = valvePosition === ValvePosition.BOTTOM ? [valveHeight] : [valveHeight, valveHeight + valveCenterDistance];
+  valveLevels.forEach(y => {
+    primitives.push({ kind: 'line', layer: DrawingLayer.VALVES, x1: 0, y1: y - pipe / 2, x2: axis - VALVE_RADIUS, y2: y - pipe / 2 });
+    primitives.push({ kind: 'line', layer: DrawingLayer.VALVES, x1: 0, y1: y + pipe / 2, x2: axis - VALVE_RADIUS, y2: y + pipe / 2 });
+    primitives.push({ kind: 'circle', layer: DrawingLayer.VALVES, cx: axis, cy: y, r: VALVE_RADIUS });
+  });
+  const pipeLabel = [specs.pipeMaterial, specs.pipeDiameter].filter(v => v && v !== 'N.D.').join(' ');
+  if (pipeLabel) drawing.text(roomDepth, valveHeight - textSize * 1.5, `Tubo ${pipeLabel}`, 'end');
+
+  // Quote in profondità sotto il pavimento
+  const y1 = -DIMENSION_GAP;
+  if (back > 0) drawing.horizontalDimension(0, back, y1, `${calculateWallClearance(specs, depth)}`, wallError);
+  drawing.horizontalDimension(back, back + depth, y1, `PROF: ${Math.round(depth)}`, wallError && back <= 0);
+  drawing.horizontalDimension(0, axis, y1 - DIMENSION_GAP, `ASSE VALV: ${Math.round(axis)}`);
+  drawing.horizontalDimension(0, axis + VALVE_RADIUS, y1 - 2 * DIMENSION_GAP, `SPORGENZA: ${Math.round(axis + VALVE_RADIUS)}`);
+
+  // Quote verticali
+  drawing.verticalDimension(0, valveHeight, -DIMENSION_GAP, `H VALV: ${Math.round(valveHeight)}`);
+  drawing.verticalDimension(radY, radY + radHeight, roomDepth + DIMENSION_GAP, `H RAD: ${Math.round(radHeight)}`);
+  drawing.verticalDimension(0, nicheHeight, roomDepth + 2 * DIMENSION_GAP, `H NICCHIA: ${Math.round(nicheHeight)}`);
+
+  return drawing.finish();
+};
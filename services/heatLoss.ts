@@ -0,0 +1,28 @@
+import { HeatLossParams, EnvelopeSurface, EnvelopeSurfaceType } from '../types';
+import { EXPOSURE_FACTORS } from '../constants';
+
+// Capacità termica volumica dell'aria (Wh/m³K)
+export const AIR_HEAT_CAPACITY = 0.34;
+
+export interface HeatLossBreakdown {
+  transmissionWatts: number;
+  ventilationWatts: number;
+  totalWatts: number;
+}
+
+const usesExposure = (surface: EnvelopeSurface): boolean =>
+  surface.type === EnvelopeSurfaceType.WALL || surface.type === EnvelopeSurfaceType.WINDOW;
+
+export const calculateSurfaceLoss = (surface: EnvelopeSurface, params: HeatLossParams): number => {
+  const otherSideTemp = surface.adjacentTemp ?? params.externalTemp;
+  const deltaT = params.internalTemp - otherSideTemp;
+  const exposure = usesExposure(surface) ? EXPOSURE_FACTORS[surface.orientation] ?? 1 : 1;
+  return Math.max(0, (surface.area || 0) * (surface.uValue || 0) * deltaT * exposure);
+};
+
+export const calculateHeatLoss = (params: HeatLossParams, volume: number): HeatLossBreakdown => {
+  const transmissionWatts = params.surfaces.reduce((sum, s) => sum + calculateSurfaceLoss(s, params), 0);
+  const deltaT = params.internalTemp - params.externalTemp;
+  const ventilationWatts = Math.max(0, AIR_HEAT_CAPACITY * (params.airChangeRate || 0) * volume * deltaT);
+  return { transmissionWatts, ventilationWatts, totalWatts: transmissionWatts + ventilationWatts };
+};
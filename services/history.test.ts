@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordChange, undoHistory, COALESCE_WINDOW, HISTORY_LIMIT } from './history';
+
+type Specs = { side: number; height: number };
+
+// Trascinamento diagonale: a ogni movimento cambiano entrambi i campi, a 16 ms di distanza
+const drag = (keyFor: (field: keyof Specs) => string, moves = 60) => {
+  let history = createHistory<Specs>({ side: 100, height: 150 });
+  for (let i = 1; i <= moves; i++) {
+    const now = 1000 + i * 16;
+    history = recordChange(history, { ...history.present, side: 100 + i }, 'Specifiche radiatore', keyFor('side'), now);
+    history = recordChange(history, { ...history.present, height: 150 + i }, 'Specifiche radiatore', keyFor('height'), now);
+  }
+  return history;
+};
+
+describe('recordChange', () => {
+  it('con chiavi alternate ogni movimento aggiunge due passi e la cronologia precedente va persa', () => {
+    const history = drag(field => `spec:r1:${field}`);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].state).not.toEqual({ side: 100, height: 150 });
+  });
+
+  it('con una chiave comune il trascinamento resta un solo passo e si annulla per intero', () => {
+    const history = drag(() => 'drag:r1');
+    expect(history.past).toHaveLength(1);
+    expect(history.present).toEqual({ side: 160, height: 210 });
+    expect(undoHistory(history).present).toEqual({ side: 100, height: 150 });
+  });
+
+  it('oltre la finestra di raggruppamento la stessa chiave apre un nuovo passo', () => {
+    let history = createHistory(0);
+    history = recordChange(history, 1, 'Modifica', 'k', 0);
+    history = recordChange(history, 2, 'Modifica', 'k', COALESCE_WINDOW);
+    expect(history.past).toHaveLength(2);
+  });
+});
@@ -0,0 +1,56 @@
+// Cronologia annullabile: ogni comando salva lo stato precedente insieme alla sua descrizione
+export interface HistoryEntry<T> {
+  state: T;
+  label: string; // Comando che ha portato allo stato successivo
+  key: string; // Comandi consecutivi con la stessa chiave vengono raggruppati
+  time: number;
+}
+
+export interface History<T> {
+  present: T;
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+// Passi conservati e intervallo entro cui le modifiche dello stesso campo formano un solo passo (ms)
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW = 1000;
+
+export const createHistory = <T>(present: T): History<T> => ({ present, past: [], future: [] });
+
+// Una modifica annulla i passi ripristinabili; la digitazione continua su un campo resta un solo passo
+export const recordChange = <T>(history: History<T>, next: T, label: string, key = label, now = Date.now()): History<T> => {
+  if (next === history.present) return history;
+  const last = history.past[history.past.length - 1];
+  if (last && last.key === key && now - last.time < COALESCE_WINDOW && history.future.length === 0) {
+    return { present: next, past: [...history.past.slice(0, -1), { ...last, time: now }], future: [] };
+  }
+  return {
+    present: next,
+    past: [...history.past, { state: history.present, label, key, time: now }].slice(-HISTORY_LIMIT),
+    future: []
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  const last = history.past[history.past.length - 1];
+  if (!last) return history;
+  return {
+    present: last.state,
+    past: history.past.slice(0, -1),
+    future: [{ ...last, state: history.present }, ...history.future]
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return {
+    present: next.state,
+    past: [...history.past, { ...next, state: history.present, time: 0 }],
+    future
+  };
+};
+
+export const undoLabel = <T>(history: History<T>): string | undefined => history.past[history.past.length - 1]?.label;
+export const redoLabel = <T>(history: History<T>): string | undefined => history.future[0]?.label;
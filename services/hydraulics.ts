@@ -0,0 +1,94 @@
+import { SystemTemperatures, HydraulicResult } from '../types';
+
+// Calore specifico dell'acqua (J/kg·K)
+const WATER_SPECIFIC_HEAT = 4186;
+
+// Sopra questa velocità il circuito del radiatore diventa rumoroso (m/s)
+export const MAX_PIPE_VELOCITY = 0.8;
+
+// Perdita di carico lineare oltre la quale il tubo è sottodimensionato (Pa/m)
+export const MAX_PRESSURE_GRADIENT = 300;
+
+const LAMINAR_REYNOLDS = 2300;
+
+// Densità (kg/m³) e viscosità cinematica (m²/s) dell'acqua in funzione della temperatura (°C)
+const WATER_PROPERTIES: { temp: number; density: number; viscosity: number }[] = [
+  { temp: 10, density: 999.7, viscosity: 1.306e-6 },
+  { temp: 20, density: 998.2, viscosity: 1.004e-6 },
+  { temp: 40, density: 992.2, viscosity: 0.658e-6 },
+  { temp: 60, density: 983.2, viscosity: 0.475e-6 },
+  { temp: 80, density: 971.8, viscosity: 0.365e-6 }
+];
+
+// Spessori di parete (mm) dei tubi in mm, indicati per diametro esterno
+const COPPER_WALL = 1;
+const MULTILAYER_WALLS: Record<number, number> = { 14: 2, 16: 2, 18: 2, 20: 2, 26: 3 };
+const DEFAULT_MULTILAYER_WALL = 2;
+const STEEL_WALL = 2;
+
+// Diametri interni (mm) dei tubi in acciaio filettati gas, serie media
+const THREADED_INNER_DIAMETERS: Record<string, number> = { '3/8"': 12.5, '1/2"': 16.1, '3/4"': 21.7, '1"': 27.3 };
+
+// Scabrezza assoluta delle pareti (mm)
+const ROUGHNESS: Record<string, number> = { Rame: 0.0015, Multistrato: 0.007, Ferro: 0.045 };
+
+export const interpolateWaterProperties = (temp: number): { density: number; viscosity: number } => {
+  const table = WATER_PROPERTIES;
+  if (temp <= table[0].temp) return table[0];
+  const upper = table.findIndex(row => row.temp >= temp);
+  if (upper === -1) return table[table.length - 1];
+  const a = table[upper - 1];
+  const b = table[upper];
+  const t = (temp - a.temp) / (b.temp - a.temp);
+  return { density: a.density + (b.density - a.density) * t, viscosity: a.viscosity + (b.viscosity - a.viscosity) * t };
+};
+
+// Diametro interno (mm) ricavato da materiale e misura; null se il tubo non è definito
+export const pipeInnerDiameter = (material: string, diameter: string): number | null => {
+  if (THREADED_INNER_DIAMETERS[diameter]) return THREADED_INNER_DIAMETERS[diameter];
+  const outer = parseFloat(diameter);
+  if (!(outer > 0)) return null;
+  switch (material) {
+    case 'Rame': return outer - 2 * COPPER_WALL;
+    case 'Multistrato': return outer - 2 * (MULTILAYER_WALLS[outer] ?? DEFAULT_MULTILAYER_WALL);
+    case 'Ferro': return outer - 2 * STEEL_WALL;
+    default: return null;
+  }
+};
+
+// Fattore d'attrito di Darcy: laminare sotto Re 2300, altrimenti Swamee-Jain
+const frictionFactor = (reynolds: number, relativeRoughness: number): number => {
+  if (reynolds < LAMINAR_REYNOLDS) return 64 / reynolds;
+  return 0.25 / Math.pow(Math.log10(relativeRoughness / 3.7 + 5.74 / Math.pow(reynolds, 0.9)), 2);
+};
+
+// Portata di progetto dalla resa e dal salto termico mandata/ritorno, verifica del tubo con Darcy-Weisbach
+export const calculateHydraulics = (
+  watts: number,
+  temps: SystemTemperatures,
+  pipeMaterial: string,
+  pipeDiameter: string,
+  pipeLength?: number
+): HydraulicResult => {
+  const systemDeltaT = temps.flowTemp - temps.returnTemp;
+  const { density, viscosity } = interpolateWaterProperties((temps.flowTemp + temps.returnTemp) / 2);
+  const massFlow = systemDeltaT > 0 ? watts / (WATER_SPECIFIC_HEAT * systemDeltaT) : 0; // kg/s
+  const volumeFlow = massFlow / density; // m³/s
+  const result: HydraulicResult = { systemDeltaT, flowRate: volumeFlow * 3.6e6 };
+
+  const inner = pipeInnerDiameter(pipeMaterial, pipeDiameter);
+  if (inner === null || volumeFlow <= 0) return result;
+
+  const d = inner / 1000;
+  const velocity = volumeFlow / (Math.PI * d * d / 4);
+  const reynolds = velocity * d / viscosity;
+  const roughness = ROUGHNESS[pipeMaterial] ?? ROUGHNESS.Ferro;
+  const pressureGradient = frictionFactor(reynolds, roughness / inner) / d * density * velocity * velocity / 2;
+  return {
+    ...result,
+    innerDiameter: inner,
+    velocity,
+    pressureGradient,
+    circuitPressureDrop: pipeLength && pipeLength > 0 ? pressureGradient * pipeLength : undefined
+  };
+};
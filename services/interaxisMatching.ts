@@ -0,0 +1,77 @@
+import { RadiatorSpecs, RadiatorModel, ValvePosition, InteraxisMatch, InteraxisCandidate } from '../types';
+
+// Il calorifero parte da 35mm sotto alla valvola inferiore
+export const RADIATOR_BELOW_VALVE = 35;
+
+export interface InteraxisMatchResult {
+  model: RadiatorModel | null;
+  status: InteraxisMatch;
+  difference: number; // mm con segno (modello - richiesto)
+  candidates: InteraxisCandidate[];
+}
+
+export const calculateTopHeight = (valveHeight: number, model: RadiatorModel): number =>
+  valveHeight - RADIATOR_BELOW_VALVE + model.height;
+
+export const fitsNicheHeight = (specs: RadiatorSpecs, model: RadiatorModel): boolean =>
+  !(specs.nicheHeight > 0) || calculateTopHeight(specs.valveHeight || 0, model) <= specs.nicheHeight;
+
+// Più vicino all'interasse richiesto; a parità si preferisce il modello più basso
+const pickNearest = (models: RadiatorModel[], target: number): RadiatorModel | null =>
+  models.reduce<RadiatorModel | null>((best, m) => {
+    if (!best) return m;
+    const diff = Math.abs(m.interaxis - target);
+    const bestDiff = Math.abs(best.interaxis - target);
+    if (diff < bestDiff || (diff === bestDiff && m.interaxis < best.interaxis)) return m;
+    return best;
+  }, null);
+
+const toCandidate = (model: RadiatorModel, specs: RadiatorSpecs, maxCompensation: number): InteraxisCandidate => {
+  const difference = model.interaxis - (specs.valveCenterDistance || 0);
+  return {
+    model,
+    difference,
+    fitsNiche: fitsNicheHeight(specs, model),
+    withinCompensation: specs.valvePosition === ValvePosition.BOTTOM || Math.abs(difference) <= maxCompensation
+  };
+};
+
+// Modelli immediatamente sotto (o uguale) e sopra l'interasse richiesto
+export const findInteraxisCandidates = (models: RadiatorModel[], specs: RadiatorSpecs, maxCompensation: number): InteraxisCandidate[] => {
+  const target = specs.valveCenterDistance || 0;
+  const lower = pickNearest(models.filter(m => m.interaxis <= target), target);
+  const upper = pickNearest(models.filter(m => m.interaxis > target), target);
+  return [lower, upper]
+    .filter((m): m is RadiatorModel => m !== null)
+    .map(m => toCandidate(m, specs, maxCompensation));
+};
+
+const statusFor = (specs: RadiatorSpecs, difference: number, maxCompensation: number): InteraxisMatch => {
+  if (specs.valvePosition === ValvePosition.BOTTOM) return InteraxisMatch.NOT_RELEVANT;
+  if (difference === 0) return InteraxisMatch.EXACT;
+  return Math.abs(difference) <= maxCompensation ? InteraxisMatch.ECCENTRIC : InteraxisMatch.NO_COMPATIBLE;
+};
+
+export const matchInteraxis = (models: RadiatorModel[], specs: RadiatorSpecs, maxCompensation: number): InteraxisMatchResult => {
+  if (models.length === 0) {
+    return { model: null, status: InteraxisMatch.NO_MODELS, difference: 0, candidates: [] };
+  }
+
+  const target = specs.valveCenterDistance || 0;
+  const candidates = findInteraxisCandidates(models, specs, maxCompensation);
+  const fitting = models.filter(m => fitsNicheHeight(specs, m));
+
+  let model = specs.modelCode ? models.find(m => m.code === specs.modelCode) ?? null : null;
+
+  if (!model) {
+    if (specs.valvePosition === ValvePosition.BOTTOM) {
+      model = pickNearest(fitting, target) ?? pickNearest(models, target);
+    } else {
+      const compatible = fitting.filter(m => Math.abs(m.interaxis - target) <= maxCompensation);
+      model = pickNearest(compatible, target) ?? pickNearest(fitting, target) ?? pickNearest(models, target);
+    }
+  }
+
+  const difference = model!.interaxis - target;
+  return { model, status: statusFor(specs, difference, maxCompensation), difference, candidates };
+};
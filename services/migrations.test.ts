@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ValvePosition, ProjectStatus } from '../types';
+import { INITIAL_SPECS } from '../constants';
+import { normaliseProject } from './migrations';
+
+describe('normaliseProject', () => {
+  it('scarta i campi sconosciuti del progetto, degli ambienti e delle specifiche', () => {
+    const project = normaliseProject({
+      id: 'p1',
+      extra: 'x',
+      environments: [{ id: 'e1', name: 'Soggiorno', legacy: true, specs: { surface: 18, unknownField: 1 } }]
+    });
+    expect(project).not.toHaveProperty('extra');
+    expect(project.environments[0]).not.toHaveProperty('legacy');
+    expect(project.environments[0].specs).not.toHaveProperty('unknownField');
+    expect(project.environments[0].specs.surface).toBe(18);
+  });
+
+  it('sostituisce i valori del tipo sbagliato con quelli iniziali', () => {
+    const project = normaliseProject({
+      environments: [{ specs: { surface: '20', valvePosition: 'DIAGONALE', nicheWidth: null, hasDiaphragm: 'sì' } }],
+      status: 'SCONOSCIUTO',
+      quote: { overrides: { 'e1:RADIATORE': { unitPrice: '10', removed: true } }, extraLines: 'nessuna' }
+    });
+    const { specs } = project.environments[0];
+    expect(specs.surface).toBe(INITIAL_SPECS.surface);
+    expect(specs.valvePosition).toBe(ValvePosition.BOTTOM);
+    expect(specs.nicheWidth).toBe(INITIAL_SPECS.nicheWidth);
+    expect(specs.hasDiaphragm).toBe(INITIAL_SPECS.hasDiaphragm);
+    expect(project.status).toBe(ProjectStatus.DRAFT);
+    expect(project.quote?.overrides).toEqual({ 'e1:RADIATORE': { removed: true } });
+    expect(project.quote?.extraLines).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+import {
+  Project, Environment, RadiatorModel, GlobalSettings, RadiatorSpecs, ProjectStatus, PipePrice, PriceList, Letterhead, HeatSourceType, CircuitType, GeneratorType,
+  CircuitConnection, SystemTemperatures, EnvelopeSurface, EnvelopeSurfaceType, Orientation, HeatLossParams, HeatLossMethod, ValvePosition, LoadSplitMode,
+  QuoteLine, QuoteLineCategory, QuoteLineOverride, ProjectQuote
+} from '../types';
+import { INITIAL_SPECS, INITIAL_SETTINGS, INITIAL_SYSTEM_TEMPERATURES, INITIAL_PRICE_LIST, INITIAL_BALANCING, INITIAL_HEAT_LOSS } from '../constants';
+
+// Versione corrente dello schema dati (localStorage e file progetto)
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export interface RawData {
+  projects?: unknown;
+  customModels?: unknown;
+  settings?: unknown;
+  activeProjectId?: unknown;
+  letterheads?: unknown;
+  roomTemplates?: unknown;
+  snapshots?: unknown;
+}
+
+type Migration = (data: RawData) => RawData;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Data assegnata ai progetti salvati prima dell'introduzione delle date
+const MIGRATION_EPOCH = new Date(0).toISOString();
+
+// Ogni migrazione porta i dati dalla versione indicata alla successiva
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 → v2: progetto singolo salvato come oggetto
+  1: data => ({
+    ...data,
+    projects: Array.isArray(data.projects) ? data.projects : isObject(data.projects) ? [data.projects] : []
+  }),
+  // v2 → v3: ambienti senza id/nome e specifiche piatte sull'ambiente
+  2: data => ({
+    ...data,
+    projects: asArray(data.projects).filter(isObject).map(p => ({
+      ...p,
+      environments: asArray(p.environments).filter(isObject).map((env, i) => ({
+        id: env.id || `env-${i + 1}`,
+        name: env.name || `Ambiente ${i + 1}`,
+        specs: isObject(env.specs) ? env.specs : env
+      }))
+    }))
+  }),
+  // v3 → v4: temperature di esercizio per progetto
+  3: data => ({
+    ...data,
+    projects: asArray(data.projects).filter(isObject).map(p => ({
+      ...p,
+      systemTemperatures: isObject(p.systemTemperatures) ? p.systemTemperatures : { ...INITIAL_SYSTEM_TEMPERATURES }
+    }))
+  }),
+  // v4 → v5: stato, archiviazione e date di creazione/modifica
+  4: data => ({
+    ...data,
+    projects: asArray(data.projects).filter(isObject).map(p => ({
+      ...p,
+      status: p.status ?? ProjectStatus.DRAFT,
+      archived: p.archived ?? false,
+      createdAt: p.createdAt ?? MIGRATION_EPOCH,
+      updatedAt: p.updatedAt ?? MIGRATION_EPOCH
+    }))
+  })
+};
+
+export const migrateData = (data: RawData, fromVersion: number): RawData => {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`Versione schema non valida: ${fromVersion}`);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`File creato con una versione più recente (schema ${fromVersion}): aggiornare l'applicazione`);
+  }
+  let migrated = data;
+  for (let v = fromVersion; v < CURRENT_SCHEMA_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+  return migrated;
+};
+
+// Letture dei dati salvati o importati: valori del tipo sbagliato diventano undefined
+const finiteNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+const idOrNew = (value: unknown): string => typeof value === 'string' && value ? value : newId();
+
+export const enumValue = <T extends string>(values: Record<string, T>, value: unknown): T | undefined =>
+  (Object.values(values) as unknown[]).includes(value) ? value as T : undefined;
+
+// Allacciamenti incompleti scartati: il radiatore torna non collegato
+const normaliseConnection = (raw: unknown): CircuitConnection | undefined =>
+  isObject(raw) && typeof raw.manifoldId === 'string' && Number(raw.outlet) >= 1
+    ? { manifoldId: raw.manifoldId, outlet: Math.round(Number(raw.outlet)), supplyLength: Number(raw.supplyLength) || 0, returnLength: Number(raw.returnLength) || 0 }
+    : undefined;
+
+const normaliseTemperatures = (raw: Record<string, unknown>): SystemTemperatures => ({
+  flowTemp: finiteNumber(raw.flowTemp) ?? INITIAL_SYSTEM_TEMPERATURES.flowTemp,
+  returnTemp: finiteNumber(raw.returnTemp) ?? INITIAL_SYSTEM_TEMPERATURES.returnTemp,
+  roomTemp: finiteNumber(raw.roomTemp) ?? INITIAL_SYSTEM_TEMPERATURES.roomTemp
+});
+
+const normaliseSurface = (raw: Record<string, unknown>): EnvelopeSurface => ({
+  id: idOrNew(raw.id),
+  type: enumValue(EnvelopeSurfaceType, raw.type) ?? EnvelopeSurfaceType.WALL,
+  area: finiteNumber(raw.area) ?? 0,
+  uValue: finiteNumber(raw.uValue) ?? 0,
+  orientation: enumValue(Orientation, raw.orientation) ?? Orientation.N,
+  adjacentTemp: finiteNumber(raw.adjacentTemp)
+});
+
+export const normaliseHeatLoss = (raw: Record<string, unknown>): HeatLossParams => ({
+  internalTemp: finiteNumber(raw.internalTemp) ?? INITIAL_HEAT_LOSS.internalTemp,
+  externalTemp: finiteNumber(raw.externalTemp) ?? INITIAL_HEAT_LOSS.externalTemp,
+  airChangeRate: finiteNumber(raw.airChangeRate) ?? INITIAL_HEAT_LOSS.airChangeRate,
+  surfaces: asArray(raw.surfaces).filter(isObject).map(normaliseSurface)
+});
+
+const normaliseSpecs = (raw: unknown): RadiatorSpecs => {
+  const s = isObject(raw) ? raw : {};
+  const measure = (field: 'surface' | 'height' | 'valveCenterDistance' | 'valveWallDistance' | 'nicheWidth' | 'nicheHeight' | 'valveHeight' | 'sideValveDistance' | 'maxWidth') =>
+    finiteNumber(s[field]) ?? INITIAL_SPECS[field];
+  return {
+    surface: measure('surface'),
+    height: measure('height'),
+    valveCenterDistance: measure('valveCenterDistance'),
+    valvePosition: enumValue(ValvePosition, s.valvePosition) ?? INITIAL_SPECS.valvePosition,
+    valveWallDistance: measure('valveWallDistance'),
+    nicheWidth: measure('nicheWidth'),
+    nicheHeight: measure('nicheHeight'),
+    valveHeight: measure('valveHeight'),
+    sideValveDistance: measure('sideValveDistance'),
+    maxWidth: measure('maxWidth'),
+    manualElements: finiteNumber(s.manualElements),
+    manualLength: finiteNumber(s.manualLength),
+    modelCode: optionalString(s.modelCode),
+    hasDiaphragm: typeof s.hasDiaphragm === 'boolean' ? s.hasDiaphragm : INITIAL_SPECS.hasDiaphragm,
+    series: typeof s.series === 'string' && s.series ? s.series : INITIAL_SPECS.series,
+    pipeDiameter: optionalString(s.pipeDiameter) ?? INITIAL_SPECS.pipeDiameter,
+    pipeMaterial: optionalString(s.pipeMaterial) ?? INITIAL_SPECS.pipeMaterial,
+    pipeLength: finiteNumber(s.pipeLength),
+    connection: normaliseConnection(s.connection),
+    assignedWatts: finiteNumber(s.assignedWatts),
+    customModelId: optionalString(s.customModelId),
+    heatLossMethod: enumValue(HeatLossMethod, s.heatLossMethod) ?? INITIAL_SPECS.heatLossMethod,
+    heatLoss: isObject(s.heatLoss) ? normaliseHeatLoss(s.heatLoss) : undefined,
+    systemTemperatures: isObject(s.systemTemperatures) ? normaliseTemperatures(s.systemTemperatures) : undefined
+  };
+};
+
+export const normaliseEnvironment = (raw: Record<string, unknown>, index: number): Environment => ({
+  id: idOrNew(raw.id),
+  name: typeof raw.name === 'string' ? raw.name : `Ambiente ${index + 1}`,
+  specs: normaliseSpecs(raw.specs),
+  additionalRadiators: Array.isArray(raw.additionalRadiators)
+    ? raw.additionalRadiators.filter(isObject).map((r, i) => ({
+        id: idOrNew(r.id),
+        name: typeof r.name === 'string' ? r.name : `Radiatore ${i + 2}`,
+        specs: normaliseSpecs(r.specs)
+      }))
+    : undefined,
+  loadSplit: enumValue(LoadSplitMode, raw.loadSplit),
+  unitId: optionalString(raw.unitId)
+});
+
+const normaliseQuoteLine = (raw: Record<string, unknown>): QuoteLine => ({
+  id: idOrNew(raw.id),
+  category: enumValue(QuoteLineCategory, raw.category) ?? QuoteLineCategory.OTHER,
+  description: optionalString(raw.description) ?? '',
+  unit: optionalString(raw.unit) ?? '',
+  quantity: finiteNumber(raw.quantity) ?? 0,
+  unitPrice: finiteNumber(raw.unitPrice) ?? 0,
+  environmentId: optionalString(raw.environmentId)
+});
+
+// Nelle modifiche alle righe generate restano solo i campi effettivamente modificati
+const normaliseQuoteOverride = (raw: Record<string, unknown>): QuoteLineOverride => {
+  const override: QuoteLineOverride = {};
+  const description = optionalString(raw.description);
+  const quantity = finiteNumber(raw.quantity);
+  const unitPrice = finiteNumber(raw.unitPrice);
+  if (description !== undefined) override.description = description;
+  if (quantity !== undefined) override.quantity = quantity;
+  if (unitPrice !== undefined) override.unitPrice = unitPrice;
+  if (raw.removed === true) override.removed = true;
+  return override;
+};
+
+const normaliseQuote = (raw: Record<string, unknown>): ProjectQuote => ({
+  overrides: Object.fromEntries(Object.entries(isObject(raw.overrides) ? raw.overrides : {})
+    .filter((entry): entry is [string, Record<string, unknown>] => isObject(entry[1]))
+    .map(([id, o]) => [id, normaliseQuoteOverride(o)])),
+  extraLines: asArray(raw.extraLines).filter(isObject).map(normaliseQuoteLine),
+  discountPercent: finiteNumber(raw.discountPercent) ?? 0,
+  vatRate: finiteNumber(raw.vatRate) ?? INITIAL_PRICE_LIST.vatRate,
+  notes: optionalString(raw.notes) ?? ''
+});
+
+export const normaliseProject = (raw: Record<string, unknown>): Project => {
+  const environments = asArray(raw.environments).filter(isObject).map(normaliseEnvironment);
+  const { plant, balancing } = raw;
+  return {
+    id: idOrNew(raw.id),
+    clientName: String(raw.clientName ?? ''),
+    clientSurname: String(raw.clientSurname ?? ''),
+    siteAddress: String(raw.siteAddress ?? ''),
+    environments: environments.length > 0 ? environments : [normaliseEnvironment({}, 0)],
+    buildingName: optionalString(raw.buildingName),
+    floors: Array.isArray(raw.floors)
+      ? raw.floors.filter(isObject).map((f, i) => ({
+          id: idOrNew(f.id),
+          name: typeof f.name === 'string' ? f.name : `Piano ${i}`
+        }))
+      : undefined,
+    units: Array.isArray(raw.units)
+      ? raw.units.filter(isObject).flatMap((u, i) => typeof u.floorId === 'string' ? [{
+          id: idOrNew(u.id),
+          name: typeof u.name === 'string' ? u.name : `Unità ${i + 1}`,
+          floorId: u.floorId
+        }] : [])
+      : undefined,
+    systemTemperatures: isObject(raw.systemTemperatures) ? normaliseTemperatures(raw.systemTemperatures) : { ...INITIAL_SYSTEM_TEMPERATURES },
+    balancing: isObject(balancing)
+      ? {
+          sourceType: enumValue(HeatSourceType, balancing.sourceType) ?? INITIAL_BALANCING.sourceType,
+          sourceLocation: String(balancing.sourceLocation ?? ''),
+          valveId: optionalString(balancing.valveId) ?? INITIAL_BALANCING.valveId
+        }
+      : undefined,
+    manifolds: Array.isArray(raw.manifolds)
+      ? raw.manifolds.filter(isObject).map((m, i) => ({
+          id: idOrNew(m.id),
+          name: typeof m.name === 'string' ? m.name : `Collettore ${i + 1}`,
+          circuitType: enumValue(CircuitType, m.circuitType) ?? CircuitType.TWO_PIPE,
+          outlets: Math.max(1, Math.round(Number(m.outlets)) || 1),
+          location: optionalString(m.location)
+        }))
+      : undefined,
+    plant: isObject(plant)
+      ? {
+          generatorType: enumValue(GeneratorType, plant.generatorType) ?? GeneratorType.BOILER,
+          dhwAllowance: Math.max(0, Number(plant.dhwAllowance) || 0),
+          generatorWaterContent: Math.max(0, Number(plant.generatorWaterContent) || 0)
+        }
+      : undefined,
+    status: enumValue(ProjectStatus, raw.status) ?? ProjectStatus.DRAFT,
+    archived: raw.archived === true,
+    quote: isObject(raw.quote) ? normaliseQuote(raw.quote) : undefined,
+    letterheadId: optionalString(raw.letterheadId),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : MIGRATION_EPOCH,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : MIGRATION_EPOCH
+  };
+};
+
+export const normaliseProjects = (raw: unknown): Project[] => asArray(raw).filter(isObject).map(normaliseProject);
+
+export const normaliseModels = (raw: unknown): RadiatorModel[] =>
+  asArray(raw).filter(isObject).filter(m => typeof m.code === 'string' && typeof m.label === 'string') as unknown as RadiatorModel[];
+
+export const normaliseLetterheads = (raw: unknown): Letterhead[] =>
+  asArray(raw).filter(isObject).map(l => ({
+    id: idOrNew(l.id),
+    companyName: optionalString(l.companyName) ?? '',
+    vatNumber: optionalString(l.vatNumber) ?? '',
+    address: optionalString(l.address) ?? '',
+    phone: optionalString(l.phone) ?? '',
+    email: optionalString(l.email) ?? '',
+    website: optionalString(l.website) ?? '',
+    logo: optionalString(l.logo),
+    signature: optionalString(l.signature)
+  }));
+
+const normalisePipePrice = (raw: Record<string, unknown>): PipePrice => ({
+  material: optionalString(raw.material) ?? '',
+  diameter: optionalString(raw.diameter) ?? '',
+  pricePerMeter: finiteNumber(raw.pricePerMeter) ?? 0
+});
+
+export const normaliseSettings = (raw: unknown): GlobalSettings => {
+  const settings = isObject(raw) ? raw : {};
+  const priceList = isObject(settings.priceList) ? settings.priceList : {};
+  const price = (field: Exclude<keyof PriceList, 'pipes'>) => finiteNumber(priceList[field]) ?? INITIAL_PRICE_LIST[field];
+  return {
+    wattCoefficient: finiteNumber(settings.wattCoefficient) ?? INITIAL_SETTINGS.wattCoefficient,
+    maxEccentricCompensation: finiteNumber(settings.maxEccentricCompensation) ?? INITIAL_SETTINGS.maxEccentricCompensation,
+    priceList: {
+      valve: price('valve'),
+      lockshield: price('lockshield'),
+      eccentricPair: price('eccentricPair'),
+      diaphragmKit: price('diaphragmKit'),
+      bracket: price('bracket'),
+      labourPerRadiator: price('labourPerRadiator'),
+      pipes: Array.isArray(priceList.pipes) ? priceList.pipes.filter(isObject).map(normalisePipePrice) : INITIAL_PRICE_LIST.pipes,
+      vatRate: price('vatRate')
+    }
+  };
+};
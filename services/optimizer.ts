@@ -0,0 +1,76 @@
+import { RadiatorSpecs, RadiatorModel, GlobalSettings, SystemTemperatures, OptimizerProposal, OptimizerSortKey, InteraxisMatch } from '../types';
+import { getAllModels, getModelSeries } from './catalogue';
+import { sizeRadiator, MIN_VALVE_CLEARANCE } from './sizingEngine';
+import { calculateTopHeight } from './interaxisMatching';
+
+// Elementi del radiatore componibile, metri per i pannelli
+export const modelQuantity = (proposal: Pick<OptimizerProposal, 'sizing'>): number =>
+  proposal.sizing.isPanel ? proposal.sizing.bodyLength / 1000 : proposal.sizing.currentElements;
+
+// Gamma e modello della proposta; l'interasse si prende dal modello solo se non è stato misurato
+export const proposalSpecs = (specs: RadiatorSpecs, model: RadiatorModel): Pick<RadiatorSpecs, 'series' | 'modelCode' | 'valveCenterDistance'> => ({
+  series: getModelSeries(model),
+  modelCode: model.code,
+  valveCenterDistance: specs.valveCenterDistance > 0 ? specs.valveCenterDistance : model.interaxis
+});
+
+const compareOptional = (a?: number, b?: number): number => {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+};
+
+const SORTERS: Record<OptimizerSortKey, (a: OptimizerProposal, b: OptimizerProposal) => number> = {
+  [OptimizerSortKey.OVERSIZE]: (a, b) => a.oversizePercent - b.oversizePercent,
+  [OptimizerSortKey.WIDTH]: (a, b) => a.sizing.totalOccupiedWidth - b.sizing.totalOccupiedWidth,
+  [OptimizerSortKey.COST]: (a, b) => compareOptional(a.cost, b.cost),
+  [OptimizerSortKey.WATER]: (a, b) => compareOptional(a.waterContent, b.waterContent)
+};
+
+// Prova ogni modello a catalogo nella nicchia e restituisce le configurazioni che entrano
+export const optimiseRadiator = (
+  specs: RadiatorSpecs,
+  settings: GlobalSettings,
+  customModels: RadiatorModel[],
+  projectTemps: SystemTemperatures | undefined,
+  sortKey: OptimizerSortKey,
+  assignedWatts?: number // Quota di fabbisogno del radiatore nei locali con più radiatori
+): OptimizerProposal[] => {
+  const proposals: OptimizerProposal[] = [];
+
+  getAllModels(customModels).forEach(model => {
+    const candidateSpecs: RadiatorSpecs = {
+      ...specs,
+      ...proposalSpecs(specs, model),
+      manualElements: undefined,
+      manualLength: undefined
+    };
+    const sizing = sizeRadiator(candidateSpecs, settings, customModels, projectTemps, assignedWatts);
+    // Escludono la proposta solo ingombro massimo e larghezza della nicchia
+    if (specs.maxWidth > 0 && sizing.totalOccupiedWidth > specs.maxWidth) return;
+    if (sizing.matchStatus === InteraxisMatch.NO_COMPATIBLE) return;
+    if (specs.nicheWidth > 0 && sizing.totalOccupiedWidth + specs.sideValveDistance > specs.nicheWidth) return;
+    if (sizing.totalWatts < sizing.requiredWatts) return;
+
+    const topHeight = calculateTopHeight(specs.valveHeight || 0, model);
+    if (specs.nicheHeight > 0 && topHeight > specs.nicheHeight) return;
+
+    const proposal: OptimizerProposal = {
+      model,
+      sizing,
+      oversizePercent: sizing.requiredWatts > 0 ? ((sizing.totalWatts - sizing.requiredWatts) / sizing.requiredWatts) * 100 : 0,
+      topHeight,
+      warnings: [
+        ...(specs.sideValveDistance < MIN_VALVE_CLEARANCE ? [`Oltre la valvola servono almeno ${MIN_VALVE_CLEARANCE} mm`] : []),
+        ...(sizing.eccentricText ? [sizing.eccentricText] : [])
+      ]
+    };
+    const quantity = modelQuantity(proposal);
+    if (model.price !== undefined) proposal.cost = model.price * quantity;
+    if (model.waterContent !== undefined) proposal.waterContent = model.waterContent * quantity;
+    proposals.push(proposal);
+  });
+
+  return proposals.sort(SORTERS[sortKey]);
+};
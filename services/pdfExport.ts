@@ -0,0 +1,618 @@
+import { jsPDF } from 'jspdf';
+import { Project, Environment, Letterhead, RadiatorSizing, CalculationResult, ValidationIssue, ValidationSeverity, HeatLossMethod, TechnicalDrawing, DrawingView } from '../types';
+import { HEAT_LOSS_METHOD_LABELS, LAYER_COLORS, HEAT_SOURCE_LABELS, BALANCING_STATUS_LABELS } from '../constants';
+import { buildElevation, buildPlanView, buildSideSection } from './elevation';
+import { projectSlug } from './projectFile';
+import { radiatorLabel, summarizeRoom } from './radiators';
+import { summarizeBuilding, hasStructure, unitLabel, StructureTotals } from './buildingStructure';
+import { issuesForRadiator } from './validation';
+import { calculateBalancing, formatPresetting } from './balancing';
+import { connectionLabel } from './topology';
+import { summarizePlant, plantSummarySections } from './plantSizing';
+
+export interface ProjectPdfInput {
+  project: Project;
+  letterhead?: Letterhead;
+  getRadiators: (env: Environment) => RadiatorSizing[];
+  getCalculation: (env: Environment) => CalculationResult;
+  getIssues: (env: Environment) => ValidationIssue[];
+  view?: DrawingView; // Viste del radiatore nelle schede locale (default prospetto)
+}
+
+// Impaginazione A4 in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_TOP = PAGE_HEIGHT - MARGIN - 14;
+const PT_PER_MM = 72 / 25.4;
+
+const ABACO_COLUMNS: { label: string; width: number; align: 'left' | 'center' | 'right' }[] = [
+  { label: 'Locale', width: 30, align: 'left' },
+  { label: 'Modello (Gamma)', width: 40, align: 'left' },
+  { label: 'H/Int (mm)', width: 22, align: 'center' },
+  { label: 'Elem.', width: 13, align: 'center' },
+  { label: 'Largh (mm)', width: 17, align: 'center' },
+  { label: 'Diafr.', width: 12, align: 'center' },
+  { label: 'Resa (W)', width: 15, align: 'right' },
+  { label: 'Nom. DT50', width: 15, align: 'right' },
+  { label: 'Circuito', width: 16, align: 'left' }
+];
+const BALANCING_COLUMNS: { label: string; width: number; align: 'left' | 'center' | 'right' }[] = [
+  { label: 'Locale / Radiatore', width: 46, align: 'left' },
+  { label: 'Portata (l/h)', width: 20, align: 'right' },
+  { label: 'DP Circ. (kPa)', width: 21, align: 'right' },
+  { label: 'DP Valv. (kPa)', width: 21, align: 'right' },
+  { label: 'Kv', width: 13, align: 'right' },
+  { label: 'Preregolaz.', width: 25, align: 'center' },
+  { label: 'Note', width: 34, align: 'left' }
+];
+const ROW_LINE_HEIGHT = 4;
+const ROW_PADDING = 2.5;
+
+// I font standard PDF coprono solo Latin-1
+const pdfText = (text: string): string =>
+  text.replace(/Δ/g, 'D').replace(/[≤]/g, '<=').replace(/[≥]/g, '>=').replace(/[^\x00-\xff]/g, '?');
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const imageFormat = (dataUrl: string): string | null => {
+  const match = /^data:image\/(png|jpe?g)/i.exec(dataUrl);
+  return match ? (match[1].toLowerCase() === 'png' ? 'PNG' : 'JPEG') : null;
+};
+
+// Inserisce un'immagine mantenendo le proporzioni nel riquadro indicato; restituisce la larghezza usata
+const drawImage = (doc: jsPDF, dataUrl: string | undefined, x: number, y: number, maxWidth: number, maxHeight: number, alignRight = false): number => {
+  const format = dataUrl ? imageFormat(dataUrl) : null;
+  if (!dataUrl || !format) return 0;
+  try {
+    const { width, height } = doc.getImageProperties(dataUrl);
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    const w = width * scale;
+    doc.addImage(dataUrl, format, alignRight ? x - w : x, y, w, height * scale);
+    return w;
+  } catch {
+    return 0;
+  }
+};
+
+const drawHeader = (doc: jsPDF, letterhead?: Letterhead): number => {
+  if (!letterhead) return MARGIN;
+  drawImage(doc, letterhead.logo, MARGIN, MARGIN, 80, 14);
+  const lines = [
+    letterhead.address,
+    [letterhead.phone, letterhead.email, letterhead.website].filter(Boolean).join(' · '),
+    letterhead.vatNumber ? `P.IVA ${letterhead.vatNumber}` : ''
+  ].filter(Boolean);
+  doc.setTextColor(15, 23, 42);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text(pdfText(letterhead.companyName), PAGE_WIDTH - MARGIN, MARGIN + 3, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(100, 116, 139);
+  lines.forEach((line, i) => doc.text(pdfText(line), PAGE_WIDTH - MARGIN, MARGIN + 7 + i * 3.2, { align: 'right' }));
+  doc.setDrawColor(226, 232, 240);
+  doc.line(MARGIN, MARGIN + 18, PAGE_WIDTH - MARGIN, MARGIN + 18);
+  return MARGIN + 24;
+};
+
+const drawFooter = (doc: jsPDF, letterhead: Letterhead | undefined, page: number, pageCount: number, signatureLabel?: string) => {
+  doc.setDrawColor(226, 232, 240);
+  doc.line(MARGIN, FOOTER_TOP, PAGE_WIDTH - MARGIN, FOOTER_TOP);
+  if (signatureLabel) {
+    drawImage(doc, letterhead?.signature, MARGIN, FOOTER_TOP - 22, 50, 18);
+    doc.setDrawColor(15, 23, 42);
+    doc.line(MARGIN, FOOTER_TOP + 6, MARGIN + 50, FOOTER_TOP + 6);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(6.5);
+    doc.setTextColor(100, 116, 139);
+    doc.text(pdfText(signatureLabel.toUpperCase()), MARGIN, FOOTER_TOP + 9.5);
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7.5);
+  doc.setTextColor(15, 23, 42);
+  doc.text(pdfText((letterhead?.companyName || 'HeatMaster ArchQuote').toUpperCase()), PAGE_WIDTH - MARGIN, FOOTER_TOP + 5, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6.5);
+  doc.setTextColor(148, 163, 184);
+  doc.text(`Pagina ${page} di ${pageCount}`, PAGE_WIDTH - MARGIN, FOOTER_TOP + 9, { align: 'right' });
+};
+
+const drawAbacoTableHeader = (doc: jsPDF, y: number): number => {
+  doc.setFillColor(241, 245, 249);
+  doc.rect(MARGIN, y, CONTENT_WIDTH, 8, 'F');
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, y + 8, PAGE_WIDTH - MARGIN, y + 8);
+  doc.setLineWidth(0.2);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7);
+  doc.setTextColor(15, 23, 42);
+  let x = MARGIN;
+  ABACO_COLUMNS.forEach(col => {
+    const tx = col.align === 'left' ? x + 1.5 : col.align === 'center' ? x + col.width / 2 : x + col.width - 1.5;
+    doc.text(col.label.toUpperCase(), tx, y + 5.3, { align: col.align });
+    x += col.width;
+  });
+  return y + 8;
+};
+
+const drawAbaco = (doc: jsPDF, input: ProjectPdfInput): number[] => {
+  const { project, letterhead, getRadiators, getCalculation } = input;
+  const pages = [doc.getNumberOfPages()];
+  let y = drawHeader(doc, letterhead);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7);
+  doc.setTextColor(148, 163, 184);
+  doc.text('RELAZIONE TECNICA IMPIANTO', MARGIN, y + 2);
+  doc.setFontSize(26);
+  doc.setTextColor(15, 23, 42);
+  doc.text('Abaco Caloriferi', MARGIN, y + 13);
+  doc.setFontSize(6.5);
+  doc.setTextColor(100, 116, 139);
+  doc.text('INDIRIZZO CANTIERE', MARGIN, y + 22);
+  doc.text('COMMITTENTE', MARGIN + CONTENT_WIDTH / 2, y + 22);
+  doc.setFontSize(12);
+  doc.setTextColor(15, 23, 42);
+  doc.text(pdfText(project.siteAddress || 'Non specificato'), MARGIN, y + 28, { maxWidth: CONTENT_WIDTH / 2 - 4 });
+  doc.text(pdfText(`${project.clientSurname || 'N.D.'} ${project.clientName || ''}`), MARGIN + CONTENT_WIDTH / 2, y + 28, { maxWidth: CONTENT_WIDTH / 2 });
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(1);
+  doc.line(MARGIN, y + 33, PAGE_WIDTH - MARGIN, y + 33);
+  doc.setLineWidth(0.2);
+  y = drawAbacoTableHeader(doc, y + 38);
+
+  // Spazio riservato alla firma del progettista sotto la fine della tabella
+  const SIGNATURE_SPACE = 22;
+  // Una riga per radiatore; i locali con più radiatori chiudono con il totale a confronto con il fabbisogno
+  const environmentRows = (env: Environment) => {
+    const radiators = getRadiators(env);
+    const radiatorRows = radiators.map(({ radiator, sizing: data }) => ({
+      cells: [
+        radiatorLabel(env, radiator, radiators.length),
+        `${data.model.label} (${radiator.specs.series})${data.matchWarning ? ' - NON COMPATIBILE' : ''}`,
+        `${data.model.height} / ${data.model.interaxis}`,
+        `${data.currentElements}`,
+        `${data.totalOccupiedWidth}`,
+        radiator.specs.hasDiaphragm ? 'SI' : 'NO',
+        `${data.totalWatts}`,
+        `${data.nominalTotalWatts}`,
+        connectionLabel(project, radiator.specs) || '-'
+      ],
+      warning: !!data.matchWarning,
+      total: false
+    }));
+    if (radiators.length === 1) return radiatorRows;
+    return [...radiatorRows, totalRow(`Totale ${env.name}`, summarizeRoom(radiators, getCalculation(env).watts))];
+  };
+  const totalRow = (label: string, totals: Pick<StructureTotals, 'requiredWatts' | 'totalWatts' | 'nominalTotalWatts'>) => ({
+    cells: [label, `Fabbisogno ${totals.requiredWatts} W`, '', '', '', '', `${totals.totalWatts}`, `${totals.nominalTotalWatts}`, ''],
+    warning: totals.totalWatts < totals.requiredWatts,
+    total: true
+  });
+
+  // Con la struttura edificio l'abaco è raggruppato per unità, con i totali di unità, piano ed edificio
+  const summary = summarizeBuilding(project, getRadiators, env => getCalculation(env).watts);
+  const rows: { cells: string[]; warning: boolean; total: boolean; group?: boolean }[] = !hasStructure(project)
+    ? project.environments.flatMap(environmentRows)
+    : [
+        ...summary.floors.flatMap(({ floor, units, totals }) => [
+          ...units.flatMap(({ unit, environments, totals: unitTotals }) => [
+            { cells: [unit ? unitLabel(project, unit) : 'Ambienti non assegnati'], warning: false, total: true, group: true },
+            ...environments.flatMap(({ env }) => environmentRows(env)),
+            ...(unit ? [totalRow(`Totale ${unit.name}`, unitTotals)] : [])
+          ]),
+          ...(floor ? [totalRow(`Totale ${floor.name}`, totals)] : [])
+        ]),
+        totalRow(`Totale ${project.buildingName || 'Edificio'}`, summary.totals)
+      ];
+
+  const continueOnNewPage = () => {
+    doc.addPage();
+    pages.push(doc.getNumberOfPages());
+    y = drawHeader(doc, letterhead);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(15, 23, 42);
+    doc.text('Abaco Caloriferi (segue)', MARGIN, y + 4);
+    y = drawAbacoTableHeader(doc, y + 8);
+  };
+
+  rows.forEach(({ cells, warning, total, group }) => {
+    doc.setFontSize(8);
+    // Le intestazioni di gruppo occupano l'intera larghezza della tabella
+    const wrapped: string[][] = cells.map((c, i) => doc.splitTextToSize(pdfText(c), (group ? CONTENT_WIDTH : ABACO_COLUMNS[i].width) - 3));
+    const rowHeight = Math.max(...wrapped.map(w => w.length)) * ROW_LINE_HEIGHT + 2 * ROW_PADDING;
+
+    // Tabella che prosegue sulla pagina successiva con intestazione ripetuta
+    if (y + rowHeight > FOOTER_TOP - 4) continueOnNewPage();
+
+    if (group) {
+      doc.setFillColor(241, 245, 249);
+      doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, 'F');
+    }
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      const col = ABACO_COLUMNS[i];
+      const tx = col.align === 'left' ? x + 1.5 : col.align === 'center' ? x + col.width / 2 : x + col.width - 1.5;
+      doc.setFont('helvetica', total || i === 0 || i === 3 ? 'bold' : 'normal');
+      if (i === 1 && warning) doc.setTextColor(220, 38, 38);
+      else if (i === 6) doc.setTextColor(4, 120, 87);
+      else doc.setTextColor(15, 23, 42);
+      doc.text(lines, tx, y + ROW_PADDING + 3, { align: col.align, lineHeightFactor: ROW_LINE_HEIGHT / (8 / PT_PER_MM) });
+      x += col.width;
+    });
+    y += rowHeight;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  });
+  // La firma va sull'ultima pagina della tabella: se non c'è spazio la tabella chiude su una pagina nuova
+  if (y > FOOTER_TOP - 4 - SIGNATURE_SPACE) continueOnNewPage();
+  return pages;
+};
+
+// Disegna il prospetto vettoriale adattandolo al riquadro
+export const drawTechnicalDrawing = (doc: jsPDF, drawing: TechnicalDrawing, boxX: number, boxY: number, boxWidth: number, boxHeight: number) => {
+  const { minX, minY, maxX, maxY } = drawing.bounds;
+  const scale = Math.min(boxWidth / Math.max(maxX - minX, 1), boxHeight / Math.max(maxY - minY, 1));
+  const offsetX = boxX + (boxWidth - (maxX - minX) * scale) / 2;
+  const offsetY = boxY + (boxHeight - (maxY - minY) * scale) / 2;
+  const px = (x: number) => offsetX + (x - minX) * scale;
+  const py = (y: number) => offsetY + (maxY - y) * scale;
+
+  drawing.primitives.forEach(p => {
+    const [r, g, b] = hexToRgb(LAYER_COLORS[p.layer]);
+    doc.setDrawColor(r, g, b);
+    doc.setFillColor(r, g, b);
+    doc.setTextColor(r, g, b);
+    doc.setLineWidth(0.2);
+    switch (p.kind) {
+      case 'line':
+        if (p.dashed) doc.setLineDashPattern([1, 1], 0);
+        doc.line(px(p.x1), py(p.y1), px(p.x2), py(p.y2));
+        if (p.dashed) doc.setLineDashPattern([], 0);
+        break;
+      case 'rect':
+        doc.rect(px(p.x), py(p.y + p.height), p.width * scale, p.height * scale, 'S');
+        break;
+      case 'circle':
+        doc.circle(px(p.cx), py(p.cy), Math.max(p.r * scale, 0.6), 'F');
+        break;
+      case 'polygon': {
+        const [[x1, y1], [x2, y2], [x3, y3]] = p.points;
+        doc.triangle(px(x1), py(y1), px(x2), py(y2), px(x3), py(y3), 'F');
+        break;
+      }
+      case 'text':
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(Math.max(p.size * scale * PT_PER_MM, 5));
+        doc.text(pdfText(p.text), px(p.x), py(p.y), { align: p.anchor === 'start' ? 'left' : p.anchor === 'end' ? 'right' : 'center', angle: p.angle });
+        break;
+    }
+  });
+};
+
+// Una scheda per radiatore: nei locali con più radiatori riporta quota assegnata e totale del locale
+const drawRoomSheet = (doc: jsPDF, input: ProjectPdfInput, env: Environment, index: number, radiators: RadiatorSizing[], radiatorIndex: number) => {
+  const { project, letterhead } = input;
+  const { radiator, sizing: data } = radiators[radiatorIndex];
+  const specs = radiator.specs;
+  const calc = input.getCalculation(env);
+  const room = summarizeRoom(radiators, calc.watts);
+  const issues = issuesForRadiator(input.getIssues(env), radiator.id);
+  let y = drawHeader(doc, letterhead);
+
+  const drawTitle = (suffix = '') => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.setTextColor(15, 23, 42);
+    doc.text(`Scheda Tecnica Locale${suffix}`, MARGIN, y + 8);
+    doc.setFontSize(6.5);
+    doc.setTextColor(148, 163, 184);
+    doc.text(pdfText(`RIFERIMENTO: ${project.clientSurname} - ${project.siteAddress}`.toUpperCase()), MARGIN, y + 13);
+    const radiatorRef = radiators.length > 1 ? ` - RADIATORE ${radiatorIndex + 1} DI ${radiators.length}` : '';
+    doc.text(`AMBIENTE ${index + 1}${radiatorRef}`, PAGE_WIDTH - MARGIN, y + 3, { align: 'right' });
+    doc.setFontSize(16);
+    doc.setTextColor(15, 23, 42);
+    doc.text(pdfText(env.name.toUpperCase()), PAGE_WIDTH - MARGIN, y + 11, { align: 'right' });
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, y + 16, PAGE_WIDTH - MARGIN, y + 16);
+    doc.setLineWidth(0.2);
+    y += 22;
+  };
+  drawTitle();
+
+  const colWidth = (CONTENT_WIDTH - 10) / 2;
+  const rightX = MARGIN + colWidth + 10;
+  const top = y;
+
+  // Riquadro fabbisogno
+  const splitHeight = radiators.length > 1 ? 8 : 0;
+  const boxHeight = (calc.method === HeatLossMethod.DETAILED ? 38 : 26) + splitHeight;
+  doc.setFillColor(15, 23, 42);
+  doc.roundedRect(MARGIN, y, colWidth, boxHeight, 3, 3, 'F');
+  doc.setTextColor(148, 163, 184);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(6.5);
+  doc.text('FABBISOGNO CALCOLATO', MARGIN + 5, y + 6);
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(24);
+  doc.text(`${room.requiredWatts} Watt`, MARGIN + 5, y + 16);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(6.5);
+  doc.setTextColor(148, 163, 184);
+  doc.text(pdfText(`METODO: ${HEAT_LOSS_METHOD_LABELS[calc.method]}`.toUpperCase()), MARGIN + 5, y + 22);
+  if (calc.method === HeatLossMethod.DETAILED) {
+    doc.setFontSize(7.5);
+    doc.setTextColor(255, 255, 255);
+    doc.text(`Trasmissione: ${Math.round(calc.transmissionWatts || 0)} W`, MARGIN + 5, y + 28);
+    doc.text(`Ventilazione: ${Math.round(calc.ventilationWatts || 0)} W`, MARGIN + 5, y + 32);
+    doc.text(`T. Int / T. Est: ${env.specs.heatLoss?.internalTemp ?? '-'} / ${env.specs.heatLoss?.externalTemp ?? '-'} °C`, MARGIN + 5, y + 36);
+  }
+  if (splitHeight > 0) {
+    doc.setFontSize(7.5);
+    doc.setTextColor(room.totalWatts < room.requiredWatts ? 248 : 255, room.totalWatts < room.requiredWatts ? 113 : 255, room.totalWatts < room.requiredWatts ? 113 : 255);
+    doc.text(`Quota radiatore: ${data.requiredWatts} W - Resa totale locale: ${room.totalWatts} W`, MARGIN + 5, y + boxHeight - 4);
+  }
+  y += boxHeight + 8;
+
+  // Configurazione tecnica
+  const hydraulics = data.hydraulics;
+  const rows: [string, string][] = [
+    ['Serie Prodotto', specs.series.toUpperCase()],
+    ['Modello', data.model.label],
+    ['Altezza Totale', `${data.model.height} mm`],
+    ['Interasse Valvole', `${data.model.interaxis} mm`],
+    data.isPanel ? ['Lunghezza Pannello', `${data.bodyLength} mm`] : ['Nr. Elementi', `${data.currentElements} pz`],
+    ['Ingombro Finale', `${data.totalOccupiedWidth} mm`],
+    [`Resa Effettiva (DT ${data.deltaT.toFixed(1)} K)`, `${data.totalWatts} W`],
+    ['Resa Nominale (DT 50 K)', `${data.nominalTotalWatts} W`],
+    ['Diaframma Interno', specs.hasDiaphragm ? 'APPLICATO' : 'NON RICHIESTO'],
+    ['Tubazione', `${specs.pipeMaterial} ${specs.pipeDiameter}`],
+    [`Portata di Progetto (DT ${hydraulics.systemDeltaT} K)`, `${Math.round(hydraulics.flowRate)} l/h`],
+    ['Velocità / Perdita Lineare', hydraulics.velocity !== undefined && hydraulics.pressureGradient !== undefined
+      ? `${hydraulics.velocity.toFixed(2)} m/s - ${Math.round(hydraulics.pressureGradient)} Pa/m`
+      : 'TUBO NON DEFINITO'],
+    ...(hydraulics.circuitPressureDrop !== undefined
+      ? [[`Perdita Circuito (${specs.pipeLength} m)`, `${(hydraulics.circuitPressureDrop / 1000).toFixed(2)} kPa`] as [string, string]]
+      : []),
+    ['Nicchia (L x H)', `${specs.nicheWidth} x ${specs.nicheHeight} mm`]
+  ];
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(6.5);
+  doc.setTextColor(148, 163, 184);
+  doc.text('CONFIGURAZIONE TECNICA', MARGIN, y);
+  y += 5;
+  rows.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8.5);
+    doc.setTextColor(15, 23, 42);
+    doc.text(pdfText(label), MARGIN, y);
+    doc.setFont('helvetica', 'bold');
+    doc.text(pdfText(value), MARGIN + colWidth, y, { align: 'right' });
+    doc.setDrawColor(241, 245, 249);
+    doc.line(MARGIN, y + 1.8, MARGIN + colWidth, y + 1.8);
+    y += 6.5;
+  });
+  [data.eccentricText, data.matchWarning, data.outputError].filter(Boolean).forEach(warning => {
+    const lines: string[] = doc.splitTextToSize(pdfText(warning.toUpperCase()), colWidth - 6);
+    doc.setFillColor(254, 242, 242);
+    doc.roundedRect(MARGIN, y, colWidth, lines.length * 3.5 + 4, 2, 2, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.setTextColor(220, 38, 38);
+    doc.text(lines, MARGIN + colWidth / 2, y + 4.5, { align: 'center' });
+    y += lines.length * 3.5 + 7;
+  });
+
+  const drawBox = (label: string, drawing: TechnicalDrawing, x: number, boxY: number, width: number, height: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(6.5);
+    doc.setTextColor(148, 163, 184);
+    doc.text(label, x, boxY + 2);
+    doc.setDrawColor(226, 232, 240);
+    doc.roundedRect(x, boxY + 4, width, height, 3, 3, 'S');
+    drawTechnicalDrawing(doc, drawing, x + 4, boxY + 8, width - 8, height - 8);
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height <= FOOTER_TOP - 4) return;
+    doc.addPage();
+    y = drawHeader(doc, letterhead);
+    drawTitle(' (segue)');
+  };
+
+  // Vista principale nella colonna destra; con tutte le viste pianta e sezione seguono affiancate
+  const view = input.view ?? DrawingView.ELEVATION;
+  if (view === DrawingView.PLAN) drawBox('PIANTA', buildPlanView(specs, data, issues), rightX, top, colWidth, 120);
+  else if (view === DrawingView.SECTION) drawBox('SEZIONE LATERALE', buildSideSection(specs, data, issues), rightX, top, colWidth, 120);
+  else drawBox('PROSPETTO TECNICO', buildElevation(specs, data, issues), rightX, top, colWidth, 120);
+  y = Math.max(y, top + 130);
+  if (view === DrawingView.ALL) {
+    ensureSpace(76);
+    drawBox('PIANTA', buildPlanView(specs, data, issues), MARGIN, y, colWidth, 66);
+    drawBox('SEZIONE LATERALE', buildSideSection(specs, data, issues), rightX, y, colWidth, 66);
+    y += 78;
+  }
+
+  // Segnalazioni a tutta larghezza, proseguono su una nuova pagina se necessario
+  if (issues.length === 0) return;
+  ensureSpace(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(6.5);
+  doc.setTextColor(148, 163, 184);
+  doc.text('VERIFICHE E SEGNALAZIONI', MARGIN, y);
+  y += 5;
+  issues.forEach(issue => {
+    doc.setFontSize(8);
+    const lines: string[] = doc.splitTextToSize(pdfText(issue.message), CONTENT_WIDTH - 6);
+    ensureSpace(lines.length * 3.8 + 2);
+    const isError = issue.severity === ValidationSeverity.ERROR;
+    doc.setFillColor(isError ? 220 : 251, isError ? 38 : 146, isError ? 38 : 60);
+    doc.circle(MARGIN + 1.2, y - 1, 1, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(isError ? 185 : 194, isError ? 28 : 65, isError ? 28 : 12);
+    doc.text(lines, MARGIN + 4, y);
+    y += lines.length * 3.8 + 2;
+  });
+};
+
+// Tabella di bilanciamento: preregolazione delle valvole per l'installatore
+const drawBalancing = (doc: jsPDF, input: ProjectPdfInput) => {
+  const { project, letterhead } = input;
+  const { settings, valve, rows, indexRow, requiredHead } = calculateBalancing(project, input.getRadiators);
+  const kPa = (pa?: number) => pa === undefined ? '-' : (pa / 1000).toFixed(2);
+  let y = drawHeader(doc, letterhead);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7);
+  doc.setTextColor(148, 163, 184);
+  doc.text('PREREGOLAZIONE VALVOLE', MARGIN, y + 2);
+  doc.setFontSize(22);
+  doc.setTextColor(15, 23, 42);
+  doc.text('Tabella di bilanciamento', MARGIN, y + 12);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8.5);
+  const source = `${HEAT_SOURCE_LABELS[settings.sourceType]}${settings.sourceLocation ? ` - ${settings.sourceLocation}` : ''}`;
+  doc.text(pdfText(`Origine circuiti: ${source}   Valvola: ${valve.label}`), MARGIN, y + 20);
+  doc.text(pdfText(`Circuito indice: ${indexRow ? indexRow.label : '-'}   Prevalenza richiesta: ${kPa(requiredHead)} kPa`), MARGIN, y + 25);
+  y += 30;
+
+  const drawTableHeader = () => {
+    doc.setFillColor(241, 245, 249);
+    doc.rect(MARGIN, y, CONTENT_WIDTH, 8, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.setTextColor(15, 23, 42);
+    let x = MARGIN;
+    BALANCING_COLUMNS.forEach(col => {
+      const tx = col.align === 'left' ? x + 1.5 : col.align === 'center' ? x + col.width / 2 : x + col.width - 1.5;
+      doc.text(col.label.toUpperCase(), tx, y + 5.3, { align: col.align });
+      x += col.width;
+    });
+    y += 8;
+  };
+  drawTableHeader();
+
+  rows.forEach(row => {
+    const cells = [
+      row.label,
+      `${Math.round(row.flowRate)}`,
+      kPa(row.circuitPressureDrop),
+      kPa(row.valvePressureDrop),
+      row.requiredKv !== undefined ? row.requiredKv.toFixed(2) : '-',
+      row.presetting !== undefined ? formatPresetting(valve, row.presetting) : '-',
+      BALANCING_STATUS_LABELS[row.status]
+    ];
+    doc.setFontSize(8);
+    const wrapped: string[][] = cells.map((c, i) => doc.splitTextToSize(pdfText(c), BALANCING_COLUMNS[i].width - 3));
+    const rowHeight = Math.max(...wrapped.map(w => w.length)) * ROW_LINE_HEIGHT + 2 * ROW_PADDING;
+    if (y + rowHeight > FOOTER_TOP - 4) {
+      doc.addPage();
+      y = drawHeader(doc, letterhead);
+      drawTableHeader();
+    }
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      const col = BALANCING_COLUMNS[i];
+      const tx = col.align === 'left' ? x + 1.5 : col.align === 'center' ? x + col.width / 2 : x + col.width - 1.5;
+      doc.setFont('helvetica', i === 0 || i === 5 || row === indexRow ? 'bold' : 'normal');
+      doc.setTextColor(15, 23, 42);
+      doc.text(lines, tx, y + ROW_PADDING + 3, { align: col.align, lineHeightFactor: ROW_LINE_HEIGHT / (8 / PT_PER_MM) });
+      x += col.width;
+    });
+    y += rowHeight;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  });
+};
+
+// Riepilogo di centrale: potenza del generatore, contenuto d'acqua e vaso d'espansione
+const drawPlantSummary = (doc: jsPDF, input: ProjectPdfInput) => {
+  const { project, letterhead, getRadiators, getCalculation } = input;
+  const summary = summarizePlant(project, getRadiators, env => getCalculation(env).watts);
+  let y = drawHeader(doc, letterhead);
+
+  const drawTitle = (suffix = '') => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.setTextColor(148, 163, 184);
+    doc.text('CENTRALE TERMICA', MARGIN, y + 2);
+    doc.setFontSize(22);
+    doc.setTextColor(15, 23, 42);
+    doc.text(`Riepilogo impianto${suffix}`, MARGIN, y + 12);
+    y += 22;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height <= FOOTER_TOP - 4) return;
+    doc.addPage();
+    y = drawHeader(doc, letterhead);
+    drawTitle(' (segue)');
+  };
+  drawTitle();
+
+  plantSummarySections(summary).forEach(section => {
+    // Il titolo della sezione non resta da solo in fondo alla pagina
+    ensureSpace(5 + 6.5);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(6.5);
+    doc.setTextColor(148, 163, 184);
+    doc.text(pdfText(section.title.toUpperCase()), MARGIN, y);
+    y += 5;
+    section.rows.forEach(([label, value]) => {
+      ensureSpace(6.5);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8.5);
+      doc.setTextColor(15, 23, 42);
+      doc.text(pdfText(label), MARGIN, y);
+      doc.setFont('helvetica', 'bold');
+      doc.text(pdfText(value), PAGE_WIDTH - MARGIN, y, { align: 'right' });
+      doc.setDrawColor(241, 245, 249);
+      doc.line(MARGIN, y + 1.8, PAGE_WIDTH - MARGIN, y + 1.8);
+      y += 6.5;
+    });
+    if (section.note) {
+      ensureSpace(5);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(7);
+      doc.setTextColor(194, 65, 12);
+      doc.text(pdfText(section.note), MARGIN, y);
+      y += 5;
+    }
+    y += 6;
+  });
+};
+
+export const buildProjectPdf = (input: ProjectPdfInput): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  doc.setProperties({ title: `Abaco Caloriferi - ${input.project.clientSurname} ${input.project.siteAddress}`.trim() });
+  const abacoPages = drawAbaco(doc, input);
+  input.project.environments.forEach((env, index) => {
+    const radiators = input.getRadiators(env);
+    radiators.forEach((_, radiatorIndex) => {
+      doc.addPage();
+      drawRoomSheet(doc, input, env, index, radiators, radiatorIndex);
+    });
+  });
+  doc.addPage();
+  drawBalancing(doc, input);
+  doc.addPage();
+  drawPlantSummary(doc, input);
+
+  // Numerazione a documento completo
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawFooter(doc, input.letterhead, page, pageCount, page === abacoPages[abacoPages.length - 1] ? 'Timbro e Firma del Progettista' : undefined);
+  }
+  return doc;
+};
+
+export const downloadProjectPdf = (input: ProjectPdfInput) => {
+  buildProjectPdf(input).save(`${projectSlug(input.project)}.pdf`);
+};
@@ -0,0 +1,133 @@
+import { Project, Environment, RadiatorSizing, PlantSettings, GeneratorType } from '../types';
+import { INITIAL_PLANT, INITIAL_SYSTEM_TEMPERATURES, GENERATOR_TYPE_LABELS } from '../constants';
+import { summarizeBuilding, StructureTotals } from './buildingStructure';
+import { interpolateWaterProperties, pipeInnerDiameter } from './hydraulics';
+import { modelQuantity } from './optimizer';
+
+// Margine sul fabbisogno per perdite di distribuzione e messa a regime
+export const PLANT_MARGIN = 0.1;
+
+// Taglie commerciali (kW) e volumi dei vasi d'espansione (litri)
+export const GENERATOR_SIZES: Record<GeneratorType, number[]> = {
+  [GeneratorType.BOILER]: [12, 18, 24, 28, 32, 35, 45, 60, 80, 100],
+  [GeneratorType.HEAT_PUMP]: [4, 6, 8, 10, 12, 14, 16, 20, 25, 30]
+};
+export const EXPANSION_VESSEL_SIZES = [8, 12, 18, 24, 35, 50, 80, 100, 150, 200];
+
+// Riempimento a freddo, precarica del vaso e taratura della valvola di sicurezza
+const FILL_TEMP = 10; // °C
+export const VESSEL_PRECHARGE = 1.5; // bar
+export const SAFETY_VALVE_PRESSURE = 3; // bar
+const FINAL_PRESSURE_RATIO = 0.9; // Pressione massima di esercizio rispetto alla valvola
+
+export interface PlantSummary {
+  settings: PlantSettings;
+  totals: StructureTotals;
+  oversizePercent: number; // Resa installata oltre il fabbisogno
+  heatingLoad: number; // W fabbisogno con margine
+  generatorLoad: number; // W riscaldamento combinato con l'ACS
+  suggestedSize?: number; // kW; assente oltre la taglia massima
+  radiatorWater: number; // litri
+  pipeWater: number; // litri
+  waterContent: number; // litri totali, generatore compreso
+  missingWaterData: number; // Radiatori senza contenuto d'acqua a catalogo
+  expansionCoefficient: number;
+  expansionVolume: number; // litri di vaso necessari
+  suggestedVessel?: number; // litri
+}
+
+export const getPlantSettings = (project: Project): PlantSettings => project.plant ?? INITIAL_PLANT;
+
+const nextSize = (sizes: number[], value: number): number | undefined => sizes.find(s => s >= value);
+
+// Litri contenuti nella tubazione del circuito
+const pipeWaterContent = ({ radiator }: RadiatorSizing): number => {
+  const inner = pipeInnerDiameter(radiator.specs.pipeMaterial, radiator.specs.pipeDiameter);
+  const length = radiator.specs.pipeLength ?? 0;
+  return inner === null || length <= 0 ? 0 : Math.PI * Math.pow(inner / 1000, 2) / 4 * length * 1000;
+};
+
+// Con la caldaia l'ACS ha precedenza sul riscaldamento (conta la maggiore);
+// la pompa di calore deve coprire anche la ricarica del bollitore
+export const summarizePlant = (
+  project: Project,
+  getRadiators: (env: Environment) => RadiatorSizing[],
+  getRoomWatts: (env: Environment) => number
+): PlantSummary => {
+  const settings = getPlantSettings(project);
+  const { totals } = summarizeBuilding(project, getRadiators, getRoomWatts);
+  const heatingLoad = totals.requiredWatts * (1 + PLANT_MARGIN);
+  const generatorLoad = settings.generatorType === GeneratorType.BOILER
+    ? Math.max(heatingLoad, settings.dhwAllowance)
+    : heatingLoad + settings.dhwAllowance;
+
+  const sizings = project.environments.flatMap(env => getRadiators(env));
+  const radiatorWater = sizings.reduce((sum, s) => sum + (s.sizing.model.waterContent ?? 0) * modelQuantity(s), 0);
+  const pipeWater = sizings.reduce((sum, s) => sum + pipeWaterContent(s), 0);
+  const waterContent = radiatorWater + pipeWater + settings.generatorWaterContent;
+  const missingWaterData = sizings.filter(s => s.sizing.currentElements > 0 && s.sizing.model.waterContent === undefined).length;
+
+  // Dilatazione dal riempimento alla temperatura di mandata; vaso chiuso a pressioni assolute
+  const maxTemp = (project.systemTemperatures ?? INITIAL_SYSTEM_TEMPERATURES).flowTemp;
+  const expansionCoefficient = Math.max(0, interpolateWaterProperties(FILL_TEMP).density / interpolateWaterProperties(maxTemp).density - 1);
+  const finalPressure = SAFETY_VALVE_PRESSURE * FINAL_PRESSURE_RATIO;
+  const expansionVolume = waterContent * expansionCoefficient / (1 - (VESSEL_PRECHARGE + 1) / (finalPressure + 1));
+
+  return {
+    settings,
+    totals,
+    oversizePercent: totals.requiredWatts > 0 ? (totals.totalWatts - totals.requiredWatts) / totals.requiredWatts * 100 : 0,
+    heatingLoad,
+    generatorLoad,
+    suggestedSize: nextSize(GENERATOR_SIZES[settings.generatorType], generatorLoad / 1000),
+    radiatorWater,
+    pipeWater,
+    waterContent,
+    missingWaterData,
+    expansionCoefficient,
+    expansionVolume,
+    suggestedVessel: nextSize(EXPANSION_VESSEL_SIZES, expansionVolume)
+  };
+};
+
+export interface PlantSummarySection {
+  title: string;
+  rows: [string, string][];
+  note?: string;
+}
+
+// Righe del riepilogo, comuni al pannello, alla stampa e al PDF
+export const plantSummarySections = (summary: PlantSummary): PlantSummarySection[] => {
+  const { settings, totals } = summary;
+  const isBoiler = settings.generatorType === GeneratorType.BOILER;
+  return [
+    {
+      title: 'Potenze',
+      rows: [
+        ['Fabbisogno di progetto', `${totals.requiredWatts} W`],
+        ['Resa installata (ΔT di progetto)', `${totals.totalWatts} W`],
+        ['Resa nominale (ΔT 50 K)', `${totals.nominalTotalWatts} W`],
+        ['Margine resa installata', `${summary.oversizePercent >= 0 ? '+' : ''}${summary.oversizePercent.toFixed(1)} %`],
+        [`Carico riscaldamento (+${PLANT_MARGIN * 100} % distribuzione)`, `${Math.round(summary.heatingLoad)} W`],
+        ['Quota acqua calda sanitaria', `${settings.dhwAllowance} W`],
+        [isBoiler ? 'Potenza generatore (ACS con precedenza)' : 'Potenza generatore (riscaldamento + ACS)', `${Math.round(summary.generatorLoad)} W`],
+        [`Taglia suggerita ${GENERATOR_TYPE_LABELS[settings.generatorType].toLowerCase()}`, summary.suggestedSize !== undefined ? `${summary.suggestedSize} kW` : 'Oltre la gamma: più generatori in cascata']
+      ]
+    },
+    {
+      title: "Contenuto d'acqua e vaso d'espansione",
+      rows: [
+        ['Radiatori', `${summary.radiatorWater.toFixed(1)} l`],
+        ['Tubazioni', `${summary.pipeWater.toFixed(1)} l`],
+        ['Generatore', `${settings.generatorWaterContent.toFixed(1)} l`],
+        ['Contenuto totale impianto', `${summary.waterContent.toFixed(1)} l`],
+        ['Coefficiente di dilatazione', `${(summary.expansionCoefficient * 100).toFixed(2)} %`],
+        [`Volume vaso (precarica ${VESSEL_PRECHARGE} bar, valvola ${SAFETY_VALVE_PRESSURE} bar)`, `${summary.expansionVolume.toFixed(1)} l`],
+        ["Vaso d'espansione suggerito", summary.suggestedVessel !== undefined ? `${summary.suggestedVessel} l` : 'Oltre la gamma: più vasi in parallelo']
+      ],
+      note: summary.missingWaterData > 0
+        ? `${summary.missingWaterData} radiatori senza contenuto d'acqua a catalogo: il totale è sottostimato.`
+        : undefined
+    }
+  ];
+};
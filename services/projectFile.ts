@@ -0,0 +1,137 @@
+import { Project, ProjectFile, RadiatorModel, GlobalSettings, ImportConflictMode, Letterhead, RoomTemplate } from '../types';
+import { CURRENT_SCHEMA_VERSION, isObject, migrateData, normaliseProjects, normaliseModels, normaliseSettings, normaliseLetterheads } from './migrations';
+import { normaliseRoomTemplates } from './roomTemplates';
+import { getSeriesOptions } from './catalogue';
+
+export const PROJECT_FILE_FORMAT = 'archquote-project';
+
+export interface ProjectFileParseResult {
+  file: ProjectFile | null;
+  errors: string[];
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const buildProjectFile = (
+  projects: Project[],
+  customModels: RadiatorModel[],
+  settings: GlobalSettings,
+  letterheads: Letterhead[],
+  roomTemplates: RoomTemplate[]
+): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  projects,
+  customModels,
+  settings,
+  // Solo le carte intestate usate dai progetti esportati
+  letterheads: letterheads.filter(l => projects.some(p => p.letterheadId === l.id)),
+  roomTemplates
+});
+
+// Nome file sicuro ricavato da cognome cliente e indirizzo cantiere
+export const slugify = (value: string): string => value.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '');
+
+export const projectSlug = (project: Project): string =>
+  slugify([project.clientSurname, project.siteAddress].filter(Boolean).join('-')) || 'progetto';
+
+export const projectFileName = (projects: Project[]): string =>
+  projects.length === 1
+    ? `${projectSlug(projects[0])}.json`
+    : `archquote-progetti-${new Date().toISOString().slice(0, 10)}.json`;
+
+export const parseProjectFile = (text: string): ProjectFileParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { file: null, errors: ['File non leggibile: JSON non valido'] };
+  }
+  if (!isObject(raw)) {
+    return { file: null, errors: ['Struttura del file non riconosciuta'] };
+  }
+  if (raw.format !== PROJECT_FILE_FORMAT) {
+    return { file: null, errors: ['Il file non è un progetto ArchQuote'] };
+  }
+
+  let data;
+  try {
+    data = migrateData(raw, Number(raw.schemaVersion));
+  } catch (err) {
+    return { file: null, errors: [(err as Error).message] };
+  }
+
+  const errors: string[] = [];
+  const projects: unknown[] = Array.isArray(data.projects) ? data.projects : [];
+  if (projects.length === 0) {
+    errors.push('Il file non contiene progetti');
+  } else {
+    projects.forEach((p, i) => {
+      if (!isObject(p)) errors.push(`Progetto ${i + 1}: dati non validi`);
+      else if (!Array.isArray(p.environments)) errors.push(`Progetto ${i + 1}: elenco ambienti mancante`);
+    });
+  }
+  if (errors.length > 0) return { file: null, errors };
+
+  const customModels = normaliseModels(data.customModels);
+  return {
+    file: {
+      format: PROJECT_FILE_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      projects: normaliseProjects(data.projects),
+      customModels,
+      settings: data.settings ? normaliseSettings(data.settings) : undefined,
+      letterheads: normaliseLetterheads(data.letterheads),
+      roomTemplates: normaliseRoomTemplates(data.roomTemplates, getSeriesOptions(customModels).map(o => o.id))
+    },
+    errors: []
+  };
+};
+
+export const findIdCollisions = (existing: Project[], incoming: Project[]): string[] => {
+  const ids = new Set(existing.map(p => p.id));
+  return incoming.filter(p => ids.has(p.id)).map(p => p.id);
+};
+
+const mergeProject = (current: Project, incoming: Project): Project => {
+  const incomingById = new Map(incoming.environments.map(e => [e.id, e]));
+  const environments = current.environments.map(e => incomingById.get(e.id) ?? e);
+  const currentIds = new Set(current.environments.map(e => e.id));
+  incoming.environments.forEach(e => {
+    if (!currentIds.has(e.id)) environments.push(e);
+  });
+  return { ...current, ...incoming, environments, createdAt: current.createdAt, updatedAt: new Date().toISOString() };
+};
+
+// Applica i progetti importati; per gli id già presenti usa la modalità scelta
+export const applyProjectImport = (
+  existing: Project[],
+  incoming: Project[],
+  modes: Record<string, ImportConflictMode>
+): Project[] => {
+  const result = [...existing];
+  incoming.forEach(p => {
+    const index = result.findIndex(e => e.id === p.id);
+    if (index === -1) {
+      result.push(p);
+      return;
+    }
+    const mode = modes[p.id] ?? ImportConflictMode.DUPLICATE;
+    if (mode === ImportConflictMode.REPLACE) {
+      result[index] = p;
+    } else if (mode === ImportConflictMode.MERGE) {
+      result[index] = mergeProject(result[index], p);
+    } else {
+      result.push({ ...p, id: newId() });
+    }
+  });
+  return result;
+};
+
+// Aggiunge le carte intestate importate non ancora presenti
+export const mergeLetterheads = (existing: Letterhead[], incoming: Letterhead[]): Letterhead[] => {
+  const ids = new Set(existing.map(l => l.id));
+  return [...existing, ...incoming.filter(l => !ids.has(l.id))];
+};
@@ -0,0 +1,60 @@
+import { Project, Environment } from '../types';
+import { remapQuoteOverrides } from './quote';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const touchProject = (project: Project): Project => ({ ...project, updatedAt: new Date().toISOString() });
+
+export const duplicateEnvironment = (env: Environment, name = `${env.name} (copia)`): Environment => ({
+  ...env,
+  id: newId(),
+  name,
+  specs: structuredClone(env.specs),
+  additionalRadiators: env.additionalRadiators?.map(r => ({ ...r, id: newId(), specs: structuredClone(r.specs) }))
+});
+
+// Id originali → id della copia per l'ambiente e i suoi radiatori (il primo radiatore ha l'id dell'ambiente)
+export const environmentIdMap = (original: Environment, copy: Environment): Map<string, string> => {
+  const ids = new Map([[original.id, copy.id]]);
+  original.additionalRadiators?.forEach((r, i) => {
+    const copied = copy.additionalRadiators?.[i];
+    if (copied) ids.set(r.id, copied.id);
+  });
+  return ids;
+};
+
+export const duplicateProject = (project: Project): Project => {
+  const now = new Date().toISOString();
+  const environments = project.environments.map(env => duplicateEnvironment(env, env.name));
+  // Le modifiche manuali al preventivo sono riferite agli id delle righe: vanno riportate sui nuovi ambienti
+  const ids = new Map(project.environments.flatMap((env, i) => [...environmentIdMap(env, environments[i])]));
+  return {
+    ...project,
+    id: newId(),
+    clientSurname: project.clientSurname ? `${project.clientSurname} (copia)` : '',
+    environments,
+    quote: project.quote && { ...structuredClone(project.quote), overrides: remapQuoteOverrides(project.quote.overrides, ids) },
+    archived: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Sposta un elemento da una posizione all'altra senza modificare l'array originale
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) return items;
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+// Filtra per cognome cliente o indirizzo cantiere, ignorando maiuscole e accenti
+export const filterProjects = (projects: Project[], query: string, showArchived: boolean): Project[] => {
+  const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const needle = fold(query.trim());
+  return projects.filter(p =>
+    p.archived === showArchived &&
+    (!needle || fold(p.clientSurname).includes(needle) || fold(p.siteAddress).includes(needle))
+  );
+};
@@ -0,0 +1,137 @@
+import { Environment, Project, PriceList, ProjectQuote, QuoteLine, QuoteLineOverride, QuoteLineCategory, QuoteTotals, SizingResult, RadiatorSizing, RadiatorPosition, InteraxisMatch } from '../types';
+import { createEmptyQuote } from '../constants';
+
+// Interasse massimo tra le staffe a muro
+export const BRACKET_SPACING = 800; // mm
+
+export const countBrackets = (bodyLength: number): number =>
+  bodyLength > 0 ? Math.max(2, Math.ceil(bodyLength / BRACKET_SPACING)) : 0;
+
+export const findPipePrice = (priceList: PriceList, material: string, diameter: string): number =>
+  priceList.pipes.find(p => p.material === material && p.diameter === diameter)?.pricePerMeter ?? 0;
+
+export const lineTotal = (line: QuoteLine): number => line.quantity * line.unitPrice;
+
+export const getProjectQuote = (project: Project, priceList: PriceList): ProjectQuote =>
+  project.quote ?? createEmptyQuote(priceList.vatRate);
+
+// Il primo radiatore mantiene gli id storici, così le modifiche manuali già salvate restano valide
+const lineId = (env: Environment, radiator: RadiatorPosition, category: QuoteLineCategory): string =>
+  radiator.id === env.id ? `${env.id}:${category}` : `${env.id}:${radiator.id}:${category}`;
+
+// Modifiche manuali riferite agli ambienti e ai radiatori copiati, con le chiavi riscritte sui nuovi id;
+// ids associa gli id originali a quelli delle copie, le altre modifiche sono escluse
+export const remapQuoteOverrides = (overrides: Record<string, QuoteLineOverride>, ids: Map<string, string>): Record<string, QuoteLineOverride> => {
+  const result: Record<string, QuoteLineOverride> = {};
+  Object.entries(overrides).forEach(([key, override]) => {
+    const parts = key.split(':');
+    const category = parts.pop()!;
+    if (parts.length === 0 || !parts.every(id => ids.has(id))) return;
+    result[[...parts.map(id => ids.get(id)!), category].join(':')] = { ...override };
+  });
+  return result;
+};
+
+const radiatorLine = (env: Environment, radiator: RadiatorPosition, sizing: SizingResult, suffix: string): QuoteLine => {
+  const { model } = sizing;
+  const name = [model.brand, sizing.series, model.label].filter(Boolean).join(' ');
+  const price = model.price ?? 0;
+  // Per i pannelli il prezzo a catalogo è al metro lineare
+  return sizing.isPanel
+    ? {
+        id: lineId(env, radiator, QuoteLineCategory.RADIATOR),
+        environmentId: env.id,
+        category: QuoteLineCategory.RADIATOR,
+        description: `${name} L ${sizing.bodyLength} mm${suffix}`,
+        unit: 'pz',
+        quantity: 1,
+        unitPrice: price * sizing.bodyLength / 1000
+      }
+    : {
+        id: lineId(env, radiator, QuoteLineCategory.RADIATOR),
+        environmentId: env.id,
+        category: QuoteLineCategory.RADIATOR,
+        description: `${name} H ${model.height} / Int ${model.interaxis}${suffix}`,
+        unit: 'el',
+        quantity: sizing.currentElements,
+        unitPrice: price
+      };
+};
+
+// Righe di preventivo ricavate dalla configurazione di un radiatore del locale
+const buildRadiatorLines = (env: Environment, { radiator, sizing }: RadiatorSizing, radiatorCount: number, priceList: PriceList): QuoteLine[] => {
+  if (sizing.matchStatus === InteraxisMatch.NO_MODELS) return [];
+  const { specs } = radiator;
+  const suffix = radiatorCount > 1 ? ` (${radiator.name})` : '';
+  const line = (category: QuoteLineCategory, description: string, unit: string, quantity: number, unitPrice: number): QuoteLine => ({
+    id: lineId(env, radiator, category),
+    environmentId: env.id,
+    category,
+    description: `${description}${suffix}`,
+    unit,
+    quantity,
+    unitPrice
+  });
+
+  const lines = [
+    radiatorLine(env, radiator, sizing, suffix),
+    line(QuoteLineCategory.VALVE, 'Valvola termostatizzabile', 'pz', 1, priceList.valve),
+    line(QuoteLineCategory.LOCKSHIELD, 'Detentore', 'pz', 1, priceList.lockshield)
+  ];
+  if (sizing.needsEccentric) {
+    lines.push(line(QuoteLineCategory.ECCENTRIC, 'Coppia raccordi eccentrici', 'cp', 1, priceList.eccentricPair));
+  }
+  if (specs.hasDiaphragm) {
+    lines.push(line(QuoteLineCategory.DIAPHRAGM, 'Kit diaframma interno', 'pz', 1, priceList.diaphragmKit));
+  }
+  lines.push(line(QuoteLineCategory.BRACKET, 'Staffe a muro', 'pz', countBrackets(sizing.bodyLength), priceList.bracket));
+  if (specs.pipeLength && specs.pipeLength > 0) {
+    lines.push(line(
+      QuoteLineCategory.PIPE,
+      `Tubazione ${specs.pipeMaterial} ${specs.pipeDiameter}`,
+      'm',
+      specs.pipeLength,
+      findPipePrice(priceList, specs.pipeMaterial, specs.pipeDiameter)
+    ));
+  }
+  lines.push(line(QuoteLineCategory.LABOUR, 'Posa in opera radiatore', 'pz', 1, priceList.labourPerRadiator));
+  return lines;
+};
+
+export const buildEnvironmentLines = (env: Environment, radiators: RadiatorSizing[], priceList: PriceList): QuoteLine[] =>
+  radiators.flatMap(r => buildRadiatorLines(env, r, radiators.length, priceList));
+
+// Righe generate da tutti gli ambienti con le modifiche manuali applicate, incluse quelle rimosse
+export const buildGeneratedLines = (
+  project: Project,
+  getRadiators: (env: Environment) => RadiatorSizing[],
+  priceList: PriceList
+): { line: QuoteLine; removed: boolean }[] => {
+  const quote = getProjectQuote(project, priceList);
+  return project.environments.flatMap(env =>
+    buildEnvironmentLines(env, getRadiators(env), priceList).map(line => {
+      const { removed, ...override } = quote.overrides[line.id] ?? {};
+      return { line: { ...line, ...override }, removed: removed === true };
+    })
+  );
+};
+
+export const buildQuoteLines = (
+  project: Project,
+  getRadiators: (env: Environment) => RadiatorSizing[],
+  priceList: PriceList
+): QuoteLine[] => [
+  ...buildGeneratedLines(project, getRadiators, priceList).filter(l => !l.removed).map(l => l.line),
+  ...getProjectQuote(project, priceList).extraLines
+];
+
+export const calculateQuoteTotals = (lines: QuoteLine[], discountPercent: number, vatRate: number): QuoteTotals => {
+  const subtotal = lines.reduce((sum, l) => sum + lineTotal(l), 0);
+  const discount = subtotal * discountPercent / 100;
+  const taxable = subtotal - discount;
+  const vat = taxable * vatRate / 100;
+  return { subtotal, discount, taxable, vat, total: taxable + vat };
+};
+
+export const formatEuro = (value: number): string =>
+  value.toLocaleString('it-IT', { style: 'currency', currency: 'EUR' });
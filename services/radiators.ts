@@ -0,0 +1,88 @@
+import { Environment, RadiatorPosition, RadiatorSpecs, RadiatorSizing, LoadSplitMode, SizingResult } from '../types';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Campi che descrivono il locale: condivisi da tutti i radiatori dell'ambiente
+export const ROOM_FIELDS: (keyof RadiatorSpecs)[] = ['surface', 'height', 'heatLossMethod', 'heatLoss', 'systemTemperatures'];
+
+export const isRoomField = (field: keyof RadiatorSpecs): boolean => ROOM_FIELDS.includes(field);
+
+const withRoomData = (specs: RadiatorSpecs, room: RadiatorSpecs): RadiatorSpecs => ({
+  ...specs,
+  surface: room.surface,
+  height: room.height,
+  heatLossMethod: room.heatLossMethod,
+  heatLoss: room.heatLoss,
+  systemTemperatures: room.systemTemperatures
+});
+
+// Il primo radiatore usa le specifiche dell'ambiente e ne condivide l'id
+export const listRadiators = (env: Environment): RadiatorPosition[] => [
+  { id: env.id, name: 'Radiatore 1', specs: env.specs },
+  ...(env.additionalRadiators ?? []).map(r => ({ ...r, specs: withRoomData(r.specs, env.specs) }))
+];
+
+export const radiatorLabel = (env: Environment, radiator: RadiatorPosition, count: number): string =>
+  count > 1 ? `${env.name} - ${radiator.name}` : env.name;
+
+export const createAdditionalRadiator = (env: Environment): RadiatorPosition => {
+  const { manualElements, manualLength, modelCode, assignedWatts, connection, ...specs } = env.specs;
+  return {
+    id: newId(),
+    name: `Radiatore ${(env.additionalRadiators?.length ?? 0) + 2}`,
+    specs: structuredClone(specs)
+  };
+};
+
+// Quote di fabbisogno (W) per ciascun radiatore, nello stesso ordine di listRadiators
+export const splitRequiredWatts = (env: Environment, roomWatts: number): number[] => {
+  const radiators = listRadiators(env);
+  if (radiators.length === 1) return [roomWatts];
+  switch (env.loadSplit ?? LoadSplitMode.EVEN) {
+    case LoadSplitMode.MANUAL:
+      return radiators.map(r => Math.max(0, r.specs.assignedWatts ?? 0));
+    case LoadSplitMode.NICHE_WIDTH: {
+      const total = radiators.reduce((sum, r) => sum + Math.max(0, r.specs.nicheWidth), 0);
+      if (total > 0) return radiators.map(r => roomWatts * Math.max(0, r.specs.nicheWidth) / total);
+      return radiators.map(() => roomWatts / radiators.length);
+    }
+    default:
+      return radiators.map(() => roomWatts / radiators.length);
+  }
+};
+
+// Somma delle rese dei radiatori del locale a confronto con il fabbisogno
+export const summarizeRoom = (sizings: RadiatorSizing[], roomWatts: number) => ({
+  requiredWatts: Math.round(roomWatts),
+  totalWatts: sizings.reduce((sum, s) => sum + s.sizing.totalWatts, 0),
+  nominalTotalWatts: sizings.reduce((sum, s) => sum + s.sizing.nominalTotalWatts, 0)
+});
+
+export const sizeEnvironmentRadiators = (
+  env: Environment,
+  roomWatts: number,
+  sizeRadiator: (specs: RadiatorSpecs, assignedWatts: number | undefined, radiator: RadiatorPosition) => SizingResult
+): RadiatorSizing[] => {
+  const radiators = listRadiators(env);
+  const shares = splitRequiredWatts(env, roomWatts);
+  return radiators.map((radiator, i) => ({
+    radiator,
+    sizing: sizeRadiator(radiator.specs, radiators.length > 1 ? shares[i] : undefined, radiator)
+  }));
+};
+
+// Aggiorna le specifiche del radiatore indicato (indice 0 = specifiche dell'ambiente)
+export const updateRadiatorSpecs = (env: Environment, index: number, updater: (specs: RadiatorSpecs) => RadiatorSpecs): Environment =>
+  index === 0
+    ? { ...env, specs: updater(env.specs) }
+    : { ...env, additionalRadiators: (env.additionalRadiators ?? []).map((r, i) => i === index - 1 ? { ...r, specs: updater(r.specs) } : r) };
+
+// Azzera le scelte manuali di tutti i radiatori quando cambia il fabbisogno del locale
+export const resetManualSizing = (env: Environment): Environment => {
+  const reset = (specs: RadiatorSpecs): RadiatorSpecs => ({ ...specs, manualElements: undefined, manualLength: undefined });
+  return {
+    ...env,
+    specs: reset(env.specs),
+    additionalRadiators: env.additionalRadiators?.map(r => ({ ...r, specs: reset(r.specs) }))
+  };
+};
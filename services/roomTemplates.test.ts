@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { RadiatorSeries, ValvePosition } from '../types';
+import { INITIAL_SPECS } from '../constants';
+import { parseRoomTemplatesJson, normaliseRoomTemplates } from './roomTemplates';
+
+const series = Object.values(RadiatorSeries);
+
+const templateFile = (specs: Record<string, unknown>) =>
+  JSON.stringify({ roomTemplates: [{ id: 't1', name: 'Bagno', specs: { surface: 6, series: RadiatorSeries.TESI3, ...specs } }] });
+
+describe('parseRoomTemplatesJson', () => {
+  it('importa i modelli con valori ammessi', () => {
+    const result = parseRoomTemplatesJson(templateFile({ valvePosition: ValvePosition.LEFT, pipeLength: 4 }), series);
+    expect(result.error).toBeUndefined();
+    expect(result.templates[0].specs).toMatchObject({ surface: 6, series: RadiatorSeries.TESI3, valvePosition: ValvePosition.LEFT, pipeLength: 4 });
+  });
+
+  it.each([
+    ['superficie', { surface: '20' }],
+    ['altezza', { height: -2.7 }],
+    ['gamma', { series: 'SCONOSCIUTA' }],
+    ['posizione valvole', { valvePosition: 'DIAGONALE' }],
+    ['materiale tubo', { pipeMaterial: 42 }],
+    ['diaframma', { hasDiaphragm: 'sì' }],
+    ['dispersioni', { heatLoss: { airChangeRate: -1, surfaces: [] } }]
+  ])('rifiuta il file con un valore non ammesso per %s', (label, specs) => {
+    const result = parseRoomTemplatesJson(templateFile(specs), series);
+    expect(result.templates).toEqual([]);
+    expect(result.error).toContain(`Bagno: ${label}`);
+  });
+});
+
+describe('normaliseRoomTemplates', () => {
+  it('sostituisce i valori non ammessi con quelli iniziali e scarta i campi estranei', () => {
+    const [template] = normaliseRoomTemplates([{ name: 'Camera', specs: { surface: Infinity, series: 'SCONOSCIUTA', nicheWidth: 900 } }], series);
+    expect(template.specs.surface).toBe(INITIAL_SPECS.surface);
+    expect(template.specs.series).toBe(INITIAL_SPECS.series);
+    expect(template.specs).not.toHaveProperty('nicheWidth');
+  });
+});
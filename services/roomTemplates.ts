@@ -0,0 +1,136 @@
+import { RoomTemplate, RoomTemplateSpecs, RadiatorSpecs, RadiatorSeries, Project, ValvePosition, HeatLossMethod } from '../types';
+import { INITIAL_SPECS, PIPE_MATERIALS, PIPE_DIAMETERS } from '../constants';
+import { resetManualSizing } from './radiators';
+import { isObject, enumValue, normaliseHeatLoss } from './migrations';
+
+export const ROOM_TEMPLATES_FORMAT = 'archquote-room-templates';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const TEMPLATE_FIELDS: (keyof RoomTemplateSpecs)[] = [
+  'surface', 'height', 'series', 'valvePosition', 'pipeMaterial', 'pipeDiameter', 'pipeLength', 'hasDiaphragm', 'heatLossMethod', 'heatLoss'
+];
+
+export const pickTemplateSpecs = (specs: RadiatorSpecs): RoomTemplateSpecs => {
+  const picked: Record<string, unknown> = {};
+  TEMPLATE_FIELDS.forEach(field => {
+    if (specs[field] !== undefined) picked[field] = structuredClone(specs[field]);
+  });
+  return picked as RoomTemplateSpecs;
+};
+
+const TEMPLATE_FIELD_LABELS: Record<keyof RoomTemplateSpecs, string> = {
+  surface: 'superficie',
+  height: 'altezza',
+  series: 'gamma',
+  valvePosition: 'posizione valvole',
+  pipeMaterial: 'materiale tubo',
+  pipeDiameter: 'diametro tubo',
+  pipeLength: 'lunghezza tubo',
+  hasDiaphragm: 'diaframma',
+  heatLossMethod: 'metodo di calcolo',
+  heatLoss: 'dispersioni'
+};
+
+const nonNegative = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+// Valore del campo se ammesso (misure finite e non negative, voci degli elenchi e gamme a catalogo), altrimenti undefined
+const readTemplateField = (field: keyof RoomTemplateSpecs, value: unknown, series: RadiatorSeries[]): unknown => {
+  switch (field) {
+    case 'surface':
+    case 'height':
+    case 'pipeLength':
+      return nonNegative(value);
+    case 'series':
+      return typeof value === 'string' && series.includes(value) ? value : undefined;
+    case 'valvePosition':
+      return enumValue(ValvePosition, value);
+    case 'heatLossMethod':
+      return enumValue(HeatLossMethod, value);
+    case 'pipeMaterial':
+      return typeof value === 'string' && PIPE_MATERIALS.includes(value) ? value : undefined;
+    case 'pipeDiameter':
+      return typeof value === 'string' && PIPE_DIAMETERS.includes(value) ? value : undefined;
+    case 'hasDiaphragm':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'heatLoss': {
+      if (!isObject(value)) return undefined;
+      const heatLoss = normaliseHeatLoss(value);
+      const valid = heatLoss.airChangeRate >= 0 && heatLoss.surfaces.every(s => s.area >= 0 && s.uValue >= 0);
+      return valid ? heatLoss : undefined;
+    }
+  }
+};
+
+// Campi presenti ma non ammessi
+const invalidTemplateFields = (specs: Record<string, unknown>, series: RadiatorSeries[]): (keyof RoomTemplateSpecs)[] =>
+  TEMPLATE_FIELDS.filter(field => specs[field] !== undefined && readTemplateField(field, specs[field], series) === undefined);
+
+// Modelli salvati o importati: campi mancanti o non ammessi presi dalle specifiche iniziali, campi estranei scartati
+export const normaliseRoomTemplates = (raw: unknown, series: RadiatorSeries[]): RoomTemplate[] =>
+  (Array.isArray(raw) ? raw : []).filter(isObject).map((t, i) => {
+    const specs = isObject(t.specs) ? t.specs : {};
+    const picked: Record<string, unknown> = {};
+    TEMPLATE_FIELDS.forEach(field => {
+      const value = readTemplateField(field, specs[field], series) ?? INITIAL_SPECS[field];
+      if (value !== undefined) picked[field] = structuredClone(value);
+    });
+    return {
+      id: typeof t.id === 'string' && t.id ? t.id : newId(),
+      name: typeof t.name === 'string' ? t.name : `Modello ${i + 1}`,
+      specs: picked as RoomTemplateSpecs
+    };
+  });
+
+export const createRoomTemplate = (name: string, specs: RadiatorSpecs): RoomTemplate =>
+  ({ id: newId(), name, specs: pickTemplateSpecs(specs) });
+
+// Sovrascrive solo i campi del modello; nicchia e valvole restano quelle rilevate
+export const applyRoomTemplate = (specs: RadiatorSpecs, template: RoomTemplate): RadiatorSpecs => ({
+  ...specs,
+  ...structuredClone(template.specs),
+  manualElements: undefined,
+  manualLength: undefined,
+  modelCode: undefined
+});
+
+// Applica il modello a più ambienti, compresi i radiatori aggiuntivi
+export const applyTemplateToEnvironments = (project: Project, template: RoomTemplate, envIds: string[]): Project => ({
+  ...project,
+  environments: project.environments.map(env => !envIds.includes(env.id) ? env : resetManualSizing({
+    ...env,
+    specs: applyRoomTemplate(env.specs, template),
+    additionalRadiators: env.additionalRadiators?.map(r => ({ ...r, specs: applyRoomTemplate(r.specs, template) }))
+  }))
+});
+
+export const exportRoomTemplatesJson = (templates: RoomTemplate[]): string =>
+  JSON.stringify({ format: ROOM_TEMPLATES_FORMAT, exportedAt: new Date().toISOString(), roomTemplates: templates }, null, 2);
+
+// Accetta il file dei modelli di locale o un file progetto che li contiene; series sono le gamme a catalogo.
+// Con valori non ammessi non si importa nulla: i modelli verrebbero applicati a più ambienti
+export const parseRoomTemplatesJson = (text: string, series: RadiatorSeries[]): { templates: RoomTemplate[]; error?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { templates: [], error: 'File JSON non leggibile' };
+  }
+  const rows = Array.isArray(data) ? data : (data as { roomTemplates?: unknown })?.roomTemplates;
+  if (!Array.isArray(rows)) return { templates: [], error: 'Nessun modello di locale trovato nel file' };
+  const problems = rows.filter(isObject).flatMap((t, i) => {
+    const invalid = isObject(t.specs) ? invalidTemplateFields(t.specs, series) : [];
+    const name = typeof t.name === 'string' && t.name ? t.name : `Modello ${i + 1}`;
+    return invalid.length > 0 ? [`${name}: ${invalid.map(f => TEMPLATE_FIELD_LABELS[f]).join(', ')}`] : [];
+  });
+  if (problems.length > 0) return { templates: [], error: `Valori non validi nei modelli di locale. ${problems.join('; ')}` };
+  return { templates: normaliseRoomTemplates(rows, series) };
+};
+
+// Aggiunge i modelli importati; quelli con id già presente sostituiscono la versione locale
+export const mergeRoomTemplates = (existing: RoomTemplate[], incoming: RoomTemplate[]): RoomTemplate[] => {
+  const incomingById = new Map(incoming.map(t => [t.id, t]));
+  const ids = new Set(existing.map(t => t.id));
+  return [...existing.map(t => incomingById.get(t.id) ?? t), ...incoming.filter(t => !ids.has(t.id))];
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { ValvePosition, RadiatorSpecs, InteraxisMatch } from '../types';
+import { INITIAL_SPECS, INITIAL_SETTINGS } from '../constants';
+import {
+  sizeRadiator,
+  calculateOccupiedWidth,
+  getElementWidth,
+  VALVE_BODY_OFFSET,
+  MIN_VALVE_CLEARANCE,
+  MIN_OPPOSITE_CLEARANCE,
+  ECCENTRIC_ALLOWANCE
+} from './sizingEngine';
+
+// Locale di 10 m² con valvole laterali a interasse 535 mm (TESI 3 600)
+const specs = (patch: Partial<RadiatorSpecs> = {}): RadiatorSpecs => ({
+  ...INITIAL_SPECS,
+  surface: 10,
+  valveCenterDistance: 535,
+  sideValveDistance: 100,
+  ...patch
+});
+
+const size = (patch: Partial<RadiatorSpecs> = {}) => sizeRadiator(specs(patch), INITIAL_SETTINGS, []);
+
+describe('calculateOccupiedWidth', () => {
+  it('con valvole in basso somma due corpi valvola e lo spazio oltre la valvola', () => {
+    expect(calculateOccupiedWidth(900, ValvePosition.BOTTOM, false)).toBe(VALVE_BODY_OFFSET + 900 + VALVE_BODY_OFFSET + MIN_VALVE_CLEARANCE);
+  });
+
+  it.each([ValvePosition.LEFT, ValvePosition.RIGHT])('con valvole %s somma un corpo valvola e lo spazio sul lato opposto', position => {
+    expect(calculateOccupiedWidth(900, position, false)).toBe(VALVE_BODY_OFFSET + 900 + MIN_OPPOSITE_CLEARANCE);
+  });
+
+  it('aggiunge l\'ingombro degli eccentrici', () => {
+    expect(calculateOccupiedWidth(900, ValvePosition.LEFT, true)).toBe(VALVE_BODY_OFFSET + 900 + MIN_OPPOSITE_CLEARANCE + ECCENTRIC_ALLOWANCE);
+  });
+});
+
+describe('sizeRadiator', () => {
+  // 10 elementi da 45 mm: corpo 450 mm; valvola 52 mm, 50 mm oltre la valvola, 62 mm sul lato opposto
+  it.each([
+    [ValvePosition.BOTTOM, 52 + 450 + 52 + 50],
+    [ValvePosition.LEFT, 52 + 450 + 62],
+    [ValvePosition.RIGHT, 52 + 450 + 62]
+  ])('applica la regola di larghezza per valvole %s', (position, width) => {
+    const result = size({ valvePosition: position, manualElements: 10 });
+    expect(getElementWidth(result.model)).toBe(45);
+    expect(result.bodyLength).toBe(450);
+    expect(result.needsEccentric).toBe(false);
+    expect(result.totalOccupiedWidth).toBe(width);
+  });
+
+  it('con valvole in basso l\'interasse non richiede eccentrici', () => {
+    const result = size({ valvePosition: ValvePosition.BOTTOM, valveCenterDistance: 545 });
+    expect(result.matchStatus).toBe(InteraxisMatch.NOT_RELEVANT);
+    expect(result.needsEccentric).toBe(false);
+    expect(result.eccentricText).toBeNull();
+  });
+
+  it('con valvole laterali a interasse esatto non richiede eccentrici', () => {
+    const result = size({ valvePosition: ValvePosition.LEFT });
+    expect(result.model.interaxis).toBe(535);
+    expect(result.needsEccentric).toBe(false);
+  });
+
+  it('con valvole laterali segnala gli eccentrici per scarti entro la compensazione', () => {
+    const result = size({ valvePosition: ValvePosition.RIGHT, valveCenterDistance: 545 });
+    expect(result.needsEccentric).toBe(true);
+    expect(result.interaxisDiff).toBe(10);
+    expect(result.eccentricText).toBe('Inserire eccentrici per 10 mm');
+    expect(result.totalOccupiedWidth).toBe(52 + result.bodyLength + 62 + 50);
+  });
+
+  it('oltre la compensazione massima il modello non è compatibile', () => {
+    const result = size({ valvePosition: ValvePosition.LEFT, valveCenterDistance: 385 });
+    expect(result.needsEccentric).toBe(false);
+    expect(result.matchStatus).toBe(InteraxisMatch.NO_COMPATIBLE);
+    expect(result.matchWarning).not.toBeNull();
+  });
+
+  it('senza larghezza massima e con spazio sufficiente non ci sono problemi di ingombro', () => {
+    expect(size().hasClearanceIssue).toBe(false);
+  });
+
+  it('segnala l\'ingombro oltre la larghezza massima disponibile', () => {
+    const fits = size();
+    expect(size({ maxWidth: fits.totalOccupiedWidth }).hasClearanceIssue).toBe(false);
+    expect(size({ maxWidth: fits.totalOccupiedWidth - 1 }).hasClearanceIssue).toBe(true);
+  });
+
+  it('segnala lo spazio insufficiente oltre la valvola', () => {
+    expect(size({ sideValveDistance: MIN_VALVE_CLEARANCE - 1 }).hasClearanceIssue).toBe(true);
+    expect(size({ sideValveDistance: MIN_VALVE_CLEARANCE }).hasClearanceIssue).toBe(false);
+  });
+
+  it.each([
+    ['mandata sotto l\'ambiente', { flowTemp: 18, returnTemp: 15, roomTemp: 20 }],
+    ['ritorno sotto l\'ambiente', { flowTemp: 45, returnTemp: 18, roomTemp: 20 }]
+  ])('con %s non calcola elementi e segnala l\'errore', (_, temps) => {
+    const result = size({ systemTemperatures: temps });
+    expect(result.outputFactor).toBe(0);
+    expect(result.baseElements).toBe(0);
+    expect(result.currentElements).toBe(0);
+    expect(result.bodyLength).toBe(0);
+    expect(result.outputError).not.toBeNull();
+  });
+});
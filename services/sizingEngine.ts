@@ -0,0 +1,180 @@
+import { ValvePosition, RadiatorSpecs, RadiatorModel, GlobalSettings, CalculationResult, SizingResult, HeatLossMethod, SystemTemperatures, InteraxisMatch } from '../types';
+import { INITIAL_HEAT_LOSS, INITIAL_SYSTEM_TEMPERATURES, INITIAL_SETTINGS } from '../constants';
+import { calculateHeatLoss } from './heatLoss';
+import { getSeriesModels } from './catalogue';
+import { matchInteraxis } from './interaxisMatching';
+import { calculateDeltaT, calculateOutputFactor } from './thermalOutput';
+import { calculateHydraulics } from './hydraulics';
+
+// Passo elemento tubolare di default se il modello non lo specifica (mm)
+export const ELEMENT_PITCH = 45;
+// Sbalzo corpo valvola rispetto al radiatore (mm)
+export const VALVE_BODY_OFFSET = 52;
+// Spazio minimo oltre la valvola (mm)
+export const MIN_VALVE_CLEARANCE = 50;
+// Spazio minimo lato opposto per valvole laterali (mm)
+export const MIN_OPPOSITE_CLEARANCE = 62;
+// Ingombro aggiuntivo degli eccentrici (mm)
+export const ECCENTRIC_ALLOWANCE = 50;
+
+const EMPTY_MODEL: RadiatorModel = { label: 'N/A', code: 'N/A', height: 0, interaxis: 0, watts: 0 };
+
+export const calculateWatts = (specs: RadiatorSpecs, settings: GlobalSettings): CalculationResult => {
+  const volume = (specs.surface || 0) * (specs.height || 0);
+  if (specs.heatLossMethod === HeatLossMethod.DETAILED) {
+    const loss = calculateHeatLoss(specs.heatLoss ?? INITIAL_HEAT_LOSS, volume);
+    return {
+      volume,
+      watts: loss.totalWatts,
+      method: HeatLossMethod.DETAILED,
+      transmissionWatts: loss.transmissionWatts,
+      ventilationWatts: loss.ventilationWatts
+    };
+  }
+  const watts = (volume * settings.wattCoefficient) / 0.86;
+  return { volume, watts, method: HeatLossMethod.QUICK };
+};
+
+export const isPanelModel = (model: RadiatorModel): boolean => (model.fixedLengths?.length ?? 0) > 0;
+
+export const getElementWidth = (model: RadiatorModel): number => model.elementWidth || ELEMENT_PITCH;
+
+// Lunghezza standard più corta che copre il fabbisogno (altrimenti la massima disponibile)
+export const selectPanelLength = (lengths: number[], wattsPerMeter: number, requiredWatts: number): number => {
+  const sorted = [...lengths].sort((a, b) => a - b);
+  return sorted.find(l => (l / 1000) * wattsPerMeter >= requiredWatts) ?? sorted[sorted.length - 1];
+};
+
+export const calculateOccupiedWidth = (bodyLength: number, valvePosition: ValvePosition, needsEccentric: boolean): number => {
+  let width = valvePosition === ValvePosition.BOTTOM
+    ? VALVE_BODY_OFFSET + bodyLength + VALVE_BODY_OFFSET + MIN_VALVE_CLEARANCE
+    : VALVE_BODY_OFFSET + bodyLength + MIN_OPPOSITE_CLEARANCE;
+  if (needsEccentric) width += ECCENTRIC_ALLOWANCE;
+  return width;
+};
+
+export const resolveTemperatures = (specs: RadiatorSpecs, projectTemps?: SystemTemperatures): SystemTemperatures =>
+  specs.systemTemperatures ?? projectTemps ?? INITIAL_SYSTEM_TEMPERATURES;
+
+export const sizeRadiator = (
+  specs: RadiatorSpecs,
+  settings: GlobalSettings,
+  customModels: RadiatorModel[],
+  projectTemps?: SystemTemperatures,
+  assignedWatts?: number // Quota di fabbisogno se il locale ha più radiatori
+): SizingResult => {
+  const series = specs.series;
+  const temps = resolveTemperatures(specs, projectTemps);
+  const deltaT = calculateDeltaT(temps);
+  const calculation = calculateWatts(specs, settings);
+  const requiredWatts = assignedWatts ?? calculation.watts;
+  const heatLossMethod = calculation.method;
+  const maxCompensation = settings.maxEccentricCompensation ?? INITIAL_SETTINGS.maxEccentricCompensation;
+  const match = matchInteraxis(getSeriesModels(series, customModels), specs, maxCompensation);
+  const closest = match.model;
+  const outputError = deltaT > 0 ? null : 'Resa nulla: mandata e ritorno devono superare la temperatura ambiente';
+  const hydraulicsFor = (watts: number) =>
+    calculateHydraulics(watts, temps, specs.pipeMaterial, specs.pipeDiameter, specs.pipeLength);
+
+  if (!closest) {
+    return {
+      model: EMPTY_MODEL,
+      series,
+      requiredWatts: Math.round(requiredWatts),
+      heatLossMethod,
+      baseElements: 0,
+      currentElements: 0,
+      isPanel: false,
+      elementWidth: ELEMENT_PITCH,
+      bodyLength: 0,
+      totalOccupiedWidth: 0,
+      totalWatts: 0,
+      nominalTotalWatts: 0,
+      elementWatts: 0,
+      deltaT,
+      outputFactor: 0,
+      interaxisDiff: 0,
+      matchStatus: match.status,
+      candidates: [],
+      matchWarning: 'Nessun modello a catalogo per la gamma selezionata',
+      temperatures: temps,
+      outputError,
+      needsEccentric: false,
+      eccentricText: null,
+      hasClearanceIssue: false,
+      hydraulics: hydraulicsFor(requiredWatts)
+    };
+  }
+
+  const interaxisDiff = Math.abs(match.difference);
+  const needsEccentric = match.status === InteraxisMatch.ECCENTRIC;
+
+  const outputFactor = calculateOutputFactor(temps, closest.exponent);
+  const elementWatts = closest.watts * outputFactor;
+  const isPanel = isPanelModel(closest);
+
+  let baseElements: number;
+  let currentElements: number;
+  let bodyLength: number;
+  let elementWidth: number;
+  let totalNominal: number;
+
+  if (outputFactor <= 0) {
+    // Senza salto termico utile non si dimensiona: nessun elemento invece di una lunghezza assurda
+    baseElements = 0;
+    currentElements = 0;
+    elementWidth = isPanel ? 0 : getElementWidth(closest);
+    bodyLength = 0;
+    totalNominal = 0;
+  } else if (isPanel) {
+    const lengths = closest.fixedLengths!;
+    const autoLength = selectPanelLength(lengths, elementWatts, requiredWatts);
+    bodyLength = specs.manualLength && lengths.includes(specs.manualLength) ? specs.manualLength : autoLength;
+    baseElements = 1;
+    currentElements = 1;
+    elementWidth = bodyLength;
+    totalNominal = (bodyLength / 1000) * closest.watts;
+  } else {
+    elementWidth = getElementWidth(closest);
+    baseElements = Math.ceil(requiredWatts / elementWatts);
+    currentElements = specs.manualElements ?? baseElements;
+    bodyLength = currentElements * elementWidth;
+    totalNominal = currentElements * closest.watts;
+  }
+  const totalOccupiedWidth = calculateOccupiedWidth(bodyLength, specs.valvePosition, needsEccentric);
+
+  const hasClearanceIssue =
+    (specs.maxWidth > 0 && totalOccupiedWidth > specs.maxWidth) ||
+    specs.sideValveDistance < MIN_VALVE_CLEARANCE;
+  const totalWatts = Math.round(totalNominal * outputFactor);
+
+  return {
+    model: closest,
+    series,
+    requiredWatts: Math.round(requiredWatts),
+    heatLossMethod,
+    baseElements,
+    currentElements,
+    isPanel,
+    elementWidth,
+    bodyLength,
+    totalOccupiedWidth,
+    totalWatts,
+    nominalTotalWatts: Math.round(totalNominal),
+    elementWatts,
+    deltaT,
+    outputFactor,
+    interaxisDiff,
+    matchStatus: match.status,
+    candidates: match.candidates,
+    matchWarning: match.status === InteraxisMatch.NO_COMPATIBLE
+      ? `Nessun modello compatibile: scarto ${interaxisDiff} mm oltre i ${maxCompensation} mm compensabili`
+      : null,
+    temperatures: temps,
+    outputError,
+    needsEccentric,
+    eccentricText: needsEccentric ? `Inserire eccentrici per ${interaxisDiff} mm` : null,
+    hasClearanceIssue,
+    hydraulics: hydraulicsFor(totalWatts)
+  };
+};
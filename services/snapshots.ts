@@ -0,0 +1,125 @@
+import { Project, ProjectSnapshot, SnapshotKind, SnapshotChange, Environment, RadiatorSizing } from '../types';
+import { normaliseProject, isObject, enumValue } from './migrations';
+import { radiatorLabel } from './radiators';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Intervallo dei salvataggi automatici (ms) e istantanee conservate per progetto:
+// ognuna è una copia completa del progetto nello spazio limitato del browser
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+export const MAX_AUTO_SNAPSHOTS = 10;
+export const MAX_MANUAL_SNAPSHOTS = 20;
+
+export const createSnapshot = (project: Project, kind: SnapshotKind, name?: string): ProjectSnapshot => ({
+  id: newId(),
+  projectId: project.id,
+  name: name?.trim() || (kind === SnapshotKind.AUTO ? 'Salvataggio automatico' : 'Istantanea'),
+  kind,
+  createdAt: new Date().toISOString(),
+  project: structuredClone(project)
+});
+
+// Istantanee del progetto, dalla più recente
+export const projectSnapshots = (snapshots: ProjectSnapshot[], projectId: string): ProjectSnapshot[] =>
+  snapshots.filter(s => s.projectId === projectId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const SNAPSHOT_LIMITS: Record<SnapshotKind, number> = {
+  [SnapshotKind.AUTO]: MAX_AUTO_SNAPSHOTS,
+  [SnapshotKind.MANUAL]: MAX_MANUAL_SNAPSHOTS
+};
+
+// Oltre il limite si scartano le istantanee più vecchie dello stesso tipo
+export const addSnapshot = (snapshots: ProjectSnapshot[], snapshot: ProjectSnapshot): ProjectSnapshot[] => {
+  const excess = new Set(projectSnapshots(snapshots, snapshot.projectId)
+    .filter(s => s.kind === snapshot.kind)
+    .slice(SNAPSHOT_LIMITS[snapshot.kind] - 1)
+    .map(s => s.id));
+  return [...snapshots.filter(s => !excess.has(s.id)), snapshot];
+};
+
+// Istante del prossimo salvataggio automatico; null se il progetto non è cambiato dall'ultima istantanea
+// (senza istantanee conta solo una modifica successiva all'apertura dell'applicazione)
+export const nextAutoSnapshotTime = (snapshots: ProjectSnapshot[], project: Project, sessionStart: number): number | null => {
+  const [latest] = projectSnapshots(snapshots, project.id);
+  if (latest) {
+    return latest.project.updatedAt === project.updatedAt ? null : Date.parse(latest.createdAt) + SNAPSHOT_INTERVAL;
+  }
+  return Date.parse(project.updatedAt) > sessionStart ? sessionStart + SNAPSHOT_INTERVAL : null;
+};
+
+// Il progetto torna allo stato dell'istantanea mantenendo il proprio id
+export const restoreSnapshot = (project: Project, snapshot: ProjectSnapshot): Project =>
+  ({ ...structuredClone(snapshot.project), id: project.id });
+
+// Istantanee salvate: scartate quelle di progetti non più presenti o illeggibili
+export const normaliseSnapshots = (raw: unknown, projects: Project[]): ProjectSnapshot[] => {
+  const ids = new Set(projects.map(p => p.id));
+  return (Array.isArray(raw) ? raw : []).filter(isObject).flatMap(s => {
+    const { projectId, project } = s;
+    if (typeof projectId !== 'string' || !ids.has(projectId) || !isObject(project)) return [];
+    return [{
+      id: typeof s.id === 'string' && s.id ? s.id : newId(),
+      projectId,
+      name: typeof s.name === 'string' ? s.name : 'Istantanea',
+      kind: enumValue(SnapshotKind, s.kind) ?? SnapshotKind.MANUAL,
+      createdAt: typeof s.createdAt === 'string' ? s.createdAt : new Date(0).toISOString(),
+      project: normaliseProject({ ...project, id: projectId })
+    }];
+  });
+};
+
+export interface RadiatorFigures {
+  series: string;
+  model: string;
+  elements: number;
+  requiredWatts: number;
+  totalWatts: number;
+}
+
+export interface SnapshotDiffRow {
+  id: string; // Id del radiatore
+  label: string;
+  change: SnapshotChange;
+  before?: RadiatorFigures;
+  after?: RadiatorFigures;
+}
+
+const radiatorFigures = ({ radiator, sizing }: RadiatorSizing): RadiatorFigures => ({
+  series: radiator.specs.series,
+  model: sizing.model.label,
+  elements: sizing.currentElements,
+  requiredWatts: sizing.requiredWatts,
+  totalWatts: sizing.totalWatts
+});
+
+const sameFigures = (a: RadiatorFigures, b: RadiatorFigures) =>
+  a.series === b.series && a.model === b.model && a.elements === b.elements && a.requiredWatts === b.requiredWatts && a.totalWatts === b.totalWatts;
+
+const figuresById = (project: Project, getRadiators: (env: Environment) => RadiatorSizing[]) => {
+  const result = new Map<string, { label: string; figures: RadiatorFigures }>();
+  project.environments.forEach(env => {
+    const sizings = getRadiators(env);
+    sizings.forEach(s => result.set(s.radiator.id, { label: radiatorLabel(env, s.radiator, sizings.length), figures: radiatorFigures(s) }));
+  });
+  return result;
+};
+
+// Confronto radiatore per radiatore: prima i radiatori attuali nell'ordine del progetto, poi quelli eliminati
+export const compareSnapshot = (
+  snapshotProject: Project,
+  currentProject: Project,
+  getSnapshotRadiators: (env: Environment) => RadiatorSizing[],
+  getCurrentRadiators: (env: Environment) => RadiatorSizing[]
+): SnapshotDiffRow[] => {
+  const before = figuresById(snapshotProject, getSnapshotRadiators);
+  const after = figuresById(currentProject, getCurrentRadiators);
+  const rows: SnapshotDiffRow[] = [...after].map(([id, current]) => {
+    const previous = before.get(id);
+    const change = !previous ? SnapshotChange.ADDED : sameFigures(previous.figures, current.figures) ? SnapshotChange.UNCHANGED : SnapshotChange.CHANGED;
+    return { id, label: current.label, change, before: previous?.figures, after: current.figures };
+  });
+  before.forEach((previous, id) => {
+    if (!after.has(id)) rows.push({ id, label: previous.label, change: SnapshotChange.REMOVED, before: previous.figures });
+  });
+  return rows;
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { STORAGE_KEYS, loadPersistedState, backupPersistedState } from './storage';
+
+// localStorage in memoria: i test girano in Node
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (i: number) => [...items.keys()][i] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+const contents = () => Object.fromEntries(Array.from({ length: localStorage.length }, (_, i) => {
+  const key = localStorage.key(i)!;
+  return [key, localStorage.getItem(key)];
+}));
+
+const storedProjects = JSON.stringify([{ id: 'p1', clientSurname: 'Rossi', environments: [] }]);
+
+describe('loadPersistedState', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('con uno schema più recente segnala l\'errore e lascia invariati i dati salvati', () => {
+    localStorage.setItem(STORAGE_KEYS.projects, storedProjects);
+    localStorage.setItem(STORAGE_KEYS.schemaVersion, JSON.stringify(CURRENT_SCHEMA_VERSION + 1));
+    const before = contents();
+    const state = loadPersistedState();
+    expect(state.loadError).toMatch(/più recente/);
+    expect(contents()).toEqual(before);
+  });
+
+  it('segnala un elenco di progetti non leggibile', () => {
+    localStorage.setItem(STORAGE_KEYS.projects, '[{"id":');
+    expect(loadPersistedState().loadError).not.toBeNull();
+  });
+
+  it('carica i dati della versione corrente senza errori', () => {
+    localStorage.setItem(STORAGE_KEYS.projects, storedProjects);
+    localStorage.setItem(STORAGE_KEYS.schemaVersion, JSON.stringify(CURRENT_SCHEMA_VERSION));
+    const state = loadPersistedState();
+    expect(state.loadError).toBeNull();
+    expect(state.projects.map(p => p.id)).toEqual(['p1']);
+  });
+
+  it('la copia conserva i dati salvati nelle chiavi _backup', () => {
+    localStorage.setItem(STORAGE_KEYS.projects, storedProjects);
+    expect(backupPersistedState()).toBeNull();
+    expect(localStorage.getItem(`${STORAGE_KEYS.projects}_backup`)).toBe(storedProjects);
+  });
+});
@@ -0,0 +1,140 @@
+import { PersistedState } from '../types';
+import { createInitialProject, INITIAL_ROOM_TEMPLATES } from '../constants';
+import { CURRENT_SCHEMA_VERSION, RawData, migrateData, normaliseProjects, normaliseModels, normaliseSettings, normaliseLetterheads } from './migrations';
+import { normaliseRoomTemplates } from './roomTemplates';
+import { normaliseSnapshots } from './snapshots';
+import { getSeriesOptions } from './catalogue';
+
+export const STORAGE_KEYS = {
+  projects: 'archquote_projects_v3',
+  activeProjectId: 'archquote_active_project_id_v3',
+  customModels: 'archquote_custom_models_v3',
+  settings: 'archquote_settings_v3',
+  letterheads: 'archquote_letterheads_v3',
+  roomTemplates: 'archquote_room_templates_v3',
+  snapshots: 'archquote_snapshots_v3',
+  schemaVersion: 'archquote_schema_version'
+};
+
+// Chiavi delle versioni precedenti, lette solo se mancano quelle correnti
+const LEGACY_KEYS: Record<number, { projects: string; customModels: string; settings: string; activeProjectId: string }> = {
+  2: { projects: 'archquote_projects_v2', customModels: 'archquote_custom_models_v2', settings: 'archquote_settings_v2', activeProjectId: 'archquote_active_project_id_v2' },
+  1: { projects: 'archquote_projects_v1', customModels: 'archquote_custom_models_v1', settings: 'archquote_settings_v1', activeProjectId: 'archquote_active_project_id_v1' }
+};
+
+// Stato caricato; con loadError i dati salvati non sono stati letti e non vanno sovrascritti
+export interface LoadedState extends PersistedState {
+  loadError: string | null;
+}
+
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    console.warn(`Dati non leggibili in ${key}: ignorati`);
+    return undefined;
+  }
+};
+
+const readRaw = (): { data: RawData; version: number } | null => {
+  if (localStorage.getItem(STORAGE_KEYS.projects) !== null) {
+    const version = Number(readJson(STORAGE_KEYS.schemaVersion) ?? 3);
+    return {
+      version,
+      data: {
+        projects: readJson(STORAGE_KEYS.projects),
+        activeProjectId: readJson(STORAGE_KEYS.activeProjectId),
+        customModels: readJson(STORAGE_KEYS.customModels),
+        settings: readJson(STORAGE_KEYS.settings),
+        letterheads: readJson(STORAGE_KEYS.letterheads),
+        roomTemplates: readJson(STORAGE_KEYS.roomTemplates),
+        snapshots: readJson(STORAGE_KEYS.snapshots)
+      }
+    };
+  }
+  for (const version of [2, 1]) {
+    const keys = LEGACY_KEYS[version];
+    if (localStorage.getItem(keys.projects) !== null) {
+      return {
+        version,
+        data: {
+          projects: readJson(keys.projects),
+          activeProjectId: readJson(keys.activeProjectId),
+          customModels: readJson(keys.customModels),
+          settings: readJson(keys.settings)
+        }
+      };
+    }
+  }
+  return null;
+};
+
+export const loadPersistedState = (): LoadedState => {
+  let data: RawData = {};
+  let loadError: string | null = null;
+  const raw = readRaw();
+  if (raw) {
+    try {
+      if (raw.data.projects === undefined) throw new Error('Elenco dei progetti salvati non leggibile');
+      data = migrateData(raw.data, raw.version);
+    } catch (err) {
+      console.warn('Migrazione dati locali non riuscita', err);
+      loadError = (err as Error).message;
+    }
+  }
+  const projects = normaliseProjects(data.projects);
+  if (projects.length === 0) projects.push(createInitialProject());
+  const activeProjectId = typeof data.activeProjectId === 'string' && projects.some(p => p.id === data.activeProjectId)
+    ? data.activeProjectId
+    : projects[0].id;
+  const customModels = normaliseModels(data.customModels);
+  return {
+    projects,
+    activeProjectId,
+    customModels,
+    settings: normaliseSettings(data.settings),
+    letterheads: normaliseLetterheads(data.letterheads),
+    // Prima dell'introduzione della libreria si parte dai modelli predefiniti
+    roomTemplates: data.roomTemplates === undefined ? structuredClone(INITIAL_ROOM_TEMPLATES) : normaliseRoomTemplates(data.roomTemplates, getSeriesOptions(customModels).map(o => o.id)),
+    snapshots: normaliseSnapshots(data.snapshots, projects),
+    loadError
+  };
+};
+
+// Copia invariata dei dati salvati (correnti e delle versioni precedenti) nelle chiavi *_backup,
+// prima di sovrascrivere dati che non è stato possibile caricare
+export const backupPersistedState = (): string | null => {
+  const keys = [...Object.values(STORAGE_KEYS), ...Object.values(LEGACY_KEYS).flatMap(k => Object.values(k))];
+  try {
+    keys.forEach(key => {
+      const saved = localStorage.getItem(key);
+      if (saved !== null) localStorage.setItem(`${key}_backup`, saved);
+    });
+    return null;
+  } catch (err) {
+    console.warn('Copia dei dati locali non riuscita', err);
+    return 'Impossibile conservare una copia dei dati salvati: esportare i progetti da un\'altra versione dell\'applicazione';
+  }
+};
+
+// Restituisce il messaggio d'errore se il browser rifiuta la scrittura (tipicamente spazio esaurito)
+export const savePersistedState = (state: PersistedState): string | null => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.projects, JSON.stringify(state.projects));
+    localStorage.setItem(STORAGE_KEYS.activeProjectId, JSON.stringify(state.activeProjectId));
+    localStorage.setItem(STORAGE_KEYS.customModels, JSON.stringify(state.customModels));
+    localStorage.setItem(STORAGE_KEYS.settings, JSON.stringify(state.settings));
+    localStorage.setItem(STORAGE_KEYS.letterheads, JSON.stringify(state.letterheads));
+    localStorage.setItem(STORAGE_KEYS.roomTemplates, JSON.stringify(state.roomTemplates));
+    localStorage.setItem(STORAGE_KEYS.snapshots, JSON.stringify(state.snapshots));
+    localStorage.setItem(STORAGE_KEYS.schemaVersion, JSON.stringify(CURRENT_SCHEMA_VERSION));
+    return null;
+  } catch (err) {
+    console.warn('Salvataggio dati locali non riuscito', err);
+    return err instanceof DOMException && err.name === 'QuotaExceededError'
+      ? 'Spazio del browser esaurito: eliminare istantanee, loghi o progetti non necessari ed esportare una copia dei progetti'
+      : 'Il browser non consente di salvare i dati: esportare una copia dei progetti';
+  }
+};
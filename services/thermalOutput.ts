@@ -0,0 +1,25 @@
+import { SystemTemperatures } from '../types';
+import { DEFAULT_EXPONENT } from '../radiatorData';
+
+// ΔT nominale dei dati di catalogo (EN 442)
+export const NOMINAL_DELTA_T = 50;
+
+// Sopra questo rapporto ritorno/mandata la media aritmetica è ammessa (EN 442)
+const ARITHMETIC_MEAN_RATIO = 0.7;
+
+// Differenza di temperatura radiatore/ambiente (K): aritmetica o logaritmica
+export const calculateDeltaT = ({ flowTemp, returnTemp, roomTemp }: SystemTemperatures): number => {
+  const dtFlow = flowTemp - roomTemp;
+  const dtReturn = returnTemp - roomTemp;
+  if (dtFlow <= 0 || dtReturn <= 0) return 0;
+  const ratio = Math.min(dtFlow, dtReturn) / Math.max(dtFlow, dtReturn);
+  if (ratio >= ARITHMETIC_MEAN_RATIO) return (dtFlow + dtReturn) / 2;
+  return (dtFlow - dtReturn) / Math.log(dtFlow / dtReturn);
+};
+
+// Fattore di correzione della resa nominale: (ΔT / 50)^n
+export const calculateOutputFactor = (temps: SystemTemperatures, exponent: number = DEFAULT_EXPONENT): number => {
+  const deltaT = calculateDeltaT(temps);
+  if (deltaT <= 0) return 0;
+  return Math.pow(deltaT / NOMINAL_DELTA_T, exponent);
+};
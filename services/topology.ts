@@ -0,0 +1,115 @@
+import { Project, Environment, RadiatorPosition, RadiatorSpecs, Manifold, CircuitType, CircuitConnection, SystemTemperatures } from '../types';
+import { listRadiators } from './radiators';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Quota della portata dell'anello deviata nel radiatore dalla valvola monotubo
+export const MONOTUBE_FLOW_SHARE = 0.4;
+
+// Ritorno minimo del radiatore sopra la temperatura ambiente (K): oltre l'anello non cede più calore
+const MIN_RETURN_APPROACH = 2;
+
+export const DEFAULT_OUTLETS: Record<CircuitType, number> = {
+  [CircuitType.TWO_PIPE]: 6,
+  [CircuitType.MONOTUBE]: 2
+};
+
+export interface ConnectedRadiator {
+  env: Environment;
+  radiator: RadiatorPosition;
+  index: number; // Posizione del radiatore nell'ambiente (0 = specifiche dell'ambiente)
+}
+
+export const findManifold = (project: Project, manifoldId?: string): Manifold | undefined =>
+  manifoldId ? project.manifolds?.find(m => m.id === manifoldId) : undefined;
+
+// Applica la trasformazione alle specifiche di tutti i radiatori del progetto
+const mapAllSpecs = (project: Project, fn: (specs: RadiatorSpecs) => RadiatorSpecs): Environment[] =>
+  project.environments.map(env => ({
+    ...env,
+    specs: fn(env.specs),
+    additionalRadiators: env.additionalRadiators?.map(r => ({ ...r, specs: fn(r.specs) }))
+  }));
+
+const disconnect = (specs: RadiatorSpecs, keep: (c: CircuitConnection) => boolean): RadiatorSpecs =>
+  specs.connection && !keep(specs.connection) ? { ...specs, connection: undefined } : specs;
+
+export const addManifold = (project: Project, circuitType: CircuitType): Project => {
+  const manifolds = project.manifolds ?? [];
+  return {
+    ...project,
+    manifolds: [...manifolds, { id: newId(), name: `Collettore ${manifolds.length + 1}`, circuitType, outlets: DEFAULT_OUTLETS[circuitType] }]
+  };
+};
+
+// Riducendo le uscite si scollegano i radiatori sulle uscite eliminate
+export const updateManifold = (project: Project, manifoldId: string, patch: Partial<Omit<Manifold, 'id'>>): Project => {
+  const manifolds = (project.manifolds ?? []).map(m => m.id === manifoldId ? { ...m, ...patch } : m);
+  const outlets = manifolds.find(m => m.id === manifoldId)?.outlets ?? 0;
+  return {
+    ...project,
+    manifolds,
+    environments: mapAllSpecs(project, specs => disconnect(specs, c => c.manifoldId !== manifoldId || c.outlet <= outlets))
+  };
+};
+
+export const removeManifold = (project: Project, manifoldId: string): Project => ({
+  ...project,
+  manifolds: (project.manifolds ?? []).filter(m => m.id !== manifoldId),
+  environments: mapAllSpecs(project, specs => disconnect(specs, c => c.manifoldId !== manifoldId))
+});
+
+// Ambienti copiati o radiatori aggiunti non occupano le uscite dell'originale
+export const clearConnections = (env: Environment): Environment => ({
+  ...env,
+  specs: { ...env.specs, connection: undefined },
+  additionalRadiators: env.additionalRadiators?.map(r => ({ ...r, specs: { ...r.specs, connection: undefined } }))
+});
+
+// Radiatori collegati all'uscita, nell'ordine degli ambienti (per il monotubo è l'ordine sull'anello)
+export const outletRadiators = (project: Project, manifoldId: string, outlet: number): ConnectedRadiator[] =>
+  project.environments.flatMap(env => listRadiators(env)
+    .map((radiator, index) => ({ env, radiator, index }))
+    .filter(({ radiator }) => radiator.specs.connection?.manifoldId === manifoldId && radiator.specs.connection.outlet === outlet));
+
+export const connectionLabel = (project: Project, specs: RadiatorSpecs): string => {
+  const manifold = findManifold(project, specs.connection?.manifoldId);
+  if (!manifold || !specs.connection) return '';
+  return manifold.circuitType === CircuitType.MONOTUBE
+    ? `${manifold.name} · Anello ${specs.connection.outlet}`
+    : `${manifold.name} · Uscita ${specs.connection.outlet}`;
+};
+
+// La lunghezza del circuito segue mandata + ritorno dell'allacciamento
+export const withConnection = (specs: RadiatorSpecs, connection?: CircuitConnection): RadiatorSpecs => ({
+  ...specs,
+  connection,
+  pipeLength: connection ? connection.supplyLength + connection.returnLength : specs.pipeLength
+});
+
+// Anelli monotubo: l'acqua si raffredda radiatore dopo radiatore in proporzione al fabbisogno ceduto,
+// ogni radiatore riceve la quota MONOTUBE_FLOW_SHARE della portata e lavora a temperature più basse del precedente
+export const calculateRingTemperatures = (
+  project: Project,
+  getRequiredWatts: (env: Environment) => number[],
+  temps: SystemTemperatures
+): Map<string, SystemTemperatures> => {
+  const result = new Map<string, SystemTemperatures>();
+  const ringDeltaT = temps.flowTemp - temps.returnTemp;
+  (project.manifolds ?? []).filter(m => m.circuitType === CircuitType.MONOTUBE).forEach(manifold => {
+    for (let outlet = 1; outlet <= manifold.outlets; outlet++) {
+      const ring = outletRadiators(project, manifold.id, outlet).map(r => ({ ...r, watts: getRequiredWatts(r.env)[r.index] ?? 0 }));
+      const ringWatts = ring.reduce((sum, r) => sum + r.watts, 0);
+      if (ringWatts <= 0 || ringDeltaT <= 0) continue;
+      let inletTemp = temps.flowTemp;
+      ring.forEach(({ radiator, watts }) => {
+        const roomTemp = radiator.specs.systemTemperatures?.roomTemp ?? temps.roomTemp;
+        const ringDrop = ringDeltaT * watts / ringWatts;
+        const returnTemp = Math.max(inletTemp - ringDrop / MONOTUBE_FLOW_SHARE, roomTemp + MIN_RETURN_APPROACH);
+        result.set(radiator.id, { flowTemp: inletTemp, returnTemp, roomTemp });
+        inletTemp -= ringDrop;
+      });
+    }
+  });
+  return result;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Environment, RadiatorSpecs, ValidationSeverity } from '../types';
+import { createInitialProject, INITIAL_SETTINGS } from '../constants';
+import { sizeRadiator, MIN_VALVE_CLEARANCE } from './sizingEngine';
+import { validateEnvironment } from './validation';
+
+const defaultRoom = (): Environment => createInitialProject().environments[0];
+
+const validate = (patch: Partial<RadiatorSpecs> = {}) => {
+  const env = defaultRoom();
+  env.specs = { ...env.specs, ...patch };
+  const sizing = sizeRadiator(env.specs, INITIAL_SETTINGS, []);
+  return validateEnvironment(env, [{ radiator: { id: env.id, name: env.name, specs: env.specs }, sizing }], sizing.requiredWatts);
+};
+
+const errorCodes = (patch: Partial<RadiatorSpecs> = {}) =>
+  validate(patch).filter(i => i.severity === ValidationSeverity.ERROR).map(i => i.code);
+
+describe('validateEnvironment', () => {
+  it('un ambiente appena creato non ha errori', () => {
+    expect(errorCodes()).toEqual([]);
+  });
+
+  it('con la sola superficie inserita non segnala valvole o pavimento', () => {
+    expect(errorCodes({ surface: 20 })).toEqual([]);
+  });
+
+  it('controlla lo spazio oltre la valvola solo con distanza e nicchia inserite', () => {
+    expect(errorCodes({ sideValveDistance: MIN_VALVE_CLEARANCE - 1 })).not.toContain('VALVE_SIDE_CLEARANCE');
+    expect(errorCodes({ sideValveDistance: MIN_VALVE_CLEARANCE - 1, nicheWidth: 1200 })).toContain('VALVE_SIDE_CLEARANCE');
+  });
+
+  it('controlla il pavimento solo con l\'altezza valvola inserita', () => {
+    expect(errorCodes({ surface: 20, valveHeight: 1 })).toContain('RADIATOR_BELOW_FLOOR');
+  });
+});
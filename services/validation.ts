@@ -0,0 +1,210 @@
+import { Environment, RadiatorSpecs, SizingResult, SystemTemperatures, RadiatorSizing, ValidationIssue, ValidationSeverity, ValvePosition, HeatLossMethod, InteraxisMatch, LoadSplitMode } from '../types';
+import { VALVE_BODY_OFFSET, MIN_VALVE_CLEARANCE, MIN_OPPOSITE_CLEARANCE } from './sizingEngine';
+import { RADIATOR_BELOW_VALVE } from './interaxisMatching';
+import { MAX_PIPE_VELOCITY, MAX_PRESSURE_GRADIENT } from './hydraulics';
+
+// Distanza minima consigliata tra pavimento e radiatore (mm)
+export const MIN_FLOOR_CLEARANCE = 100;
+
+// Distanza minima consigliata tra retro del radiatore e parete per la convezione (mm)
+export const MIN_WALL_CLEARANCE = 30;
+
+// Profondità usata per i modelli privi del dato di catalogo (mm)
+export const DEFAULT_RADIATOR_DEPTH = 80;
+
+// Il radiatore è centrato in profondità sull'asse delle valvole
+export const calculateWallClearance = (specs: RadiatorSpecs, depth: number): number =>
+  Math.round(specs.valveWallDistance - depth / 2);
+
+const NON_NEGATIVE_FIELDS: { field: keyof RadiatorSpecs; label: string }[] = [
+  { field: 'surface', label: 'Superficie' },
+  { field: 'height', label: 'Altezza locale' },
+  { field: 'valveCenterDistance', label: 'Interasse' },
+  { field: 'valveWallDistance', label: 'Distanza valvola da parete' },
+  { field: 'nicheWidth', label: 'Larghezza nicchia' },
+  { field: 'nicheHeight', label: 'Altezza nicchia' },
+  { field: 'valveHeight', label: 'Altezza valvola' },
+  { field: 'sideValveDistance', label: 'Distanza valvola dal lato' },
+  { field: 'maxWidth', label: 'Ingombro massimo' },
+  { field: 'pipeLength', label: 'Lunghezza tubazione' }
+];
+
+export interface ClearanceQuotes {
+  nicheToV1: number; // mm dal lato nicchia alla valvola principale
+  v2ToRight: number; // mm dalla seconda valvola (basse) al lato opposto
+  radToOpposite: number; // mm dal radiatore al lato opposto (laterali)
+}
+
+// Quote orizzontali in nicchia, comuni a verifiche e prospetto
+export const calculateClearanceQuotes = (specs: RadiatorSpecs, bodyLength: number): ClearanceQuotes => {
+  const { sideValveDistance, nicheWidth, valvePosition } = specs;
+  const radEnd = sideValveDistance + VALVE_BODY_OFFSET + bodyLength;
+  return {
+    nicheToV1: sideValveDistance,
+    v2ToRight: valvePosition === ValvePosition.BOTTOM ? Math.round(nicheWidth - (radEnd + VALVE_BODY_OFFSET)) : 0,
+    radToOpposite: valvePosition === ValvePosition.BOTTOM ? 0 : Math.round(nicheWidth - radEnd)
+  };
+};
+
+const error = (code: string, message: string, field?: keyof RadiatorSpecs): ValidationIssue =>
+  ({ code, field, severity: ValidationSeverity.ERROR, message });
+
+const warning = (code: string, message: string, field?: keyof RadiatorSpecs): ValidationIssue =>
+  ({ code, field, severity: ValidationSeverity.WARNING, message });
+
+// Temperature di esercizio: il ritorno sotto la mandata e sopra l'ambiente
+export const validateTemperatures = ({ flowTemp, returnTemp, roomTemp }: SystemTemperatures): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (flowTemp <= returnTemp) {
+    issues.push(error('FLOW_NOT_ABOVE_RETURN', `Mandata ${flowTemp} °C non superiore al ritorno ${returnTemp} °C`, 'systemTemperatures'));
+  }
+  if (returnTemp <= roomTemp) {
+    issues.push(error('RETURN_NOT_ABOVE_ROOM', `Ritorno ${returnTemp} °C non superiore alla temperatura ambiente ${roomTemp} °C`, 'systemTemperatures'));
+  }
+  return issues;
+};
+
+// Dati del locale, comuni a tutti i radiatori
+const validateRoom = (specs: RadiatorSpecs): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (!(specs.surface > 0)) issues.push(warning('SURFACE_MISSING', 'Superficie del locale non inserita', 'surface'));
+  if (specs.height > 0 && (specs.height < 2 || specs.height > 6)) {
+    issues.push(warning('ROOM_HEIGHT_RANGE', `Altezza locale insolita (${specs.height} m)`, 'height'));
+  }
+  if (specs.heatLossMethod === HeatLossMethod.DETAILED && specs.heatLoss) {
+    if (specs.heatLoss.internalTemp <= specs.heatLoss.externalTemp) {
+      issues.push(error('DESIGN_TEMP_INVERTED', 'La temperatura interna deve superare quella esterna di progetto', 'heatLoss'));
+    }
+    if (specs.heatLoss.surfaces.length === 0) {
+      issues.push(warning('NO_ENVELOPE', 'Nessuna superficie disperdente inserita', 'heatLoss'));
+    }
+  }
+  return issues;
+};
+
+// Installazione e resa del singolo radiatore
+const validateRadiator = (specs: RadiatorSpecs, sizing: SizingResult): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  NON_NEGATIVE_FIELDS.forEach(({ field, label }) => {
+    const value = specs[field];
+    if (typeof value === 'number' && value < 0) {
+      issues.push(error('NEGATIVE_VALUE', `${label}: il valore non può essere negativo`, field));
+    }
+  });
+
+  // Posizione valvole rispetto alla nicchia
+  if (specs.nicheHeight > 0 && specs.valveHeight > specs.nicheHeight) {
+    issues.push(error('VALVE_ABOVE_NICHE', `Valvola a ${specs.valveHeight} mm oltre l'altezza nicchia (${specs.nicheHeight} mm)`, 'valveHeight'));
+  }
+  if (specs.nicheWidth > 0 && specs.sideValveDistance > specs.nicheWidth) {
+    issues.push(error('VALVE_OUTSIDE_NICHE', `Distanza valvola (${specs.sideValveDistance} mm) maggiore della larghezza nicchia`, 'sideValveDistance'));
+  }
+  if (specs.sideValveDistance > 0 && specs.nicheWidth > 0 && specs.sideValveDistance < MIN_VALVE_CLEARANCE) {
+    issues.push(error('VALVE_SIDE_CLEARANCE', `Oltre la valvola servono almeno ${MIN_VALVE_CLEARANCE} mm`, 'sideValveDistance'));
+  }
+
+  // Ingombro orizzontale
+  if (sizing.currentElements > 0) {
+    if (specs.maxWidth > 0 && sizing.totalOccupiedWidth > specs.maxWidth) {
+      issues.push(error('WIDTH_EXCEEDED', `Ingombro totale ${sizing.totalOccupiedWidth} mm oltre il massimo di ${specs.maxWidth} mm`, 'maxWidth'));
+    }
+    if (specs.nicheWidth > 0) {
+      const quotes = calculateClearanceQuotes(specs, sizing.bodyLength);
+      if (specs.valvePosition === ValvePosition.BOTTOM && quotes.v2ToRight < MIN_VALVE_CLEARANCE) {
+        issues.push(error('SECOND_VALVE_CLEARANCE', `Seconda valvola a ${quotes.v2ToRight} mm dal lato nicchia (min ${MIN_VALVE_CLEARANCE} mm)`, 'nicheWidth'));
+      }
+      if (specs.valvePosition !== ValvePosition.BOTTOM && quotes.radToOpposite < MIN_OPPOSITE_CLEARANCE) {
+        issues.push(error('OPPOSITE_CLEARANCE', `Spazio libero lato opposto ${quotes.radToOpposite} mm (min ${MIN_OPPOSITE_CLEARANCE} mm)`, 'nicheWidth'));
+      }
+    }
+  }
+
+  // Ingombro verticale, solo con l'altezza valvola inserita
+  if (sizing.model.height > 0 && specs.valveHeight > 0) {
+    const bottom = specs.valveHeight - RADIATOR_BELOW_VALVE;
+    const top = bottom + sizing.model.height;
+    if (specs.nicheHeight > 0 && top > specs.nicheHeight) {
+      issues.push(error('RADIATOR_ABOVE_NICHE', `Radiatore alto ${top} mm dal fondo: supera la nicchia di ${top - specs.nicheHeight} mm`, 'nicheHeight'));
+    }
+    if (bottom < 0) {
+      issues.push(error('RADIATOR_BELOW_FLOOR', `Con la valvola a ${specs.valveHeight} mm il radiatore scende sotto il pavimento`, 'valveHeight'));
+    } else if (bottom < MIN_FLOOR_CLEARANCE) {
+      issues.push(warning('FLOOR_CLEARANCE', `Distanza da pavimento ${bottom} mm (consigliati ${MIN_FLOOR_CLEARANCE} mm)`, 'valveHeight'));
+    }
+    if (specs.valvePosition !== ValvePosition.BOTTOM && specs.nicheHeight > 0 && specs.valveHeight + specs.valveCenterDistance > specs.nicheHeight) {
+      issues.push(error('UPPER_VALVE_ABOVE_NICHE', 'La valvola superiore cade oltre l\'altezza della nicchia', 'valveCenterDistance'));
+    }
+  }
+
+  // Ingombro in profondità
+  if (specs.valveWallDistance > 0) {
+    const depth = sizing.model.depth ?? DEFAULT_RADIATOR_DEPTH;
+    const wallClearance = calculateWallClearance(specs, depth);
+    if (wallClearance < 0) {
+      issues.push(warning('WALL_CLEARANCE', `Radiatore profondo ${depth} mm: con l'asse valvola a ${specs.valveWallDistance} mm tocca la parete`, 'valveWallDistance'));
+    } else if (wallClearance < MIN_WALL_CLEARANCE) {
+      issues.push(warning('WALL_CLEARANCE', `Distanza radiatore-parete ${wallClearance} mm (consigliati ${MIN_WALL_CLEARANCE} mm)`, 'valveWallDistance'));
+    }
+  }
+
+  // Modello e resa
+  const temperatureIssues = validateTemperatures(sizing.temperatures);
+  issues.push(...temperatureIssues);
+  if (sizing.outputError && temperatureIssues.length === 0) {
+    issues.push(error('NO_OUTPUT', sizing.outputError, 'systemTemperatures'));
+  }
+  if (sizing.matchStatus === InteraxisMatch.NO_MODELS) {
+    issues.push(error('NO_MODELS', 'Nessun modello a catalogo per la gamma selezionata', 'series'));
+  }
+  if (sizing.matchStatus === InteraxisMatch.NO_COMPATIBLE && sizing.matchWarning) {
+    issues.push(error('INTERAXIS_INCOMPATIBLE', sizing.matchWarning, 'valveCenterDistance'));
+  }
+  if (sizing.needsEccentric && sizing.eccentricText) {
+    issues.push(warning('ECCENTRIC_REQUIRED', sizing.eccentricText, 'valveCenterDistance'));
+  }
+  if (sizing.currentElements > 0 && sizing.totalWatts < sizing.requiredWatts) {
+    issues.push(warning('UNDERSIZED', `Resa ${sizing.totalWatts} W inferiore al fabbisogno di ${sizing.requiredWatts} W`, 'manualElements'));
+  }
+
+  // Circuito idraulico
+  const { velocity, pressureGradient } = sizing.hydraulics;
+  if (pressureGradient !== undefined && pressureGradient > MAX_PRESSURE_GRADIENT) {
+    issues.push(warning('PIPE_UNDERSIZED', `Tubo sottodimensionato: perdita di carico ${Math.round(pressureGradient)} Pa/m (max ${MAX_PRESSURE_GRADIENT} Pa/m)`, 'pipeDiameter'));
+  }
+  if (velocity !== undefined && velocity > MAX_PIPE_VELOCITY) {
+    issues.push(warning('PIPE_NOISE', `Velocità acqua ${velocity.toFixed(2)} m/s: rischio rumorosità (max ${MAX_PIPE_VELOCITY} m/s)`, 'pipeDiameter'));
+  }
+
+  return issues;
+};
+
+// Con più radiatori le segnalazioni indicano il radiatore interessato e si verifica anche il totale del locale
+export const validateEnvironment = (env: Environment, sizings: RadiatorSizing[], roomWatts: number): ValidationIssue[] => {
+  const issues = validateRoom(env.specs);
+  if (sizings.length === 1) return [...issues, ...validateRadiator(env.specs, sizings[0].sizing)];
+
+  sizings.forEach(({ radiator, sizing }) => {
+    validateRadiator(radiator.specs, sizing).forEach(issue =>
+      issues.push({ ...issue, message: `${radiator.name}: ${issue.message}`, radiatorId: radiator.id }));
+  });
+  const required = Math.round(roomWatts);
+  const assigned = sizings.reduce((sum, s) => sum + s.sizing.requiredWatts, 0);
+  const total = sizings.reduce((sum, s) => sum + s.sizing.totalWatts, 0);
+  if (env.loadSplit === LoadSplitMode.MANUAL && Math.abs(assigned - required) > sizings.length) {
+    issues.push(warning('SPLIT_MISMATCH', `Quote assegnate ai radiatori ${assigned} W diverse dal fabbisogno del locale di ${required} W`, 'assignedWatts'));
+  }
+  if (total < required) {
+    issues.push(warning('ROOM_UNDERSIZED', `Resa totale del locale ${total} W inferiore al fabbisogno di ${required} W`));
+  }
+  return issues;
+};
+
+// Segnalazioni del locale e del radiatore indicato
+export const issuesForRadiator = (issues: ValidationIssue[], radiatorId: string): ValidationIssue[] =>
+  issues.filter(i => !i.radiatorId || i.radiatorId === radiatorId);
+
+export const countIssues = (issues: ValidationIssue[]) => ({
+  errors: issues.filter(i => i.severity === ValidationSeverity.ERROR).length,
+  warnings: issues.filter(i => i.severity === ValidationSeverity.WARNING).length
+});
@@ -5,11 +5,82 @@ export enum ValvePosition {
   LEFT = 'LEFT'
 }
 
-export enum RadiatorSeries {
-  TESI2 = 'TESI 2',
-  TESI3 = 'TESI 3',
-  TESI4 = 'TESI 4',
-  CUSTOM = 'PERSONALIZZATO'
+// Identificativo gamma: l'elenco delle gamme deriva dai modelli a catalogo
+export type RadiatorSeries = string;
+
+export const RadiatorSeries = {
+  TESI2: 'TESI 2',
+  TESI3: 'TESI 3',
+  TESI4: 'TESI 4',
+  CUSTOM: 'PERSONALIZZATO' // Modelli inseriti senza gamma
+} as const;
+
+export enum HeatLossMethod {
+  QUICK = 'QUICK',
+  DETAILED = 'DETAILED'
+}
+
+export enum EnvelopeSurfaceType {
+  WALL = 'WALL',
+  WINDOW = 'WINDOW',
+  FLOOR = 'FLOOR',
+  ROOF = 'ROOF'
+}
+
+export enum Orientation {
+  N = 'N',
+  NE = 'NE',
+  E = 'E',
+  SE = 'SE',
+  S = 'S',
+  SW = 'SO',
+  W = 'O',
+  NW = 'NO',
+  HORIZONTAL = 'ORIZZ'
+}
+
+export interface EnvelopeSurface {
+  id: string;
+  type: EnvelopeSurfaceType;
+  area: number; // m2
+  uValue: number; // W/m2K (trasmittanza)
+  orientation: Orientation;
+  adjacentTemp?: number; // °C lato opposto se non esterno (es. locale non riscaldato)
+}
+
+export interface HeatLossParams {
+  internalTemp: number; // °C progetto interna
+  externalTemp: number; // °C progetto esterna
+  airChangeRate: number; // vol/h (ricambi d'aria)
+  surfaces: EnvelopeSurface[];
+}
+
+export interface SystemTemperatures {
+  flowTemp: number; // °C mandata
+  returnTemp: number; // °C ritorno
+  roomTemp: number; // °C ambiente
+}
+
+export enum CircuitType {
+  TWO_PIPE = 'TWO_PIPE', // Bitubo: un'uscita di mandata e ritorno per radiatore
+  MONOTUBE = 'MONOTUBE' // Anello monotubo: radiatori in serie sulla stessa uscita
+}
+
+// Collettore con uscite numerate da 1 (per il monotubo ogni uscita è un anello)
+export interface Manifold {
+  id: string;
+  name: string;
+  circuitType: CircuitType;
+  outlets: number;
+  location?: string;
+}
+
+// Allacciamento del radiatore a un'uscita del collettore
+export interface CircuitConnection {
+  manifoldId: string;
+  outlet: number;
+  supplyLength: number; // m tubo di mandata
+  returnLength: number; // m tubo di ritorno
 }
 
 export interface RadiatorSpecs {
@@ -24,11 +95,29 @@ export interface RadiatorSpecs {
   sideValveDistance: number; // mm (distanza valvola dal lato nicchia)
   maxWidth: number; // mm
   manualElements?: number; // Override manuale numero elementi
+  manualLength?: number; // mm override lunghezza per radiatori a pannello
+  modelCode?: string; // Modello scelto manualmente tra le alternative di interasse
   hasDiaphragm: boolean;
   series: RadiatorSeries; // Selected series
   pipeDiameter: string; // Pipe diameter
   pipeMaterial: string; // Pipe material
+  pipeLength?: number; // m di tubazione mandata + ritorno
+  connection?: CircuitConnection; // Uscita del collettore che alimenta il radiatore
+  assignedWatts?: number; // W assegnati al radiatore con ripartizione manuale
   customModelId?: string; // Reference to a custom model if selected
+  heatLossMethod?: HeatLossMethod; // Metodo di calcolo fabbisogno (default QUICK)
+  heatLoss?: HeatLossParams; // Dati dispersioni per metodo DETAILED
+  systemTemperatures?: SystemTemperatures; // Override temperature di progetto per il locale
+}
+
+// Dati tipici di un locale riutilizzabili alla creazione degli ambienti
+export type RoomTemplateSpecs = Pick<RadiatorSpecs,
+  'surface' | 'height' | 'series' | 'valvePosition' | 'pipeMaterial' | 'pipeDiameter' | 'pipeLength' | 'hasDiaphragm' | 'heatLossMethod' | 'heatLoss'>;
+
+export interface RoomTemplate {
+  id: string;
+  name: string;
+  specs: RoomTemplateSpecs;
 }
 
 export interface RadiatorModel {
@@ -40,27 +129,440 @@ export interface RadiatorModel {
   watts: number;
   series?: RadiatorSeries;
   brand?: string; // Brand name (e.g., Fondital)
+  exponent?: number; // Esponente n della curva caratteristica (EN 442)
+  elementWidth?: number; // mm larghezza (passo) elemento
+  fixedLengths?: number[]; // mm lunghezze standard per radiatori a pannello non componibili (watts = W/m)
+  depth?: number; // mm profondità
+  waterContent?: number; // litri per elemento
+  weight?: number; // kg per elemento
+  price?: number; // € per elemento
 }
 
-export interface Environment {
+export interface SeriesOption {
+  id: RadiatorSeries;
+  label: string;
+  brand?: string;
+  modelCount: number;
+}
+
+export interface CatalogueImportIssue {
+  row: number; // Riga (CSV) o indice (JSON), base 1
+  code?: string;
+  message: string;
+}
+
+export interface CatalogueImportResult {
+  models: RadiatorModel[];
+  errors: CatalogueImportIssue[];
+  duplicates: string[]; // Codici duplicati nel file o già presenti a catalogo
+}
+
+// Criterio di ripartizione del fabbisogno tra più radiatori dello stesso locale
+export enum LoadSplitMode {
+  EVEN = 'UGUALE',
+  NICHE_WIDTH = 'NICCHIA',
+  MANUAL = 'MANUALE'
+}
+
+// Radiatore con nicchia e valvole proprie; i dati del locale restano nelle specifiche dell'ambiente
+export interface RadiatorPosition {
   id: string;
   name: string;
   specs: RadiatorSpecs;
 }
 
+export interface Environment {
+  id: string;
+  name: string;
+  specs: RadiatorSpecs; // Dati del locale e primo radiatore
+  additionalRadiators?: RadiatorPosition[];
+  loadSplit?: LoadSplitMode; // Default EVEN
+  unitId?: string; // Unità immobiliare di appartenenza
+}
+
+// Struttura edificio: il progetto è l'edificio, suddiviso in piani e unità immobiliari
+export interface BuildingFloor {
+  id: string;
+  name: string;
+}
+
+export interface BuildingUnit {
+  id: string;
+  name: string;
+  floorId: string;
+}
+
+export enum ProjectStatus {
+  DRAFT = 'BOZZA',
+  SENT = 'INVIATO',
+  ACCEPTED = 'ACCETTATO',
+  INSTALLED = 'INSTALLATO'
+}
+
+export enum HeatSourceType {
+  BOILER = 'BOILER',
+  MANIFOLD = 'MANIFOLD'
+}
+
+export enum ValveKind {
+  LOCKSHIELD = 'LOCKSHIELD',
+  THERMOSTATIC = 'THERMOSTATIC'
+}
+
+export interface ValveCurvePoint {
+  setting: number; // Giri di apertura del detentore o posizione di preregolazione
+  kv: number; // m³/h con 1 bar di perdita
+}
+
+// Valvola di bilanciamento con la curva kv in ordine di apertura crescente
+export interface BalancingValve {
+  id: string;
+  label: string;
+  kind: ValveKind;
+  step: number; // Risoluzione della preregolazione (giri o posizioni)
+  curve: ValveCurvePoint[];
+}
+
+export enum BalancingStatus {
+  INDEX = 'INDEX', // Circuito sfavorito: valvola tutta aperta
+  OK = 'OK',
+  OUT_OF_RANGE = 'OUT_OF_RANGE', // Kv richiesto sotto la minima apertura della valvola
+  MISSING_DATA = 'MISSING_DATA', // Tubo o lunghezza non indicati
+  MONOTUBE = 'MONOTUBE' // Radiatore su anello monotubo: si regola l'anello, non il singolo radiatore
+}
+
+// Origine dei circuiti: le lunghezze tubo dei radiatori si intendono misurate da qui
+export interface BalancingSettings {
+  sourceType: HeatSourceType;
+  sourceLocation: string; // Es. "Collettore bagno piano primo"
+  valveId: string;
+}
+
+export enum GeneratorType {
+  BOILER = 'BOILER',
+  HEAT_PUMP = 'HEAT_PUMP'
+}
+
+// Dati del generatore per il riepilogo di centrale
+export interface PlantSettings {
+  generatorType: GeneratorType;
+  dhwAllowance: number; // W quota acqua calda sanitaria
+  generatorWaterContent: number; // litri contenuti nel generatore
+}
+
 export interface Project {
   id: string;
   clientName: string;
   clientSurname: string;
   siteAddress: string;
   environments: Environment[];
+  buildingName?: string;
+  floors?: BuildingFloor[];
+  units?: BuildingUnit[];
+  systemTemperatures?: SystemTemperatures; // Temperature di esercizio impianto
+  balancing?: BalancingSettings;
+  manifolds?: Manifold[];
+  plant?: PlantSettings;
+  status: ProjectStatus;
+  archived: boolean;
+  quote?: ProjectQuote; // Modifiche al preventivo generato dagli ambienti
+  letterheadId?: string; // Carta intestata usata nelle stampe
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export interface PipePrice {
+  material: string;
+  diameter: string;
+  pricePerMeter: number; // €/m
+}
+
+// Listino accessori e manodopera (prezzi unitari IVA esclusa)
+export interface PriceList {
+  valve: number; // € valvola termostatizzabile
+  lockshield: number; // € detentore
+  eccentricPair: number; // € coppia di raccordi eccentrici
+  diaphragmKit: number; // € kit diaframma
+  bracket: number; // € staffa a muro
+  labourPerRadiator: number; // € posa per radiatore
+  pipes: PipePrice[];
+  vatRate: number; // % IVA predefinita
 }
 
 export interface GlobalSettings {
   wattCoefficient: number;
+  maxEccentricCompensation: number; // mm massimo scarto interasse compensabile con eccentrici
+  priceList: PriceList;
 }
 
 export interface CalculationResult {
   volume: number;
   watts: number;
+  method: HeatLossMethod;
+  transmissionWatts?: number; // W dispersioni per trasmissione
+  ventilationWatts?: number; // W dispersioni per ventilazione
+}
+
+export enum InteraxisMatch {
+  EXACT = 'EXACT',
+  ECCENTRIC = 'ECCENTRIC',
+  NOT_RELEVANT = 'NOT_RELEVANT', // Valvole basse: interasse ininfluente
+  NO_COMPATIBLE = 'NO_COMPATIBLE',
+  NO_MODELS = 'NO_MODELS'
+}
+
+export interface InteraxisCandidate {
+  model: RadiatorModel;
+  difference: number; // mm interasse modello - interasse richiesto
+  fitsNiche: boolean;
+  withinCompensation: boolean;
+}
+
+export interface SizingResult {
+  model: RadiatorModel; // Modello scelto per interasse
+  series: RadiatorSeries;
+  requiredWatts: number; // W fabbisogno (arrotondato)
+  heatLossMethod: HeatLossMethod;
+  baseElements: number; // Elementi calcolati
+  currentElements: number; // Elementi effettivi (manuali o calcolati)
+  isPanel: boolean; // Modello a pannello a lunghezza fissa
+  elementWidth: number; // mm passo elemento (lunghezza pannello se isPanel)
+  bodyLength: number; // mm
+  totalOccupiedWidth: number; // mm
+  totalWatts: number; // W resa effettiva (al ΔT di progetto)
+  nominalTotalWatts: number; // W resa nominale (ΔT 50 K)
+  elementWatts: number; // W per elemento (W/m per i pannelli) al ΔT di progetto
+  deltaT: number; // K differenza di temperatura media logaritmica
+  outputFactor: number; // Fattore di correzione resa (ΔT/50)^n
+  interaxisDiff: number; // mm differenza interasse richiesto/modello
+  matchStatus: InteraxisMatch;
+  candidates: InteraxisCandidate[]; // Alternative immediatamente inferiore e superiore
+  matchWarning: string | null;
+  temperatures: SystemTemperatures; // Temperature effettive del radiatore (locale, progetto o anello)
+  outputError: string | null; // Temperature che non consentono alcuna resa
+  needsEccentric: boolean;
+  eccentricText: string | null;
+  hasClearanceIssue: boolean;
+  hydraulics: HydraulicResult;
+}
+
+// Verifica idraulica del circuito del radiatore (valori assenti se il tubo non è definito)
+export interface HydraulicResult {
+  systemDeltaT: number; // K salto termico mandata/ritorno
+  flowRate: number; // l/h portata di progetto
+  innerDiameter?: number; // mm diametro interno del tubo
+  velocity?: number; // m/s
+  pressureGradient?: number; // Pa/m perdita di carico lineare
+  circuitPressureDrop?: number; // Pa sulla lunghezza del circuito
+}
+
+// Dimensionamento di un radiatore del locale con la sua quota di fabbisogno
+export interface RadiatorSizing {
+  radiator: RadiatorPosition;
+  sizing: SizingResult;
+}
+
+export enum OptimizerSortKey {
+  OVERSIZE = 'OVERSIZE',
+  WIDTH = 'WIDTH',
+  COST = 'COST',
+  WATER = 'WATER'
+}
+
+export interface OptimizerProposal {
+  model: RadiatorModel;
+  sizing: SizingResult;
+  oversizePercent: number; // % resa oltre il fabbisogno
+  topHeight: number; // mm quota sommità radiatore dal fondo nicchia
+  cost?: number; // € (se prezzo a catalogo)
+  waterContent?: number; // litri (se dato a catalogo)
+  warnings: string[]; // Avvisi che non escludono la proposta (spazio oltre la valvola, eccentrici)
+}
+
+export enum ValidationSeverity {
+  ERROR = 'ERROR',
+  WARNING = 'WARNING'
+}
+
+export interface ValidationIssue {
+  code: string; // Identificativo regola (es. VALVE_ABOVE_NICHE)
+  field?: keyof RadiatorSpecs;
+  severity: ValidationSeverity;
+  message: string;
+  radiatorId?: string; // Radiatore interessato nei locali con più radiatori
+}
+
+// Profilo aziendale per intestazione e piè di pagina delle stampe
+export interface Letterhead {
+  id: string;
+  companyName: string;
+  vatNumber: string;
+  address: string;
+  phone: string;
+  email: string;
+  website: string;
+  logo?: string; // Data URL dell'immagine
+  signature?: string; // Data URL di timbro e firma
+}
+
+export interface PersistedState {
+  projects: Project[];
+  activeProjectId: string;
+  customModels: RadiatorModel[];
+  settings: GlobalSettings;
+  letterheads: Letterhead[];
+  roomTemplates: RoomTemplate[];
+  snapshots: ProjectSnapshot[];
+}
+
+export interface ProjectFile {
+  format: string;
+  schemaVersion: number;
+  exportedAt: string;
+  projects: Project[];
+  customModels: RadiatorModel[];
+  settings?: GlobalSettings;
+  letterheads?: Letterhead[];
+  roomTemplates?: RoomTemplate[];
+}
+
+export enum ImportConflictMode {
+  MERGE = 'MERGE', // Unisce gli ambienti nel progetto esistente
+  DUPLICATE = 'DUPLICATE', // Importa come nuovo progetto
+  REPLACE = 'REPLACE' // Sostituisce il progetto esistente
+}
+
+// Elemento eliminato in attesa di eventuale annullamento
+export type DeletedItem =
+  | { kind: 'project'; project: Project; index: number }
+  | { kind: 'environment'; projectId: string; environment: Environment; index: number };
+
+export enum SnapshotKind {
+  AUTO = 'AUTO', // Salvataggio periodico
+  MANUAL = 'MANUAL' // Salvata dall'utente con un nome
+}
+
+// Copia completa di un progetto in un dato momento, ripristinabile
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  project: Project;
+}
+
+export enum SnapshotChange {
+  ADDED = 'ADDED',
+  REMOVED = 'REMOVED',
+  CHANGED = 'CHANGED',
+  UNCHANGED = 'UNCHANGED'
+}
+
+export enum QuoteLineCategory {
+  RADIATOR = 'RADIATORE',
+  VALVE = 'VALVOLA',
+  LOCKSHIELD = 'DETENTORE',
+  ECCENTRIC = 'ECCENTRICI',
+  DIAPHRAGM = 'DIAFRAMMA',
+  BRACKET = 'STAFFE',
+  PIPE = 'TUBAZIONE',
+  LABOUR = 'MANODOPERA',
+  OTHER = 'ALTRO'
+}
+
+export interface QuoteLine {
+  id: string; // Per le righe generate: "<id ambiente>:<categoria>"
+  category: QuoteLineCategory;
+  description: string;
+  unit: string; // pz, m, h...
+  quantity: number;
+  unitPrice: number; // € IVA esclusa
+  environmentId?: string;
+}
+
+export interface QuoteLineOverride {
+  description?: string;
+  quantity?: number;
+  unitPrice?: number;
+  removed?: boolean;
+}
+
+export interface ProjectQuote {
+  overrides: Record<string, QuoteLineOverride>; // Per id riga generata
+  extraLines: QuoteLine[]; // Righe aggiunte a mano (manodopera, extra)
+  discountPercent: number;
+  vatRate: number;
+  notes: string;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  discount: number;
+  taxable: number;
+  vat: number;
+  total: number;
+}
+
+export enum BomSection {
+  RADIATORS = 'RADIATORI',
+  SERIES = 'ELEMENTI PER GAMMA',
+  VALVES = 'KIT VALVOLE',
+  FITTINGS = 'RACCORDERIA',
+  PIPES = 'TUBAZIONI',
+  BRACKETS = 'STAFFE',
+  MANIFOLDS = 'COLLETTORI'
+}
+
+export interface BomItem {
+  code: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  rooms: string[]; // Ambienti in cui il materiale è impiegato
+}
+
+export interface BomGroup {
+  section: BomSection;
+  items: BomItem[];
+}
+
+// Layer dei disegni tecnici vettoriali (riutilizzati come layer DXF)
+export enum DrawingLayer {
+  NICHE = 'NICCHIA',
+  RADIATOR = 'RADIATORE',
+  VALVES = 'VALVOLE',
+  DIMENSIONS = 'QUOTE',
+  DIMENSION_ERRORS = 'QUOTE_ERRORI',
+  TEXT = 'TESTI'
+}
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+// Primitive in mm reali con asse Y verso l'alto; l'origine dipende dalla vista
+export type DrawingPrimitive =
+  | { kind: 'line'; layer: DrawingLayer; x1: number; y1: number; x2: number; y2: number; dashed?: boolean }
+  | { kind: 'rect'; layer: DrawingLayer; x: number; y: number; width: number; height: number }
+  | { kind: 'circle'; layer: DrawingLayer; cx: number; cy: number; r: number }
+  | { kind: 'polygon'; layer: DrawingLayer; points: [number, number][] }
+  | { kind: 'text'; layer: DrawingLayer; x: number; y: number; text: string; size: number; anchor: TextAnchor; angle?: number };
+
+export interface DrawingBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface TechnicalDrawing {
+  primitives: DrawingPrimitive[];
+  bounds: DrawingBounds;
+}
+
+// Viste del radiatore nel visualizzatore e nella scheda locale
+export enum DrawingView {
+  ELEVATION = 'PROSPETTO',
+  PLAN = 'PIANTA',
+  SECTION = 'SEZIONE',
+  ALL = 'TUTTE'
 }
@@ -0,0 +1,51 @@
+import { BalancingValve, ValveKind } from './types';
+
+// Curve kv indicative da schede tecniche tipiche; per valvole specifiche verificare i dati del produttore
+export const BUILTIN_VALVES: BalancingValve[] = [
+  {
+    id: 'lockshield-1-2',
+    label: 'Detentore 1/2" a giri',
+    kind: ValveKind.LOCKSHIELD,
+    step: 0.25,
+    curve: [
+      { setting: 0.5, kv: 0.12 },
+      { setting: 1, kv: 0.25 },
+      { setting: 1.5, kv: 0.4 },
+      { setting: 2, kv: 0.55 },
+      { setting: 2.5, kv: 0.7 },
+      { setting: 3, kv: 0.85 },
+      { setting: 4, kv: 1.05 },
+      { setting: 5, kv: 1.25 }
+    ]
+  },
+  {
+    id: 'lockshield-3-8',
+    label: 'Detentore 3/8" a giri',
+    kind: ValveKind.LOCKSHIELD,
+    step: 0.25,
+    curve: [
+      { setting: 0.5, kv: 0.1 },
+      { setting: 1, kv: 0.2 },
+      { setting: 1.5, kv: 0.32 },
+      { setting: 2, kv: 0.45 },
+      { setting: 3, kv: 0.65 },
+      { setting: 4, kv: 0.8 },
+      { setting: 5, kv: 0.95 }
+    ]
+  },
+  {
+    // Kv a banda proporzionale 2 K
+    id: 'thermostatic-preset',
+    label: 'Valvola termostatica preregolabile',
+    kind: ValveKind.THERMOSTATIC,
+    step: 1,
+    curve: [
+      { setting: 1, kv: 0.05 },
+      { setting: 2, kv: 0.09 },
+      { setting: 3, kv: 0.14 },
+      { setting: 4, kv: 0.2 },
+      { setting: 5, kv: 0.3 },
+      { setting: 6, kv: 0.45 }
+    ]
+  }
+];